@@ -12,6 +12,8 @@ let openscadInstance = null;
 let isReady = false;
 let rackScadFS = null;
 let openscadFactory = null; // Store the factory to create new instances
+let currentRenderId = null; // Render whose output is captured and forwarded to the main thread
+let renderLog = []; // Both streams of the current render, in print order
 
 // Send a message to the main thread
 function postResponse(response) {
@@ -53,16 +55,37 @@ async function loadRackScadLibrary() {
   const Buffer = BrowserFS.BFSRequire('buffer').Buffer;
   const zipData = Buffer.from(arrayBuffer);
 
-  return new Promise((resolve, reject) => {
-    BrowserFS.FileSystem.ZipFS.Create({ zipData }, (e, zipfs) => {
-      if (e || !zipfs) {
+  const zipfs = await new Promise((resolve, reject) => {
+    BrowserFS.FileSystem.ZipFS.Create({ zipData }, (e, fs) => {
+      if (e || !fs) {
         reject(e || new Error('Failed to create ZipFS'));
         return;
       }
+      resolve(fs);
+    });
+  });
+
+  // Writable overlay so generated files (e.g. the device table) can replace library files
+  const memfs = await new Promise((resolve, reject) => {
+    BrowserFS.FileSystem.InMemory.Create({}, (e, fs) => {
+      if (e || !fs) {
+        reject(e || new Error('Failed to create InMemory FS'));
+        return;
+      }
+      resolve(fs);
+    });
+  });
 
-      rackScadFS = zipfs;
+  return new Promise((resolve, reject) => {
+    BrowserFS.FileSystem.OverlayFS.Create({ readable: zipfs, writable: memfs }, (e, overlayfs) => {
+      if (e || !overlayfs) {
+        reject(e || new Error('Failed to create OverlayFS'));
+        return;
+      }
 
-      // Mount the ZipFS at /libraries in BrowserFS
+      rackScadFS = overlayfs;
+
+      // Mount the library at /libraries in BrowserFS
       // The zip contains components/ folder, so files will be at /libraries/components/
       const fs = BrowserFS.BFSRequire('fs');
       try {
@@ -71,12 +94,12 @@ async function loadRackScadLibrary() {
         // Directory may already exist
       }
 
-      // Get the MountableFileSystem and mount the ZipFS
+      // Get the MountableFileSystem and mount the library
       const rootFS = fs.getRootFS();
       if (rootFS && rootFS.mount) {
-        rootFS.mount('/libraries', zipfs);
+        rootFS.mount('/libraries', overlayfs);
       } else {
-        console.warn('[OpenSCAD Worker] Could not mount ZipFS - no mount method');
+        console.warn('[OpenSCAD Worker] Could not mount rack-scad library - no mount method');
       }
 
       resolve();
@@ -116,17 +139,32 @@ function isImportantMessage(text) {
   return true;
 }
 
+// Capture a line of render output and forward it (the main thread derives progress from it)
+function captureOutput(stream, text) {
+  if (currentRenderId) {
+    renderLog.push({ stream, text });
+    postResponse({ type: 'output', id: currentRenderId, payload: { stream, text } });
+  }
+}
+
+// First ERROR line of the render, which says more than the exit code
+function firstErrorLine() {
+  return renderLog.map((line) => line.text).find((text) => /^ERROR:/.test(text.trim()));
+}
+
 // Create a fresh OpenSCAD instance (needed for each render since WASM can't be reused after abort)
 async function createOpenSCADInstance() {
   return new Promise((resolve, reject) => {
     const moduleConfig = {
       noInitialRun: true,
       print: (text) => {
+        captureOutput('stdout', text);
         if (isImportantMessage(text)) {
           console.log('[OpenSCAD]', text);
         }
       },
       printErr: (text) => {
+        captureOutput('stderr', text);
         if (isImportantMessage(text)) {
           // Use console.warn for warnings, console.error for errors
           if (/ERROR/i.test(text)) {
@@ -192,17 +230,31 @@ async function createOpenSCADInstance() {
   });
 }
 
+// Write generated library files, keyed by path relative to the library root
+function writeLibraryFiles(files) {
+  const fs = BrowserFS.BFSRequire('fs');
+  for (const [path, content] of Object.entries(files)) {
+    fs.writeFileSync(`/libraries/${path}`, content);
+  }
+}
+
 // Perform a render
-async function render(id, scadCode, outputFormat, variables) {
+async function render(id, scadCode, outputFormat, variables, files) {
   if (!openscadFactory) {
     return { success: false, error: 'OpenSCAD not initialized' };
   }
 
   const startTime = Date.now();
-  let stdout = '';
-  let stderr = '';
+  renderLog = [];
+  const streamText = (stream) =>
+    renderLog.filter((line) => line.stream === stream).map((line) => line.text).join('\n');
+  const capturedOutput = () => ({ log: renderLog, stdout: streamText('stdout'), stderr: streamText('stderr') });
 
   try {
+    if (files) {
+      writeLibraryFiles(files);
+    }
+
     // Create a fresh instance for each render (WASM instances can't be reused after callMain)
     await createOpenSCADInstance();
     const FS = openscadInstance.FS;
@@ -229,6 +281,7 @@ async function render(id, scadCode, outputFormat, variables) {
 
     FS.writeFile(inputPath, fullCode);
 
+    currentRenderId = id;
     const args = [
       inputPath,
       '-o', outputPath,
@@ -241,9 +294,8 @@ async function render(id, scadCode, outputFormat, variables) {
     if (result !== 0) {
       return {
         success: false,
-        error: `OpenSCAD exited with code ${result}`,
-        stdout,
-        stderr,
+        error: firstErrorLine() || `OpenSCAD exited with code ${result}`,
+        ...capturedOutput(),
         renderTime: Date.now() - startTime,
       };
     }
@@ -260,18 +312,18 @@ async function render(id, scadCode, outputFormat, variables) {
     return {
       success: true,
       output: outputData.buffer,
-      stdout,
-      stderr,
+      ...capturedOutput(),
       renderTime: Date.now() - startTime,
     };
   } catch (e) {
     return {
       success: false,
-      error: e instanceof Error ? e.message : String(e),
-      stdout,
-      stderr,
+      error: firstErrorLine() || (e instanceof Error ? e.message : String(e)),
+      ...capturedOutput(),
       renderTime: Date.now() - startTime,
     };
+  } finally {
+    currentRenderId = null;
   }
 }
 
@@ -329,14 +381,16 @@ self.onmessage = async (event) => {
         id,
         payload.scadCode,
         payload.outputFormat,
-        payload.variables
+        payload.variables,
+        payload.files
       );
 
       postResponse({ type: 'result', id, payload: result });
       break;
 
     case 'cancel':
-      // TODO: Implement cancellation
+      // callMain runs synchronously, so no message gets through while a render
+      // runs. The runner cancels by terminating this worker and starting another.
       break;
   }
 };
@@ -0,0 +1,45 @@
+// Packs the OpenSCAD library the worker mounts (public/components and
+// public/rack_mounts) into public/rack-scad.zip, so renders always use the
+// SCAD files in the tree. Entries are sorted and dated the same on every
+// run, so the zip only changes when a library file does.
+
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import JSZip from 'jszip';
+
+const PUBLIC_DIR = new URL('../public/', import.meta.url);
+const LIBRARY_DIRS = ['components', 'rack_mounts'];
+const OUTPUT = new URL('rack-scad.zip', PUBLIC_DIR);
+const ENTRY_DATE = new Date('2000-01-01T00:00:00Z');
+
+const zip = new JSZip();
+
+for (const dir of LIBRARY_DIRS) {
+  zip.file(`${dir}/`, null, { dir: true, date: ENTRY_DATE });
+  const files = (await readdir(new URL(`${dir}/`, PUBLIC_DIR)))
+    .filter((name) => name.endsWith('.scad'))
+    .sort();
+  for (const name of files) {
+    const content = await readFile(new URL(`${dir}/${name}`, PUBLIC_DIR));
+    zip.file(`${dir}/${name}`, content, { date: ENTRY_DATE, createFolders: false });
+  }
+}
+
+const data = await zip.generateAsync({
+  type: 'nodebuffer',
+  compression: 'DEFLATE',
+  compressionOptions: { level: 9 },
+});
+
+let previous = null;
+try {
+  previous = await readFile(OUTPUT);
+} catch {
+  // First build
+}
+
+if (previous && previous.equals(data)) {
+  console.log('rack-scad.zip is up to date');
+} else {
+  await writeFile(OUTPUT, data);
+  console.log(`Wrote rack-scad.zip (${LIBRARY_DIRS.join(', ')})`);
+}
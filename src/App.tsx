@@ -6,12 +6,22 @@ import { RackConfigurator } from './components/RackConfigurator';
 import { RackToolbar } from './components/RackToolbar';
 import { PropertyPanel } from './components/PropertyPanel';
 import { MainViewer3D } from './components/MainViewer3D';
+import { ProblemsPanel } from './components/ProblemsPanel';
+import { ImportErrorsModal } from './components/ImportErrorsModal';
+import { RestoreSessionModal } from './components/RestoreSessionModal';
 import { useRackStore } from './state/rack-store';
+import { useShareLinkLoader } from './hooks/useShareLinkLoader';
+import { useLibraryPrefs } from './hooks/useLibraryPrefs';
+import { useAutosave } from './hooks/useAutosave';
+import { loadUserDevices } from './utils/user-devices-db';
+import { loadDevicePacks } from './utils/device-pack-db';
+import { deleteUnusedDeviceMeshes } from './utils/device-mesh-db';
 import type { RackDevice } from './data/devices';
-import { getDevice } from './data/devices';
+import { getDevice, getDefaultMountType } from './data/devices';
 import { getPlacedDeviceDimensions, parseConfigJson } from './utils/scad-generator';
 import { clampToRackBounds, calculateFitScale } from './utils/coordinates';
-import type { RackConfig } from './state/types';
+import { clampGroupMove } from './utils/alignment';
+import { serializeDeviceClipboard, parseDeviceClipboard, getPasteOffset } from './utils/device-clipboard';
 
 type MainViewMode = '2d' | '3d';
 
@@ -30,17 +40,48 @@ function DragPreview({ device }: { device: RackDevice }) {
 function App() {
   const {
     config,
-    selectedDeviceId,
+    selectedDeviceIds,
     snapToGrid,
     gridSize,
     zoom,
     addDevice,
-    removeDevice,
+    removeDevices,
     updateDevicePosition,
+    updateDevicePositions,
     selectDevice,
     loadConfig,
+    setImportErrors,
+    pasteDevices,
+    duplicateDevices,
+    undo,
+    redo,
+    setUserDevices,
+    setDevicePacks,
   } = useRackStore();
 
+  // Register the "My Devices" catalog and device packs alongside the built-in devices
+  useEffect(() => {
+    loadUserDevices().then(setUserDevices);
+    loadDevicePacks().then(setDevicePacks);
+  }, [setUserDevices, setDevicePacks]);
+
+  // Drop imported STL models that no saved layout places any more
+  useEffect(() => {
+    const { config, past, future } = useRackStore.getState();
+    deleteUnusedDeviceMeshes([config, ...past, ...future]).catch((error) =>
+      console.warn('Failed to clean up device meshes:', error)
+    );
+  }, []);
+
+  // Open configs shared via #config= links
+  useShareLinkLoader();
+
+  // Persist the device library's favorites and recently placed devices
+  useLibraryPrefs();
+
+  // Autosave the working config and offer to restore it after a crash
+  const { restorableSession, restoreSession, discardSession } = useAutosave();
+
   // Track active drag for overlay
   const [activeDragDevice, setActiveDragDevice] = useState<RackDevice | null>(null);
 
@@ -96,60 +137,68 @@ function App() {
     const reader = new FileReader();
     reader.onload = (event) => {
       const content = event.target?.result as string;
-      const parsedConfig = parseConfigJson(content);
-      if (parsedConfig) {
-        loadConfig(parsedConfig as RackConfig);
+      const result = parseConfigJson(content);
+      if (result.ok) {
+        loadConfig(result.config);
       } else {
-        console.error('Invalid rack configuration file');
+        console.error('Invalid rack configuration file:', result.errors);
+        setImportErrors(result.errors);
       }
     };
     reader.onerror = () => {
       console.error('Error reading file');
+      setImportErrors([`Could not read ${file.name}`]);
     };
     reader.readAsText(file);
-  }, [loadConfig]);
+  }, [loadConfig, setImportErrors]);
 
-  // Handle keyboard shortcuts
+  // Handle keyboard shortcuts (apply to every selected device)
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
-      if (!selectedDeviceId) return;
+      if (selectedDeviceIds.length === 0) return;
 
       // Search in all device lists (main, left, right)
-      const device = config.devices.find((d) => d.id === selectedDeviceId)
-        || config.leftDevices.find((d) => d.id === selectedDeviceId)
-        || config.rightDevices.find((d) => d.id === selectedDeviceId);
-      if (!device) return;
+      const allDevices = [...config.devices, ...config.leftDevices, ...config.rightDevices];
+      const selected = allDevices.filter((d) => selectedDeviceIds.includes(d.id));
+      if (selected.length === 0) return;
 
       const nudgeAmount = e.shiftKey ? 10 : 1;
+      const nudge = (dx: number, dy: number) => {
+        const positions: Record<string, { x: number; y: number }> = {};
+        for (const d of selected) {
+          positions[d.id] = { x: d.offsetX + dx, y: d.offsetY + dy };
+        }
+        updateDevicePositions(positions);
+      };
 
       switch (e.key) {
         case 'Delete':
         case 'Backspace':
           e.preventDefault();
-          removeDevice(selectedDeviceId);
+          removeDevices(selected.map((d) => d.id));
           break;
         case 'ArrowLeft':
           e.preventDefault();
-          updateDevicePosition(selectedDeviceId, device.offsetX - nudgeAmount, device.offsetY);
+          nudge(-nudgeAmount, 0);
           break;
         case 'ArrowRight':
           e.preventDefault();
-          updateDevicePosition(selectedDeviceId, device.offsetX + nudgeAmount, device.offsetY);
+          nudge(nudgeAmount, 0);
           break;
         case 'ArrowUp':
           e.preventDefault();
-          updateDevicePosition(selectedDeviceId, device.offsetX, device.offsetY + nudgeAmount);
+          nudge(0, nudgeAmount);
           break;
         case 'ArrowDown':
           e.preventDefault();
-          updateDevicePosition(selectedDeviceId, device.offsetX, device.offsetY - nudgeAmount);
+          nudge(0, -nudgeAmount);
           break;
         case 'Escape':
           selectDevice(null);
           break;
       }
     },
-    [selectedDeviceId, config.devices, config.leftDevices, config.rightDevices, removeDevice, updateDevicePosition, selectDevice]
+    [selectedDeviceIds, config.devices, config.leftDevices, config.rightDevices, removeDevices, updateDevicePositions, selectDevice]
   );
 
   useEffect(() => {
@@ -157,6 +206,79 @@ function App() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [handleKeyDown]);
 
+  // Undo/redo shortcuts (Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y, Cmd on macOS)
+  useEffect(() => {
+    const handleHistoryKeys = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      // Leave native text undo alone while editing a field
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleHistoryKeys);
+    return () => window.removeEventListener('keydown', handleHistoryKeys);
+  }, [undo, redo]);
+
+  // Copy/cut/paste of placed devices through the system clipboard, so devices
+  // can be pasted into the other split half or another browser tab
+  useEffect(() => {
+    const isEditingText = (target: EventTarget | null) => {
+      const el = target as HTMLElement | null;
+      return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable);
+    };
+    const allDevices = [...config.devices, ...config.leftDevices, ...config.rightDevices];
+    const selected = allDevices.filter((d) => selectedDeviceIds.includes(d.id));
+
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isEditingText(e.target) || selected.length === 0 || !e.clipboardData) return;
+      e.preventDefault();
+      e.clipboardData.setData('text/plain', serializeDeviceClipboard(selected));
+      if (e.type === 'cut') {
+        removeDevices(selected.map((d) => d.id));
+      }
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditingText(e.target) || !e.clipboardData) return;
+      const devices = parseDeviceClipboard(e.clipboardData.getData('text/plain'));
+      if (!devices) return;
+      e.preventDefault();
+      const offset = getPasteOffset(devices, allDevices);
+      pasteDevices(devices, offset.x, offset.y);
+    };
+
+    // Ctrl+D / Cmd+D duplicates the selection
+    const handleDuplicateKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'd') return;
+      if (isEditingText(e.target) || selected.length === 0) return;
+      e.preventDefault();
+      duplicateDevices(selected.map((d) => d.id));
+    };
+
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('cut', handleCopy);
+    window.addEventListener('paste', handlePaste);
+    window.addEventListener('keydown', handleDuplicateKey);
+    return () => {
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('cut', handleCopy);
+      window.removeEventListener('paste', handlePaste);
+      window.removeEventListener('keydown', handleDuplicateKey);
+    };
+  }, [config.devices, config.leftDevices, config.rightDevices, selectedDeviceIds, removeDevices, pasteDevices, duplicateDevices]);
+
   // Sensors for drag-and-drop
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -224,9 +346,7 @@ function App() {
         }
 
         // For position, start at center (0, 0) - user can drag to reposition
-        // Use patch_panel mount type for patch panel devices
-        const mountType = deviceId === 'patch_panel' ? 'patch_panel' : 'cage';
-        addDevice(deviceId, 0, 0, mountType, side);
+        addDevice(deviceId, 0, 0, getDefaultMountType(device), side);
       }
       lastPointerPosition.current = null;
       return;
@@ -273,9 +393,27 @@ function App() {
         newCenterY = snappedCornerY + dims.height / 2;
       }
 
+      // Group drag: move every selected device by the dragged device's snapped
+      // offset, limited so the whole group stays on the rack
+      if (selectedDeviceIds.length > 1 && selectedDeviceIds.includes(placedDevice.id)) {
+        const selected = [...config.devices, ...config.leftDevices, ...config.rightDevices]
+          .filter((d) => selectedDeviceIds.includes(d.id));
+        const move = clampGroupMove(
+          selected,
+          newCenterX - placedDevice.offsetX,
+          newCenterY - placedDevice.offsetY,
+          config.rackU
+        );
+        const positions: Record<string, { x: number; y: number }> = {};
+        for (const d of selected) {
+          positions[d.id] = { x: d.offsetX + move.x, y: d.offsetY + move.y };
+        }
+        updateDevicePositions(positions);
+        return;
+      }
+
       // Clamp to rack bounds
       const clamped = clampToRackBounds(newCenterX, newCenterY, dims.width, dims.height, config.rackU);
-
       updateDevicePosition(placedDevice.id, clamped.x, clamped.y);
     }
   };
@@ -316,6 +454,18 @@ function App() {
         {/* Toolbar */}
         <RackToolbar />
 
+        {/* Rejected config imports */}
+        <ImportErrorsModal />
+
+        {/* Unsaved session from a previous visit */}
+        {restorableSession && (
+          <RestoreSessionModal
+            session={restorableSession}
+            onRestore={restoreSession}
+            onDiscard={discardSession}
+          />
+        )}
+
         {/* Main content */}
         <div className="flex-1 flex overflow-hidden">
           {/* Device Library - only show in 2D mode */}
@@ -358,6 +508,9 @@ function App() {
             ) : (
               <MainViewer3D />
             )}
+
+            {/* Validation problems */}
+            <ProblemsPanel />
           </div>
 
           {/* Right side: Properties panel */}
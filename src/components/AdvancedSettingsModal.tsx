@@ -1,6 +1,7 @@
 import { useRackStore } from '../state/rack-store';
 import type { VentType, RenderMode, BackStyle } from '../state/types';
 import { RENDER_MODE_LABELS, BACK_STYLE_LABELS } from '../state/types';
+import { computeLoadBudget } from '../utils/load-budget';
 
 interface AdvancedSettingsModalProps {
   onClose: () => void;
@@ -26,6 +27,8 @@ export function AdvancedSettingsModal({ onClose }: AdvancedSettingsModalProps) {
     setRenderMode,
   } = useRackStore();
 
+  const recommendedHeavyDevice = computeLoadBudget(config).recommendedHeavyDevice;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-gray-800 rounded-lg shadow-xl w-[500px] max-h-[80vh] overflow-y-auto">
@@ -232,6 +235,17 @@ export function AdvancedSettingsModal({ onClose }: AdvancedSettingsModalProps) {
                 <option value={2}>Level 2 (Maximum support)</option>
               </select>
               <p className="text-xs text-gray-500 mt-1">Adds extra support structures for heavier devices</p>
+              {recommendedHeavyDevice !== config.heavyDevice && (
+                <p className="text-xs text-amber-400 mt-1">
+                  Level {recommendedHeavyDevice} is recommended for the heaviest device on the panel.{' '}
+                  <button
+                    onClick={() => setHeavyDevice(recommendedHeavyDevice)}
+                    className="underline hover:text-amber-300"
+                  >
+                    Use it
+                  </button>
+                </p>
+              )}
             </div>
           </div>
 
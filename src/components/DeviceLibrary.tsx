@@ -1,31 +1,100 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import type { BufferGeometry } from 'three';
 import { useDraggable } from '@dnd-kit/core';
 import type { RackDevice, DeviceCategory } from '../data/devices';
 import {
-  DEVICES,
   CATEGORY_LABELS,
   getAllCategories,
+  getAllDevices,
+  getDevice,
   getDevicesByCategory,
+  getDefaultMountType,
 } from '../data/devices';
-import { useRackStore } from '../state/rack-store';
 import type { MountType } from '../state/types';
+import { MOUNT_TYPE_LABELS } from '../state/types';
+import { useRackStore } from '../state/rack-store';
+import type { DeviceFilters } from '../utils/device-search';
+import { DEFAULT_DEVICE_FILTERS, hasActiveFilters, matchesDeviceFilters, searchDevices } from '../utils/device-search';
+import { deleteUserDevice } from '../utils/user-devices-db';
+import { saveDeviceMesh } from '../utils/device-mesh-db';
+import type { StlFrontAxis } from '../utils/stl-proxy';
+import { STL_FRONT_AXIS_LABELS, measureStl, parseStl } from '../utils/stl-proxy';
+import { UserDeviceModal } from './UserDeviceModal';
+import { DevicePacksModal } from './DevicePacksModal';
 
 interface CustomDeviceFormProps {
   isExpanded: boolean;
   onToggle: () => void;
 }
 
+// STL dropped onto the form, kept until the device is added
+interface ImportedModel {
+  fileName: string;
+  data: ArrayBuffer;
+  geometry: BufferGeometry;
+}
+
 function CustomDeviceForm({ isExpanded, onToggle }: CustomDeviceFormProps) {
   const { addCustomDevice } = useRackStore();
   const [name, setName] = useState('Custom Device');
   const [width, setWidth] = useState(100);
   const [height, setHeight] = useState(40);
   const [depth, setDepth] = useState(100);
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const [model, setModel] = useState<ImportedModel | null>(null);
+  const [frontAxis, setFrontAxis] = useState<StlFrontAxis>('-y');
+  const [modelError, setModelError] = useState<string | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const applyModelDimensions = (geometry: BufferGeometry, axis: StlFrontAxis) => {
+    const size = measureStl(geometry, axis);
+    setWidth(size.width);
+    setHeight(size.height);
+    setDepth(size.depth);
+  };
+
+  const loadModel = async (file: File) => {
+    setModelError(null);
+    try {
+      const data = await file.arrayBuffer();
+      const geometry = parseStl(data);
+      setModel({ fileName: file.name, data, geometry });
+      applyModelDimensions(geometry, frontAxis);
+      if (name === 'Custom Device') {
+        setName(file.name.replace(/\.stl$/i, ''));
+      }
+    } catch (error) {
+      console.error('Failed to read STL:', error);
+      setModelError(`Could not read ${file.name} as an STL file`);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (file) loadModel(file);
+  };
+
+  const handleFrontAxisChange = (axis: StlFrontAxis) => {
+    setFrontAxis(axis);
+    if (model) applyModelDimensions(model.geometry, axis);
+  };
+
+  const handleAdd = async () => {
+    if (!name.trim() || width <= 0 || height <= 0 || depth <= 0) return;
 
-  const handleAdd = () => {
-    if (name.trim() && width > 0 && height > 0 && depth > 0) {
-      addCustomDevice(name.trim(), width, height, depth, 0, 0, 'cage');
+    // Without a stored mesh the device is still added, just without its proxy
+    let proxyMeshId: string | undefined;
+    if (model) {
+      try {
+        proxyMeshId = await saveDeviceMesh(model.fileName, model.data, frontAxis);
+      } catch (error) {
+        console.error('Failed to store device model:', error);
+      }
     }
+    addCustomDevice(name.trim(), width, height, depth, 0, 0, 'cage', undefined, proxyMeshId);
   };
 
   return (
@@ -56,6 +125,58 @@ function CustomDeviceForm({ isExpanded, onToggle }: CustomDeviceFormProps) {
               placeholder="Device name"
             />
           </div>
+          {/* STL import: dimensions from the bounding box, mesh shown as a 3D proxy */}
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragOver(true);
+            }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+            className={`px-2 py-2 border border-dashed rounded text-xs text-center cursor-pointer transition-colors ${
+              isDragOver ? 'border-blue-500 bg-blue-900/20 text-blue-300' : 'border-gray-600 text-gray-400 hover:border-gray-400'
+            }`}
+          >
+            {model ? (
+              <span className="text-gray-200 truncate block" title={model.fileName}>{model.fileName}</span>
+            ) : (
+              'Drop an STL to measure it'
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".stl"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadModel(file);
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+          </div>
+          {modelError && <p className="text-xs text-red-400">{modelError}</p>}
+          {model && (
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-gray-400 whitespace-nowrap">Front axis</label>
+              <select
+                value={frontAxis}
+                onChange={(e) => handleFrontAxisChange(e.target.value as StlFrontAxis)}
+                className="flex-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-white focus:outline-none focus:border-blue-500"
+              >
+                {(Object.keys(STL_FRONT_AXIS_LABELS) as StlFrontAxis[]).map((axis) => (
+                  <option key={axis} value={axis}>{STL_FRONT_AXIS_LABELS[axis]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setModel(null)}
+                className="text-xs text-gray-400 hover:text-red-400"
+                title="Remove model"
+              >
+                Remove
+              </button>
+            </div>
+          )}
           <div className="grid grid-cols-3 gap-2">
             <div>
               <label className="text-xs text-gray-400 block mb-1">Width (mm)</label>
@@ -94,18 +215,34 @@ function CustomDeviceForm({ isExpanded, onToggle }: CustomDeviceFormProps) {
           >
             Add to Rack
           </button>
+          <button
+            onClick={() => setShowSaveModal(true)}
+            className="w-full py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded transition-colors"
+          >
+            Save to My Devices
+          </button>
         </div>
       )}
+      {showSaveModal && (
+        <UserDeviceModal
+          initial={{ name: name.trim(), width, height, depth }}
+          onClose={() => setShowSaveModal(false)}
+        />
+      )}
     </div>
   );
 }
 
 interface DeviceCardProps {
   device: RackDevice;
+  onEdit?: () => void;
+  onDelete?: () => void;
 }
 
-function DeviceCard({ device }: DeviceCardProps) {
-  const { addDevice } = useRackStore();
+function DeviceCard({ device, onEdit, onDelete }: DeviceCardProps) {
+  const { addDevice, devicePacks, libraryPrefs, toggleFavoriteDevice } = useRackStore();
+  const packName = device.packId ? devicePacks.find((p) => p.id === device.packId)?.name : undefined;
+  const isFavorite = libraryPrefs.favorites.includes(device.id);
 
   const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
     id: `library-${device.id}`,
@@ -116,14 +253,7 @@ function DeviceCard({ device }: DeviceCardProps) {
   });
 
   const handleDoubleClick = () => {
-    // Use the first allowed mount type, or default based on device type
-    let mountType: MountType = 'cage';
-    if (device.id === 'patch_panel') {
-      mountType = 'patch_panel';
-    } else if (device.allowedMountTypes && device.allowedMountTypes.length > 0) {
-      mountType = device.allowedMountTypes[0];
-    }
-    addDevice(device.id, 0, 0, mountType);
+    addDevice(device.id, 0, 0, getDefaultMountType(device));
   };
 
   return (
@@ -135,24 +265,63 @@ function DeviceCard({ device }: DeviceCardProps) {
         isDragging ? 'opacity-30' : ''
       }`}
       onDoubleClick={handleDoubleClick}
-      title={`${device.name}\n${device.width}x${device.height}x${device.depth}mm\nDouble-click to add at center`}
+      title={`${device.name}\n${device.width}x${device.height}x${device.depth}mm${device.notes ? `\n${device.notes}` : ''}\nDouble-click to add at center`}
     >
-      <div className="text-sm text-white font-medium truncate">{device.name}</div>
+      <div className="flex items-center gap-1">
+        <div className="text-sm text-white font-medium truncate flex-1">{device.name}</div>
+        <button
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() => toggleFavoriteDevice(device.id)}
+          className={`p-0.5 transition-colors ${isFavorite ? 'text-yellow-400 hover:text-yellow-300' : 'text-gray-500 hover:text-yellow-400'}`}
+          title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+        >
+          <svg className="w-3.5 h-3.5" fill={isFavorite ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+          </svg>
+        </button>
+        {onEdit && (
+          <button
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={onEdit}
+            className="p-0.5 text-gray-400 hover:text-white transition-colors"
+            title="Edit device"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 013.536 3.536L12.536 16.536A2 2 0 0111.12 17.12L7 18l.88-4.12A2 2 0 019 13z" />
+            </svg>
+          </button>
+        )}
+        {onDelete && (
+          <button
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={onDelete}
+            className="p-0.5 text-gray-400 hover:text-red-400 transition-colors"
+            title="Delete device"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        )}
+      </div>
       <div className="text-xs text-gray-400">
         {device.width} x {device.height} x {device.depth} mm
+        {device.userDefined && <span className="ml-1 text-blue-400">· Mine</span>}
+        {packName && <span className="ml-1 text-purple-400" title={`From device pack "${packName}"`}>· Pack</span>}
       </div>
     </div>
   );
 }
 
-interface CategorySectionProps {
-  category: DeviceCategory;
+interface DeviceSectionProps {
+  title: string;
   devices: RackDevice[];
   isExpanded: boolean;
   onToggle: () => void;
 }
 
-function CategorySection({ category, devices, isExpanded, onToggle }: CategorySectionProps) {
+// Collapsible list of devices (a category, favorites or recently placed)
+function DeviceSection({ title, devices, isExpanded, onToggle }: DeviceSectionProps) {
   return (
     <div className="border-b border-gray-700">
       <button
@@ -160,7 +329,7 @@ function CategorySection({ category, devices, isExpanded, onToggle }: CategorySe
         className="w-full px-3 py-2 flex items-center justify-between hover:bg-gray-700 transition-colors"
       >
         <span className="text-sm font-medium text-gray-200">
-          {CATEGORY_LABELS[category]}
+          {title}
         </span>
         <span className="text-gray-400 flex items-center gap-2">
           <span className="text-xs bg-gray-600 px-2 py-0.5 rounded">{devices.length}</span>
@@ -185,8 +354,70 @@ function CategorySection({ category, devices, isExpanded, onToggle }: CategorySe
   );
 }
 
+interface MyDevicesSectionProps {
+  devices: RackDevice[];
+  isExpanded: boolean;
+  onToggle: () => void;
+  onCreate: () => void;
+  onEdit: (device: RackDevice) => void;
+  onDelete: (device: RackDevice) => void;
+}
+
+function MyDevicesSection({ devices, isExpanded, onToggle, onCreate, onEdit, onDelete }: MyDevicesSectionProps) {
+  return (
+    <div className="border-b border-gray-700">
+      <button
+        onClick={onToggle}
+        className="w-full px-3 py-2 flex items-center justify-between hover:bg-gray-700 transition-colors"
+      >
+        <span className="text-sm font-medium text-gray-200">My Devices</span>
+        <span className="text-gray-400 flex items-center gap-2">
+          <span className="text-xs bg-gray-600 px-2 py-0.5 rounded">{devices.length}</span>
+          <svg
+            className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </span>
+      </button>
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-2">
+          {devices.length === 0 && (
+            <p className="text-xs text-gray-500">Save gear you own once and reuse it on every panel.</p>
+          )}
+          {devices.map((device) => (
+            <DeviceCard
+              key={device.id}
+              device={device}
+              onEdit={() => onEdit(device)}
+              onDelete={() => onDelete(device)}
+            />
+          ))}
+          <button
+            onClick={onCreate}
+            className="w-full py-1.5 border border-dashed border-gray-600 hover:border-gray-400 text-gray-400 hover:text-gray-200 text-xs rounded transition-colors"
+          >
+            + New Device
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function DeviceLibrary() {
+  const { config, userDevices, libraryPrefs, setUserDevices, detachCatalogDevices } = useRackStore();
   const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<DeviceFilters>(DEFAULT_DEVICE_FILTERS);
+  const [showFavorites, setShowFavorites] = useState(true);
+  const [showRecent, setShowRecent] = useState(true);
+  const [showMyDevices, setShowMyDevices] = useState(true);
+  // undefined: closed, null: new device, otherwise the device being edited
+  const [editingDevice, setEditingDevice] = useState<RackDevice | null | undefined>(undefined);
+  const [showPacks, setShowPacks] = useState(false);
   const [showCustomForm, setShowCustomForm] = useState(false);
   const [expandedCategories, setExpandedCategories] = useState<Set<DeviceCategory>>(
     new Set(['accessories', 'mini_pc', 'network'])
@@ -204,19 +435,50 @@ export function DeviceLibrary() {
     });
   };
 
-  const filteredDevices = searchQuery
-    ? DEVICES.filter(
-        (d) =>
-          d.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          d.id.toLowerCase().includes(searchQuery.toLowerCase())
-      )
+  const handleDeleteUserDevice = async (device: RackDevice) => {
+    const placedCount = [...config.devices, ...config.leftDevices, ...config.rightDevices]
+      .filter((d) => d.deviceId === device.id).length;
+    const message = placedCount > 0
+      ? `Delete "${device.name}" from My Devices? The ${placedCount} placed cop${placedCount === 1 ? 'y becomes a custom device' : 'ies become custom devices'}.`
+      : `Delete "${device.name}" from My Devices?`;
+    if (!window.confirm(message)) return;
+
+    try {
+      await deleteUserDevice(device.id);
+      detachCatalogDevices([device]);
+      setUserDevices(userDevices.filter((d) => d.id !== device.id));
+    } catch (error) {
+      console.error('Failed to delete device:', error);
+    }
+  };
+
+  const filtersActive = hasActiveFilters(filters);
+  const passesFilters = (device: RackDevice) =>
+    matchesDeviceFilters(device, filters, config.rackU, config.panelWidth);
+  // Favorites and recents may name devices whose pack was disabled or deleted
+  const resolveDevices = (ids: string[]) =>
+    ids.map((id) => getDevice(id)).filter((d): d is RackDevice => d !== undefined && passesFilters(d));
+
+  const filteredDevices = searchQuery.trim()
+    ? searchDevices(getAllDevices().filter(passesFilters), searchQuery)
     : null;
+  const favoriteDevices = resolveDevices(libraryPrefs.favorites);
+  const recentDevices = resolveDevices(libraryPrefs.recent);
 
   return (
     <div className="w-64 bg-gray-800 flex flex-col h-full border-r border-gray-700 flex-shrink-0 overflow-hidden">
       {/* Header */}
       <div className="p-3 border-b border-gray-700">
-        <h2 className="text-lg font-semibold text-white mb-2">Device Library</h2>
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-lg font-semibold text-white">Device Library</h2>
+          <button
+            onClick={() => setShowPacks(true)}
+            className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors"
+            title="Import, enable and export device packs"
+          >
+            Packs
+          </button>
+        </div>
         <input
           type="text"
           placeholder="Search devices..."
@@ -224,6 +486,53 @@ export function DeviceLibrary() {
           onChange={(e) => setSearchQuery(e.target.value)}
           className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm text-white placeholder-gray-400 focus:outline-none focus:border-blue-500"
         />
+
+        {/* Filters */}
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          <select
+            value={filters.category}
+            onChange={(e) => setFilters({ ...filters, category: e.target.value as DeviceFilters['category'] })}
+            className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-xs focus:outline-none focus:border-blue-500"
+            title="Category"
+          >
+            <option value="all">All categories</option>
+            {getAllCategories().map((category) => (
+              <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+            ))}
+          </select>
+          <select
+            value={filters.mountType}
+            onChange={(e) => setFilters({ ...filters, mountType: e.target.value as DeviceFilters['mountType'] })}
+            className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-xs focus:outline-none focus:border-blue-500"
+            title="Allowed mount type"
+          >
+            <option value="any">Any mount</option>
+            {(Object.keys(MOUNT_TYPE_LABELS) as MountType[])
+              .filter((mountType) => mountType !== 'none')
+              .map((mountType) => (
+                <option key={mountType} value={mountType}>{MOUNT_TYPE_LABELS[mountType]}</option>
+              ))}
+          </select>
+        </div>
+        <div className="mt-2 flex items-center justify-between">
+          <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filters.fitsRack}
+              onChange={(e) => setFilters({ ...filters, fitsRack: e.target.checked })}
+              className="rounded"
+            />
+            Fits {config.rackU}U panel
+          </label>
+          {filtersActive && (
+            <button
+              onClick={() => setFilters(DEFAULT_DEVICE_FILTERS)}
+              className="text-xs text-blue-400 hover:text-blue-300"
+            >
+              Clear
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Device list */}
@@ -234,6 +543,36 @@ export function DeviceLibrary() {
           onToggle={() => setShowCustomForm(!showCustomForm)}
         />
 
+        {/* Starred and recently placed devices */}
+        {!filteredDevices && favoriteDevices.length > 0 && (
+          <DeviceSection
+            title="Favorites"
+            devices={favoriteDevices}
+            isExpanded={showFavorites}
+            onToggle={() => setShowFavorites(!showFavorites)}
+          />
+        )}
+        {!filteredDevices && recentDevices.length > 0 && (
+          <DeviceSection
+            title="Recently Placed"
+            devices={recentDevices}
+            isExpanded={showRecent}
+            onToggle={() => setShowRecent(!showRecent)}
+          />
+        )}
+
+        {/* User-defined devices */}
+        {!filteredDevices && (
+          <MyDevicesSection
+            devices={filtersActive ? userDevices.filter(passesFilters) : userDevices}
+            isExpanded={showMyDevices}
+            onToggle={() => setShowMyDevices(!showMyDevices)}
+            onCreate={() => setEditingDevice(null)}
+            onEdit={setEditingDevice}
+            onDelete={handleDeleteUserDevice}
+          />
+        )}
+
         {filteredDevices ? (
           // Search results
           <div className="p-3 space-y-2">
@@ -247,23 +586,41 @@ export function DeviceLibrary() {
           </div>
         ) : (
           // Category list
-          getAllCategories().map((category) => (
-            <CategorySection
-              key={category}
-              category={category}
-              devices={getDevicesByCategory(category)}
-              isExpanded={expandedCategories.has(category)}
-              onToggle={() => toggleCategory(category)}
-            />
-          ))
+          // Category list, leaving out categories the filters empty
+          getAllCategories().map((category) => {
+            const devices = getDevicesByCategory(category).filter(passesFilters);
+            if (filtersActive && devices.length === 0) return null;
+            return (
+              <DeviceSection
+                key={category}
+                title={CATEGORY_LABELS[category]}
+                devices={devices}
+                isExpanded={expandedCategories.has(category)}
+                onToggle={() => toggleCategory(category)}
+              />
+            );
+          })
         )}
       </div>
 
       {/* Footer */}
       <div className="p-3 border-t border-gray-700 text-xs text-gray-400">
         <p>Drag device to rack or double-click to add at center</p>
-        <p className="mt-1">{DEVICES.length} devices available</p>
+        <p className="mt-1">
+          {filtersActive
+            ? `${getAllDevices().filter(passesFilters).length} of ${getAllDevices().length} devices match`
+            : `${getAllDevices().length} devices available`}
+        </p>
       </div>
+
+      {editingDevice !== undefined && (
+        <UserDeviceModal
+          device={editingDevice ?? undefined}
+          onClose={() => setEditingDevice(undefined)}
+        />
+      )}
+
+      {showPacks && <DevicePacksModal onClose={() => setShowPacks(false)} />}
     </div>
   );
 }
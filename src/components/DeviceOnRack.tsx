@@ -1,14 +1,16 @@
 import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { useDraggable } from '@dnd-kit/core';
+import { useDraggable, useDndMonitor } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
-import type { PlacedDevice, MountType } from '../state/types';
-import { MOUNT_TYPE_LABELS } from '../state/types';
-import { getPlacedDeviceDimensions } from '../utils/scad-generator';
+import type { PlacedDevice, MountType, DeviceRotation } from '../state/types';
+import { MOUNT_TYPE_LABELS, MOUNT_TYPE_COLORS } from '../state/types';
+import { getPlacedDeviceDimensions, getUnrotatedDeviceDimensions } from '../utils/scad-generator';
 import type { ViewConfig } from '../utils/coordinates';
 import { rackToSvg, rackSizeToSvg, calculateFitScale } from '../utils/coordinates';
 import { useRackStore } from '../state/rack-store';
-import { getAllowedMountTypes } from '../data/devices';
+import { STANDOFF_MOUNT_TYPES } from '../utils/sbc-standoffs';
+import type { FrontFeatureKind } from '../data/devices';
+import { getAllowedMountTypes, getFrontFeatures } from '../data/devices';
 
 // Short labels for mount types
 const MOUNT_TYPE_SHORT: Record<MountType, string> = {
@@ -24,29 +26,20 @@ const MOUNT_TYPE_SHORT: Record<MountType, string> = {
   storage: 'STOR',
   patch_panel: 'PTCH',
   pi5_case: 'PI5',
+  drive_sled: 'SLED',
   none: 'NONE',
 };
 
+// Fill colors for front-face features
+const FRONT_FEATURE_COLORS: Record<FrontFeatureKind, string> = {
+  port: '#111827',   // gray-900
+  led: '#4ade80',    // green-400
+  button: '#d1d5db', // gray-300
+};
+
 // Cage wall thickness in mm (max value with heavy_device=2)
 const CAGE_WALL_THICKNESS = 6;
 
-// Colors for mount types
-const MOUNT_TYPE_COLORS: Record<MountType, string> = {
-  cage: '#3b82f6',      // blue
-  cage_rect: '#6366f1', // indigo
-  cage_open: '#8b5cf6', // violet
-  enclosed: '#10b981',  // emerald
-  angle: '#f59e0b',     // amber
-  simple: '#6b7280',    // gray
-  passthrough: '#ec4899', // pink
-  tray: '#14b8a6',      // teal
-  shelf: '#84cc16',     // lime
-  storage: '#f97316',   // orange
-  patch_panel: '#06b6d4', // cyan
-  pi5_case: '#c026d3',  // fuchsia
-  none: '#ef4444',      // red
-};
-
 interface DeviceOnRackProps {
   device: PlacedDevice;
   view: ViewConfig;
@@ -54,16 +47,36 @@ interface DeviceOnRackProps {
 }
 
 export function DeviceOnRack({ device, view, isOverlapping = false }: DeviceOnRackProps) {
-  const { config, selectDevice, updateDeviceMountType, snapToGrid, gridSize } = useRackStore();
+  const {
+    config,
+    selectedDeviceIds,
+    selectDevice,
+    toggleDeviceSelection,
+    updateDeviceMountType,
+    updateDeviceRotation,
+    duplicateDevices,
+    snapToGrid,
+    gridSize,
+  } = useRackStore();
   const [showMountMenu, setShowMountMenu] = useState(false);
   const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
 
+  // Offset applied while another selected device is being dragged (group drag)
+  const [groupDragDelta, setGroupDragDelta] = useState<{ x: number; y: number } | null>(null);
+  // Ignore the click that fires when a drag ends on top of this device
+  const justDraggedRef = useRef(false);
+
+  const isSelected = selectedDeviceIds.includes(device.id);
+
   // Determine which side the device is on (for split mode)
   const isLeftSide = config.leftDevices.some((d) => d.id === device.id);
   const isRightSide = config.rightDevices.some((d) => d.id === device.id);
 
   const dims = getPlacedDeviceDimensions(device);
+  const frontFeatures = getFrontFeatures(device.deviceId);
+  // Standoffs seen from the front: posts on the shelf/tray floor at each screw hole
+  const standoffs = STANDOFF_MOUNT_TYPES.includes(device.mountType) ? device.standoffs || [] : [];
 
   // Calculate SVG position (top-left corner of device)
   const centerSvg = rackToSvg(device.offsetX, device.offsetY, view);
@@ -74,6 +87,13 @@ export function DeviceOnRack({ device, view, isOverlapping = false }: DeviceOnRa
   const x = centerSvg.x - widthSvg / 2;
   const y = centerSvg.y - heightSvg / 2;
 
+  // Features and standoffs are drawn upright, then turned with the device
+  // (SVG Y points down, so counter-clockwise is a negative angle)
+  const rotation = device.rotation ?? 0;
+  const uprightHeightSvg = rackSizeToSvg(getUnrotatedDeviceDimensions(device).height, view);
+  const uprightBottomSvg = centerSvg.y + uprightHeightSvg / 2;
+  const uprightTransform = rotation !== 0 ? `rotate(${-rotation} ${centerSvg.x} ${centerSvg.y})` : undefined;
+
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
     id: device.id,
     data: {
@@ -82,8 +102,32 @@ export function DeviceOnRack({ device, view, isOverlapping = false }: DeviceOnRa
     },
   });
 
+  useDndMonitor({
+    onDragMove(event) {
+      const activeId = String(event.active.id);
+      if (activeId !== device.id && isSelected && selectedDeviceIds.includes(activeId)) {
+        setGroupDragDelta({ x: event.delta.x, y: event.delta.y });
+      }
+    },
+    onDragEnd(event) {
+      if (String(event.active.id) === device.id) {
+        justDraggedRef.current = true;
+        setTimeout(() => {
+          justDraggedRef.current = false;
+        }, 0);
+      }
+      setGroupDragDelta(null);
+    },
+    onDragCancel() {
+      setGroupDragDelta(null);
+    },
+  });
+
   // Calculate snapped transform for live grid snapping during drag
   const getSnappedTransform = () => {
+    if (groupDragDelta) {
+      return `translate3d(${Math.round(groupDragDelta.x)}px, ${Math.round(groupDragDelta.y)}px, 0)`;
+    }
     if (!transform) return undefined;
 
     if (!snapToGrid) {
@@ -139,19 +183,34 @@ export function DeviceOnRack({ device, view, isOverlapping = false }: DeviceOnRa
     strokeColor = '#dc2626'; // red-600
   }
 
+  if (isSelected) {
+    strokeColor = '#fbbf24'; // amber-400
+  }
+
   if (isDragging) {
     fillColor = MOUNT_TYPE_COLORS[device.mountType] || '#3b82f6';
   }
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    selectDevice(device.id);
+    if (justDraggedRef.current) {
+      justDraggedRef.current = false;
+      return;
+    }
+    // Shift-click adds/removes the device from a multi-selection
+    if (e.shiftKey) {
+      toggleDeviceSelection(device.id);
+    } else {
+      selectDevice(device.id);
+    }
   };
 
   const handleRightClick = (e: React.MouseEvent<SVGGElement>) => {
     e.preventDefault();
     e.stopPropagation();
-    selectDevice(device.id);
+    if (!isSelected) {
+      selectDevice(device.id);
+    }
     // Use clientX/clientY for fixed positioning (relative to viewport)
     setMenuPosition({ x: e.clientX, y: e.clientY });
     setShowMountMenu(true);
@@ -163,6 +222,20 @@ export function DeviceOnRack({ device, view, isOverlapping = false }: DeviceOnRa
     setMenuPosition(null);
   };
 
+  // Turn a quarter counter-clockwise
+  const handleRotate = () => {
+    updateDeviceRotation(device.id, ((rotation + 90) % 360) as DeviceRotation);
+    setShowMountMenu(false);
+    setMenuPosition(null);
+  };
+
+  // Duplicate the whole selection when this device is part of it
+  const handleDuplicate = () => {
+    duplicateDevices(isSelected ? selectedDeviceIds : [device.id]);
+    setShowMountMenu(false);
+    setMenuPosition(null);
+  };
+
   // Close menu on click outside or escape key
   useEffect(() => {
     if (!showMountMenu) return;
@@ -238,11 +311,71 @@ export function DeviceOnRack({ device, view, isOverlapping = false }: DeviceOnRa
         fill={fillColor}
         fillOpacity={isDragging ? 0.7 : 0.85}
         stroke={strokeColor}
-        strokeWidth={1}
+        strokeWidth={isSelected ? 2 : 1}
         rx={2}
         ry={2}
         shapeRendering="crispEdges"
       />
+      {/* Front-face features (solid when cut as a bezel, faint otherwise) */}
+      {frontFeatures.length > 0 && (
+        <g style={{ pointerEvents: 'none' }} opacity={device.frontBezel ? 0.9 : 0.45} transform={uprightTransform}>
+          {frontFeatures.map((feature, i) => {
+            const fx = centerSvg.x + rackSizeToSvg(feature.x, view);
+            const fy = centerSvg.y - rackSizeToSvg(feature.y, view);
+            const fw = rackSizeToSvg(feature.width, view);
+            const fh = rackSizeToSvg(feature.height, view);
+            const fill = FRONT_FEATURE_COLORS[feature.kind];
+            if (feature.shape === 'circle') {
+              return <circle key={i} cx={fx} cy={fy} r={fw / 2} fill={fill} stroke="#000" strokeWidth={0.5} />;
+            }
+            const radius = feature.shape === 'rounded' ? Math.min(fw, fh) / 4 : 0;
+            return (
+              <rect
+                key={i}
+                x={fx - fw / 2}
+                y={fy - fh / 2}
+                width={fw}
+                height={fh}
+                rx={radius}
+                ry={radius}
+                fill={fill}
+                stroke="#000"
+                strokeWidth={0.5}
+              />
+            );
+          })}
+        </g>
+      )}
+      {/* Standoff posts with their screw holes */}
+      {standoffs.length > 0 && (
+        <g style={{ pointerEvents: 'none' }} transform={uprightTransform}>
+          {standoffs.map((standoff, i) => {
+            const sx = centerSvg.x + rackSizeToSvg(standoff.x, view);
+            const postWidth = rackSizeToSvg(standoff.outerDia, view);
+            const postHeight = Math.min(rackSizeToSvg(standoff.height, view), uprightHeightSvg);
+            const holeWidth = rackSizeToSvg(standoff.holeDia, view);
+            return (
+              <g key={i}>
+                <rect
+                  x={sx - postWidth / 2}
+                  y={uprightBottomSvg - postHeight}
+                  width={postWidth}
+                  height={postHeight}
+                  fill="#9ca3af"
+                  fillOpacity={0.8}
+                />
+                <rect
+                  x={sx - holeWidth / 2}
+                  y={uprightBottomSvg - postHeight}
+                  width={holeWidth}
+                  height={postHeight}
+                  fill="#111827"
+                />
+              </g>
+            );
+          })}
+        </g>
+      )}
       {showLabel && (
         <text
           x={x + widthSvg / 2}
@@ -337,8 +470,8 @@ export function DeviceOnRack({ device, view, isOverlapping = false }: DeviceOnRa
           {(() => {
             // Get allowed mount types for this device (undefined means all allowed)
             const allowedTypes = device.deviceId !== 'custom' ? getAllowedMountTypes(device.deviceId) : undefined;
-            // If no specific allowed types, show all EXCEPT pi5_case (which is device-specific)
-            const mountTypes = allowedTypes || (Object.keys(MOUNT_TYPE_LABELS) as MountType[]).filter(mt => mt !== 'pi5_case');
+            // If no specific allowed types, show all EXCEPT the device-specific pi5_case and drive_sled
+            const mountTypes = allowedTypes || (Object.keys(MOUNT_TYPE_LABELS) as MountType[]).filter(mt => mt !== 'pi5_case' && mt !== 'drive_sled');
 
             return mountTypes.map((mt) => (
               <button
@@ -359,6 +492,26 @@ export function DeviceOnRack({ device, view, isOverlapping = false }: DeviceOnRa
               </button>
             ));
           })()}
+          <div className="border-t border-gray-700 mt-1 pt-1">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleRotate();
+              }}
+              className="w-full px-3 py-1.5 text-left text-sm text-gray-300 hover:bg-gray-700"
+            >
+              Rotate 90°
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDuplicate();
+              }}
+              className="w-full px-3 py-1.5 text-left text-sm text-gray-300 hover:bg-gray-700"
+            >
+              Duplicate{isSelected && selectedDeviceIds.length > 1 ? ` (${selectedDeviceIds.length})` : ''}
+            </button>
+          </div>
         </div>,
         document.body
       )}
@@ -0,0 +1,344 @@
+import { useState, useRef } from 'react';
+import { useRackStore } from '../state/rack-store';
+import type { RackDevice, DeviceCategory } from '../data/devices';
+import { CATEGORY_LABELS, getAllCategories, getDevicesByCategory } from '../data/devices';
+import {
+  createDevicePack,
+  updateDevicePack,
+  deleteDevicePack,
+  downloadDevicePack,
+  parseDevicePackFile,
+  findIdCollisions,
+  applyCollisionResolutions,
+  getResolutionErrors,
+} from '../utils/device-pack-db';
+import type { DevicePack, CollisionResolution } from '../utils/device-pack-db';
+
+interface DevicePacksModalProps {
+  onClose: () => void;
+}
+
+// Devices waiting for ID collisions to be resolved
+interface PendingPack {
+  name: string;
+  description: string;
+  devices: RackDevice[];
+  pack?: DevicePack;   // Existing pack being re-enabled
+}
+
+// Export source: the user library or one category of the merged catalog
+type ExportSource = 'my_devices' | DeviceCategory;
+
+// Import, enable/disable and export device packs
+export function DevicePacksModal({ onClose }: DevicePacksModalProps) {
+  const { config, userDevices, devicePacks, setDevicePacks, setImportErrors, detachCatalogDevices } = useRackStore();
+  const [pending, setPending] = useState<PendingPack | null>(null);
+  const [exportSource, setExportSource] = useState<ExportSource>('my_devices');
+  const [exportName, setExportName] = useState('My Devices');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const placedDevices = [...config.devices, ...config.leftDevices, ...config.rightDevices];
+  const countPlaced = (pack: DevicePack) =>
+    placedDevices.filter((d) => pack.devices.some((device) => device.id === d.deviceId)).length;
+
+  const replacePack = (pack: DevicePack) => {
+    setDevicePacks(devicePacks.map((p) => (p.id === pack.id ? pack : p)));
+  };
+
+  // Add or enable a pack once its IDs no longer clash with the catalog
+  const commitPack = async (pack: PendingPack) => {
+    try {
+      if (pack.pack) {
+        replacePack(await updateDevicePack({ ...pack.pack, devices: pack.devices, enabled: true }));
+      } else {
+        const created = await createDevicePack(pack.name, pack.description, pack.devices);
+        setDevicePacks([...devicePacks, created]);
+      }
+      setPending(null);
+    } catch (error) {
+      console.error('Failed to save device pack:', error);
+    }
+  };
+
+  const stagePack = (pack: PendingPack) => {
+    if (findIdCollisions(pack.devices, pack.pack?.id).length > 0) {
+      setPending(pack);
+    } else {
+      commitPack(pack);
+    }
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = parseDevicePackFile(e.target?.result as string);
+      if (!result.ok) {
+        console.error('Invalid device pack:', result.errors);
+        setImportErrors(result.errors);
+        return;
+      }
+      stagePack({ name: result.name, description: result.description, devices: result.devices });
+    };
+    reader.readAsText(file);
+
+    // Reset input so the same file can be imported again
+    event.target.value = '';
+  };
+
+  const handleToggle = async (pack: DevicePack) => {
+    if (!pack.enabled) {
+      stagePack({ name: pack.name, description: pack.description, devices: pack.devices, pack });
+      return;
+    }
+    const placed = countPlaced(pack);
+    if (placed > 0 && !window.confirm(`${placed} placed device${placed !== 1 ? 's use' : ' uses'} "${pack.name}" and will show as unknown until it is enabled again. Disable it?`)) {
+      return;
+    }
+    try {
+      replacePack(await updateDevicePack({ ...pack, enabled: false }));
+    } catch (error) {
+      console.error('Failed to disable device pack:', error);
+    }
+  };
+
+  const handleDelete = async (pack: DevicePack) => {
+    const placed = pack.enabled ? countPlaced(pack) : 0;
+    const message = placed > 0
+      ? `Delete "${pack.name}"? The ${placed} placed device${placed !== 1 ? 's become custom devices' : ' becomes a custom device'}.`
+      : `Delete "${pack.name}"?`;
+    if (!window.confirm(message)) return;
+
+    try {
+      await deleteDevicePack(pack.id);
+      if (pack.enabled) {
+        detachCatalogDevices(pack.devices);
+      }
+      setDevicePacks(devicePacks.filter((p) => p.id !== pack.id));
+    } catch (error) {
+      console.error('Failed to delete device pack:', error);
+    }
+  };
+
+  const exportDevices = exportSource === 'my_devices' ? userDevices : getDevicesByCategory(exportSource);
+
+  const handleExportSourceChange = (source: ExportSource) => {
+    setExportSource(source);
+    setExportName(source === 'my_devices' ? 'My Devices' : CATEGORY_LABELS[source]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[560px] max-w-[95vw] max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">Device Packs</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {pending ? (
+          <CollisionResolver
+            key={pending.pack?.id ?? pending.name}
+            pending={pending}
+            onCancel={() => setPending(null)}
+            onResolve={(devices) => commitPack({ ...pending, devices })}
+          />
+        ) : (
+          <>
+            {/* Installed packs */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-2">
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-xs text-gray-400">
+                  Enabled packs are merged into the device library.
+                </p>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json"
+                  onChange={handleImport}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded transition-colors"
+                >
+                  Import Pack...
+                </button>
+              </div>
+              {devicePacks.length === 0 ? (
+                <div className="text-center text-gray-500 text-sm py-6">No device packs imported yet.</div>
+              ) : (
+                devicePacks.map((pack) => (
+                  <div key={pack.id} className="flex items-start gap-3 p-3 rounded bg-gray-900 border border-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={pack.enabled}
+                      onChange={() => handleToggle(pack)}
+                      className="mt-1 rounded"
+                      title={pack.enabled ? 'Disable pack' : 'Enable pack'}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className={`text-sm font-medium truncate ${pack.enabled ? 'text-white' : 'text-gray-500'}`}>
+                        {pack.name}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {pack.devices.length} device{pack.devices.length !== 1 ? 's' : ''} · imported {new Date(pack.importedAt).toLocaleDateString()}
+                      </div>
+                      {pack.description && (
+                        <div className="text-xs text-gray-400 mt-1">{pack.description}</div>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => downloadDevicePack(pack.name, pack.description, pack.devices)}
+                      className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors"
+                    >
+                      Export
+                    </button>
+                    <button
+                      onClick={() => handleDelete(pack)}
+                      className="px-2 py-1 bg-gray-700 hover:bg-red-600 text-gray-300 hover:text-white text-xs rounded transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Export */}
+            <div className="p-4 border-t border-gray-700 space-y-2">
+              <h3 className="text-sm font-medium text-gray-300">Export as Pack</h3>
+              <div className="flex gap-2">
+                <select
+                  value={exportSource}
+                  onChange={(e) => handleExportSourceChange(e.target.value as ExportSource)}
+                  className="px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                >
+                  <option value="my_devices">My Devices</option>
+                  {getAllCategories().map((category) => (
+                    <option key={category} value={category}>
+                      {CATEGORY_LABELS[category]}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={exportName}
+                  onChange={(e) => setExportName(e.target.value)}
+                  placeholder="Pack name"
+                  className="flex-1 px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+                />
+                <button
+                  onClick={() => downloadDevicePack(exportName.trim(), '', exportDevices)}
+                  disabled={exportDevices.length === 0 || !exportName.trim()}
+                  className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-300 text-sm rounded transition-colors"
+                >
+                  Export {exportDevices.length}
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface CollisionResolverProps {
+  pending: PendingPack;
+  onCancel: () => void;
+  onResolve: (devices: RackDevice[]) => void;
+}
+
+// Choose to rename or skip each pack device whose ID is already taken
+function CollisionResolver({ pending, onCancel, onResolve }: CollisionResolverProps) {
+  const [collisions] = useState(() => findIdCollisions(pending.devices, pending.pack?.id));
+  const [resolutions, setResolutions] = useState<Record<string, CollisionResolution>>(() =>
+    Object.fromEntries(collisions.map((c) => [c.id, { action: 'rename', newId: c.suggestedId }]))
+  );
+
+  const errors = getResolutionErrors(pending.devices, resolutions, pending.pack?.id);
+  const remaining = applyCollisionResolutions(pending.devices, resolutions).length;
+
+  const setResolution = (id: string, resolution: CollisionResolution) => {
+    setResolutions((prev) => ({ ...prev, [id]: resolution }));
+  };
+
+  return (
+    <>
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        <p className="text-sm text-gray-300">
+          {collisions.length} device{collisions.length !== 1 ? 's' : ''} in "{pending.name}" use IDs that are already in the library.
+          Rename them to keep both, or skip them.
+        </p>
+        {collisions.map((collision) => {
+          const resolution = resolutions[collision.id];
+          return (
+            <div key={collision.id} className="p-3 rounded bg-gray-900 border border-gray-700 space-y-2">
+              <div className="text-sm text-white">
+                {collision.name} <span className="text-gray-500 font-mono text-xs">{collision.id}</span>
+              </div>
+              <div className="text-xs text-gray-500">Clashes with {collision.existingName}</div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={resolution.action}
+                  onChange={(e) =>
+                    setResolution(
+                      collision.id,
+                      e.target.value === 'skip' ? { action: 'skip' } : { action: 'rename', newId: collision.suggestedId }
+                    )
+                  }
+                  className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-xs"
+                >
+                  <option value="rename">Rename to</option>
+                  <option value="skip">Skip</option>
+                </select>
+                {resolution.action === 'rename' && (
+                  <input
+                    type="text"
+                    value={resolution.newId}
+                    onChange={(e) => setResolution(collision.id, { action: 'rename', newId: e.target.value })}
+                    className="flex-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-xs font-mono focus:outline-none focus:border-blue-500"
+                  />
+                )}
+              </div>
+            </div>
+          );
+        })}
+        {errors.length > 0 && (
+          <ul className="text-xs text-red-400 space-y-0.5">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onResolve(applyCollisionResolutions(pending.devices, resolutions))}
+          disabled={errors.length > 0 || remaining === 0}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 text-white rounded transition-colors"
+        >
+          {pending.pack ? 'Enable' : 'Import'} {remaining} Device{remaining !== 1 ? 's' : ''}
+        </button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,61 @@
+import { useRackStore } from '../state/rack-store';
+
+// Maximum number of errors listed before summarizing the rest
+const MAX_LISTED_ERRORS = 20;
+
+// Shows why a config file (open, drag-drop, share link) was rejected
+export function ImportErrorsModal() {
+  const { importErrors, setImportErrors } = useRackStore();
+
+  if (!importErrors || importErrors.length === 0) return null;
+
+  const onClose = () => setImportErrors(null);
+  const hidden = importErrors.length - MAX_LISTED_ERRORS;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[500px] max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">Could not load configuration</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Error list */}
+        <div className="p-4 overflow-y-auto">
+          <p className="text-sm text-gray-400 mb-3">
+            The file was not loaded because {importErrors.length === 1 ? 'this field is' : 'these fields are'} invalid.
+            Your current rack is unchanged.
+          </p>
+          <ul className="space-y-1">
+            {importErrors.slice(0, MAX_LISTED_ERRORS).map((error, i) => (
+              <li key={i} className="text-xs font-mono text-red-300 bg-gray-900 rounded px-2 py-1 break-words">
+                {error}
+              </li>
+            ))}
+          </ul>
+          {hidden > 0 && (
+            <p className="text-xs text-gray-500 mt-2">...and {hidden} more</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end p-4 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors"
+          >
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { useRackStore } from '../state/rack-store';
+import { getPowerSources } from '../data/devices';
+import { computeLoadBudget, formatWeight, DEFAULT_MAX_PANEL_LOAD, DEFAULT_MAX_POWER } from '../utils/load-budget';
+
+// Per-panel weight and power totals with the rack's load and power limits
+export function LoadBudgetSection() {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const {
+    config,
+    setHeavyDevice,
+    setMaxPanelLoad,
+    setPowerSourceId,
+    setMaxPower,
+  } = useRackStore();
+
+  // Cheap enough to recompute on every render, which also picks up catalog changes
+  const budget = computeLoadBudget(config);
+  const powerSources = getPowerSources();
+  const powerPercent = budget.maxPower > 0 ? Math.min(100, (budget.totalPower / budget.maxPower) * 100) : 100;
+
+  return (
+    <div className="p-3 border-b border-gray-700">
+      {/* Header with totals */}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 text-left"
+      >
+        <svg
+          className={`w-3 h-3 text-gray-400 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <h3 className="text-sm font-medium text-gray-300">Load &amp; Power</h3>
+        <span className="ml-auto text-xs text-gray-400">
+          {formatWeight(budget.totalWeight)} · {budget.totalPower} W
+        </span>
+        {budget.warnings.length > 0 && (
+          <span className="text-xs bg-amber-600 text-white px-1.5 py-0.5 rounded">{budget.warnings.length}</span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3 space-y-3">
+          {/* Per-panel totals */}
+          {budget.panels.map((panel) => (
+            <div key={panel.label} className="bg-gray-900 rounded p-2 text-xs space-y-0.5">
+              <div className="flex justify-between">
+                <span className="text-gray-300 font-medium">{panel.label}</span>
+                <span className="text-gray-500">{panel.deviceCount} device{panel.deviceCount === 1 ? '' : 's'}</span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Weight</span>
+                <span className={panel.weight > budget.maxPanelLoad ? 'text-amber-400' : 'text-white'}>
+                  {formatWeight(panel.weight)}
+                  {panel.unknownWeight > 0 && <span className="text-gray-500"> (+{panel.unknownWeight} unknown)</span>}
+                </span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Power</span>
+                <span className="text-white">
+                  {panel.power} W
+                  {panel.unknownPower > 0 && <span className="text-gray-500"> (+{panel.unknownPower} unknown)</span>}
+                </span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Center of mass</span>
+                <span className="text-white">
+                  {panel.centerOfMass
+                    ? `X ${panel.centerOfMass.x.toFixed(1)}, Y ${panel.centerOfMass.y.toFixed(1)} mm`
+                    : '-'}
+                </span>
+              </div>
+            </div>
+          ))}
+
+          {/* Power budget bar */}
+          <div>
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>Power budget</span>
+              <span>{budget.totalPower} / {budget.maxPower} W</span>
+            </div>
+            <div className="h-1.5 bg-gray-700 rounded overflow-hidden">
+              <div
+                className={`h-full ${budget.totalPower > budget.maxPower ? 'bg-red-500' : 'bg-green-500'}`}
+                style={{ width: `${powerPercent}%` }}
+              />
+            </div>
+          </div>
+
+          {/* Limits */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Panel load limit (kg)</label>
+              <input
+                type="number"
+                value={config.maxPanelLoad !== undefined ? config.maxPanelLoad / 1000 : ''}
+                placeholder={String(DEFAULT_MAX_PANEL_LOAD / 1000)}
+                onChange={(e) => {
+                  const kg = parseFloat(e.target.value);
+                  setMaxPanelLoad(isNaN(kg) ? undefined : Math.max(0, kg * 1000));
+                }}
+                step={0.5}
+                min={0}
+                className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Power source</label>
+              <select
+                value={config.powerSourceId ?? ''}
+                onChange={(e) => setPowerSourceId(e.target.value || undefined)}
+                className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+              >
+                <option value="">Manual limit</option>
+                {powerSources.map((device) => (
+                  <option key={device.id} value={device.id}>
+                    {device.name} ({device.powerCapacity} W)
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {!config.powerSourceId && (
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Power limit (W)</label>
+              <input
+                type="number"
+                value={config.maxPower ?? ''}
+                placeholder={String(DEFAULT_MAX_POWER)}
+                onChange={(e) => {
+                  const watts = parseFloat(e.target.value);
+                  setMaxPower(isNaN(watts) ? undefined : Math.max(0, watts));
+                }}
+                step={10}
+                min={0}
+                className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+              />
+            </div>
+          )}
+
+          {/* Heavy device recommendation */}
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-gray-400">
+              Heavy device support: {config.heavyDevice}
+              {budget.recommendedHeavyDevice !== config.heavyDevice && (
+                <span className="text-gray-500"> (recommended {budget.recommendedHeavyDevice})</span>
+              )}
+            </span>
+            {budget.recommendedHeavyDevice !== config.heavyDevice && (
+              <button
+                onClick={() => setHeavyDevice(budget.recommendedHeavyDevice)}
+                className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-colors"
+              >
+                Apply
+              </button>
+            )}
+          </div>
+
+          {/* Warnings */}
+          {budget.warnings.length > 0 && (
+            <ul className="space-y-1">
+              {budget.warnings.map((warning) => (
+                <li key={warning} className="text-xs text-amber-400">{warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
-import { useRef, useEffect, useMemo } from 'react';
+import { useRef, useEffect, useMemo, useState } from 'react';
 import * as THREE from 'three';
 import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
 import { useRackStore } from '../state/rack-store';
 import { useLiveScadRender } from '../hooks/useLiveScadRender';
+import { RACK_CONSTANTS, getRackHeight } from '../state/types';
+import { getProxyDevices, loadProxyGeometry } from '../utils/stl-proxy';
+import { RenderConsole } from './RenderConsole';
 
 export function MainViewer3D() {
   const { config } = useRackStore();
@@ -21,30 +24,37 @@ export function MainViewer3D() {
     };
   } | null>(null);
   const meshRef = useRef<THREE.Mesh | null>(null);
+  const proxyGroupRef = useRef<THREE.Group | null>(null);
 
-  const { stlData, isRendering, error, lastRenderTime } = useLiveScadRender();
+  const { stlData, isRendering, progress, error, diagnostics, notice, lastRenderTime, lastRenderCached, cancel } = useLiveScadRender();
+  const [showConsole, setShowConsole] = useState(false);
+  const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+  const warningCount = diagnostics.filter((d) => d.severity === 'warning').length;
 
   // Parse STL data into geometry
-  const stlGeometry = useMemo(() => {
+  const stlModel = useMemo(() => {
     if (!stlData) return null;
     try {
       const loader = new STLLoader();
       const geometry = loader.parse(stlData);
       geometry.computeVertexNormals();
-      // Center the geometry
+      // Center the geometry, keeping the offset so device proxies line up
+      const center = new THREE.Vector3();
       geometry.computeBoundingBox();
       if (geometry.boundingBox) {
-        const center = new THREE.Vector3();
         geometry.boundingBox.getCenter(center);
         geometry.translate(-center.x, -center.y, -center.z);
       }
-      return geometry;
+      return { geometry, center };
     } catch (e) {
       console.error('Failed to parse STL:', e);
       return null;
     }
   }, [stlData]);
 
+  // Placed devices with an imported STL, shown as fit-check proxies
+  const proxyDevices = useMemo(() => getProxyDevices(config), [config]);
+
   // Initialize Three.js scene
   useEffect(() => {
     if (!containerRef.current) return;
@@ -159,7 +169,7 @@ export function MainViewer3D() {
     renderer.domElement.addEventListener('mouseleave', onMouseUp);
     renderer.domElement.addEventListener('wheel', onWheel, { passive: false });
 
-    // Handle resize
+    // Handle resize (the window, or the console opening beside the view)
     const handleResize = () => {
       if (!containerRef.current || !sceneRef.current) return;
       const w = containerRef.current.clientWidth;
@@ -168,10 +178,11 @@ export function MainViewer3D() {
       sceneRef.current.camera.updateProjectionMatrix();
       sceneRef.current.renderer.setSize(w, h);
     };
-    window.addEventListener('resize', handleResize);
+    const resizeObserver = new ResizeObserver(handleResize);
+    resizeObserver.observe(container);
 
     return () => {
-      window.removeEventListener('resize', handleResize);
+      resizeObserver.disconnect();
       renderer.domElement.removeEventListener('mousedown', onMouseDown);
       renderer.domElement.removeEventListener('mousemove', onMouseMove);
       renderer.domElement.removeEventListener('mouseup', onMouseUp);
@@ -202,7 +213,7 @@ export function MainViewer3D() {
       meshRef.current = null;
     }
 
-    if (stlGeometry) {
+    if (stlModel) {
       // Create mesh from STL geometry
       const material = new THREE.MeshStandardMaterial({
         color: 0x22d3ee,
@@ -210,7 +221,7 @@ export function MainViewer3D() {
         roughness: 0.7,
         side: THREE.DoubleSide,
       });
-      const mesh = new THREE.Mesh(stlGeometry, material);
+      const mesh = new THREE.Mesh(stlModel.geometry, material);
       // Rotate to correct orientation (OpenSCAD Z-up to Three.js Y-up)
       mesh.rotation.x = -Math.PI / 2;
       scene.add(mesh);
@@ -221,60 +232,160 @@ export function MainViewer3D() {
         sceneRef.current.controls.target.set(0, 0, 0);
       }
     }
-  }, [stlGeometry]);
+  }, [stlModel]);
+
+  // Update device proxies when the render or the placements change
+  useEffect(() => {
+    if (!sceneRef.current) return;
+
+    const { scene } = sceneRef.current;
+    let cancelled = false;
+
+    // Proxy geometries are cached and shared, so only materials are disposed
+    const removeProxies = () => {
+      if (!proxyGroupRef.current) return;
+      scene.remove(proxyGroupRef.current);
+      proxyGroupRef.current.traverse((object) => {
+        if (object instanceof THREE.Mesh && object.material instanceof THREE.Material) {
+          object.material.dispose();
+        }
+      });
+      proxyGroupRef.current = null;
+    };
+    removeProxies();
+
+    if (!stlModel || proxyDevices.length === 0) return;
+
+    // Proxies are built in OpenSCAD coordinates, then moved like the rendered mesh
+    const group = new THREE.Group();
+    group.rotation.x = -Math.PI / 2;
+    const offset = new THREE.Group();
+    offset.position.copy(stlModel.center).negate();
+    group.add(offset);
+    scene.add(group);
+    proxyGroupRef.current = group;
+
+    const centerX = (config.panelWidth || RACK_CONSTANTS.PANEL_WIDTH) / 2;
+    const centerZ = getRackHeight(config.rackU) / 2;
+
+    for (const device of proxyDevices) {
+      loadProxyGeometry(device.proxyMeshId!).then((geometry) => {
+        if (cancelled || !geometry) return;
+        const material = new THREE.MeshStandardMaterial({
+          color: 0xf59e0b,
+          metalness: 0.1,
+          roughness: 0.8,
+          transparent: true,
+          opacity: 0.5,
+          side: THREE.DoubleSide,
+        });
+        const mesh = new THREE.Mesh(geometry, material);
+        mesh.position.set(centerX + device.offsetX, 0, centerZ + device.offsetY);
+        // Counter-clockwise seen from the front, as in the generated SCAD
+        mesh.rotation.y = -((device.rotation ?? 0) * Math.PI) / 180;
+        offset.add(mesh);
+      });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stlModel, proxyDevices, config.panelWidth, config.rackU]);
 
   return (
-    <div className="flex-1 relative bg-gray-900">
-      <div ref={containerRef} className="w-full h-full" />
-
-      {/* Loading overlay */}
-      {isRendering && (
-        <div className="absolute inset-0 bg-gray-900/50 flex items-center justify-center">
-          <div className="flex flex-col items-center gap-3">
-            <svg
-              className="animate-spin w-12 h-12 text-blue-500"
-              fill="none"
-              viewBox="0 0 24 24"
-            >
-              <circle
-                className="opacity-25"
-                cx="12"
-                cy="12"
-                r="10"
-                stroke="currentColor"
-                strokeWidth="4"
-              />
-              <path
-                className="opacity-75"
-                fill="currentColor"
-                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-              />
-            </svg>
-            <span className="text-sm text-gray-300">Rendering 3D preview...</span>
+    <div className="flex-1 flex">
+      <div className="flex-1 relative bg-gray-900">
+        <div ref={containerRef} className="w-full h-full" />
+
+        {/* Loading overlay */}
+        {isRendering && (
+          <div className="absolute inset-0 bg-gray-900/50 flex items-center justify-center">
+            <div className="flex flex-col items-center gap-3">
+              <svg
+                className="animate-spin w-12 h-12 text-blue-500"
+                fill="none"
+                viewBox="0 0 24 24"
+              >
+                <circle
+                  className="opacity-25"
+                  cx="12"
+                  cy="12"
+                  r="10"
+                  stroke="currentColor"
+                  strokeWidth="4"
+                />
+                <path
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                />
+              </svg>
+              <span className="text-sm text-gray-300">
+                {progress ? `${progress.stage}...` : 'Rendering 3D preview...'}
+              </span>
+              <div className="w-48 h-1.5 bg-gray-700 rounded overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all"
+                  style={{ width: `${progress?.percent ?? 0}%` }}
+                />
+              </div>
+              <button
+                onClick={cancel}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Error message */}
-      {error && !isRendering && (
-        <div className="absolute bottom-4 left-4 right-4 bg-red-900/90 text-red-200 text-sm p-3 rounded-lg">
-          {error}
-        </div>
-      )}
+        {/* Worker restarted after a crash or timeout */}
+        {notice && !isRendering && (
+          <div className="absolute top-4 left-4 right-4 bg-amber-900/90 text-amber-200 text-sm p-3 rounded-lg">
+            {notice}
+          </div>
+        )}
 
-      {/* Status bar */}
-      <div className="absolute bottom-0 left-0 right-0 bg-gray-900/80 backdrop-blur px-4 py-2 flex items-center justify-between text-sm">
-        <span className="text-gray-400">
-          {config.isSplit
-            ? `${config.leftDevices.length + config.rightDevices.length} devices`
-            : `${config.devices.length} devices`}
-          {' | '}
-          {config.rackU}U rack
-        </span>
-        {lastRenderTime && (
-          <span className="text-green-500">Rendered in {lastRenderTime}ms</span>
+        {/* Error message */}
+        {error && !isRendering && (
+          <div className="absolute bottom-4 left-4 right-4 bg-red-900/90 text-red-200 text-sm p-3 rounded-lg">
+            {error}
+          </div>
         )}
+
+        {/* Status bar */}
+        <div className="absolute bottom-0 left-0 right-0 bg-gray-900/80 backdrop-blur px-4 py-2 flex items-center justify-between text-sm">
+          <span className="text-gray-400">
+            {config.isSplit
+              ? `${config.leftDevices.length + config.rightDevices.length} devices`
+              : `${config.devices.length} devices`}
+            {' | '}
+            {config.rackU}U rack
+          </span>
+          <div className="flex items-center gap-3">
+            {lastRenderTime !== null && (
+              <span className="text-green-500">
+                {lastRenderCached ? 'Loaded from cache' : `Rendered in ${lastRenderTime}ms`}
+              </span>
+            )}
+            <button
+              onClick={() => setShowConsole(!showConsole)}
+              className={`px-2 py-0.5 text-xs rounded transition-colors flex items-center gap-1 ${
+                showConsole ? 'bg-gray-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+              title="OpenSCAD output from the last render"
+            >
+              Console
+              {errorCount > 0 && <span className="px-1.5 rounded bg-red-600 text-white">{errorCount}</span>}
+              {warningCount > 0 && <span className="px-1.5 rounded bg-yellow-600 text-white">{warningCount}</span>}
+            </button>
+          </div>
+        </div>
       </div>
+
+      {showConsole && (
+        <RenderConsole diagnostics={diagnostics} onClose={() => setShowConsole(false)} />
+      )}
     </div>
   );
 }
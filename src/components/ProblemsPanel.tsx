@@ -0,0 +1,85 @@
+import { useMemo, useState } from 'react';
+import { useRackStore } from '../state/rack-store';
+import { validateRack, PROBLEM_KIND_LABELS } from '../utils/validation';
+
+// Collapsible list of validation problems shown under the main view
+export function ProblemsPanel() {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { config, selectedDeviceIds, selectDevices, applyProblemFix, applyAllProblemFixes } = useRackStore();
+
+  const problems = useMemo(() => validateRack(config), [config]);
+  const fixableCount = problems.filter((p) => p.fixLabel).length;
+
+  return (
+    <div className="bg-gray-800 border-t border-gray-700 flex-shrink-0">
+      {/* Header */}
+      <div className="px-4 py-1.5 flex items-center gap-2">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-2 text-sm text-gray-300 hover:text-white"
+        >
+          <svg
+            className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          <span className="font-medium">Problems</span>
+          <span
+            className={`text-xs px-2 py-0.5 rounded ${
+              problems.length > 0 ? 'bg-red-600 text-white' : 'bg-green-700 text-green-100'
+            }`}
+          >
+            {problems.length}
+          </span>
+        </button>
+        {problems.length === 0 && (
+          <span className="text-xs text-gray-500">Ready to export</span>
+        )}
+        {isExpanded && fixableCount > 1 && (
+          <button
+            onClick={applyAllProblemFixes}
+            className="ml-auto px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors"
+          >
+            Fix All
+          </button>
+        )}
+      </div>
+
+      {/* Problem list */}
+      {isExpanded && problems.length > 0 && (
+        <div className="max-h-40 overflow-y-auto border-t border-gray-700">
+          {problems.map((problem) => {
+            const isSelected = problem.deviceIds.every((id) => selectedDeviceIds.includes(id));
+            return (
+              <div
+                key={problem.id}
+                onClick={() => selectDevices(problem.deviceIds)}
+                className={`px-4 py-1.5 flex items-center gap-2 text-xs cursor-pointer transition-colors ${
+                  isSelected ? 'bg-gray-700' : 'hover:bg-gray-700/50'
+                }`}
+              >
+                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${problem.severity === 'error' ? 'bg-red-500' : 'bg-yellow-500'}`} />
+                <span className="text-gray-500 w-28 flex-shrink-0">{PROBLEM_KIND_LABELS[problem.kind]}</span>
+                <span className="flex-1 text-gray-300 truncate">{problem.message}</span>
+                {problem.fixLabel && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      applyProblemFix(problem);
+                    }}
+                    className="px-2 py-0.5 bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors flex-shrink-0"
+                  >
+                    {problem.fixLabel}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useRackStore } from '../state/rack-store';
+import {
+  listProjects,
+  updateProjectDetails,
+  duplicateProject,
+  deleteProject,
+  searchProjects,
+  sortProjects,
+  parseTags,
+  PROJECT_SORT_LABELS,
+} from '../utils/project-library-db';
+import type { LibraryProject, ProjectSort } from '../utils/project-library-db';
+import { RevisionHistoryModal } from './RevisionHistoryModal';
+import { parseRackConfig } from '../utils/config-schema';
+
+interface ProjectLibraryModalProps {
+  onClose: () => void;
+  onLoad?: (project: LibraryProject) => void;
+  onSaveCurrent?: () => void;
+}
+
+const formatTimeAgo = (timestamp: number) => {
+  const seconds = Math.floor((Date.now() - timestamp) / 1000);
+
+  if (seconds < 60) return 'Just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 604800) return `${Math.floor(seconds / 86400)}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+// Browse, search and manage saved projects
+export function ProjectLibraryModal({ onClose, onLoad, onSaveCurrent }: ProjectLibraryModalProps) {
+  const { loadConfig, currentProject, setCurrentProject, setImportErrors } = useRackStore();
+  const [projects, setProjects] = useState<LibraryProject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<ProjectSort>('updated');
+  const [selectedId, setSelectedId] = useState<string | null>(currentProject?.id ?? null);
+  const [historyProject, setHistoryProject] = useState<LibraryProject | null>(null);
+
+  useEffect(() => {
+    listProjects()
+      .then(setProjects)
+      .catch((error) => console.error('Failed to load project library:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const visibleProjects = useMemo(
+    () => sortProjects(searchProjects(projects, query), sort),
+    [projects, query, sort]
+  );
+  const selectedProject = projects.find((p) => p.id === selectedId) ?? null;
+
+  const replaceProject = (project: LibraryProject) => {
+    setProjects((prev) => prev.map((p) => (p.id === project.id ? project : p)));
+    if (currentProject?.id === project.id) {
+      setCurrentProject({ id: project.id, name: project.name });
+    }
+  };
+
+  const handleOpen = (project: LibraryProject) => {
+    // Projects saved by older versions go through the same migrations as imports
+    const result = parseRackConfig(project.config);
+    if (!result.ok) {
+      console.error(`Invalid configuration in project "${project.name}":`, result.errors);
+      setImportErrors(result.errors);
+      return;
+    }
+    loadConfig(result.config, { id: project.id, name: project.name });
+    onLoad?.(project);
+    onClose();
+  };
+
+  const handleDuplicate = async (project: LibraryProject) => {
+    try {
+      const copy = await duplicateProject(project.id);
+      setProjects((prev) => [copy, ...prev]);
+      setSelectedId(copy.id);
+    } catch (error) {
+      console.error('Failed to duplicate project:', error);
+    }
+  };
+
+  const handleDelete = async (project: LibraryProject) => {
+    if (!window.confirm(`Delete "${project.name}" from the library? This cannot be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+      setProjects((prev) => prev.filter((p) => p.id !== project.id));
+      setSelectedId(null);
+      if (currentProject?.id === project.id) {
+        setCurrentProject(null);
+      }
+    } catch (error) {
+      console.error('Failed to delete project:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[900px] max-w-[95vw] h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">Project Library</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Search and sort */}
+        <div className="px-4 py-3 border-b border-gray-700 flex items-center gap-3">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search names, tags and notes..."
+            className="flex-1 px-3 py-1.5 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as ProjectSort)}
+            className="px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+          >
+            {(Object.keys(PROJECT_SORT_LABELS) as ProjectSort[]).map((value) => (
+              <option key={value} value={value}>
+                {PROJECT_SORT_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          {onSaveCurrent && (
+            <button
+              onClick={onSaveCurrent}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded transition-colors"
+            >
+              Save Current Rack
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Project grid */}
+          <div className="flex-1 overflow-y-auto p-4">
+            {isLoading ? (
+              <div className="text-center text-gray-500 text-sm py-8">Loading...</div>
+            ) : visibleProjects.length === 0 ? (
+              <div className="text-center text-gray-500 text-sm py-8">
+                {projects.length === 0
+                  ? 'No saved projects yet. Save the current rack to start your library.'
+                  : 'No projects match your search.'}
+              </div>
+            ) : (
+              <div className="grid grid-cols-3 gap-3">
+                {visibleProjects.map((project) => (
+                  <div
+                    key={project.id}
+                    onClick={() => setSelectedId(project.id)}
+                    onDoubleClick={() => handleOpen(project)}
+                    className={`rounded border cursor-pointer overflow-hidden transition-colors ${
+                      project.id === selectedId
+                        ? 'border-blue-500 bg-gray-700'
+                        : 'border-gray-700 hover:border-gray-500 bg-gray-900'
+                    }`}
+                  >
+                    <div className="p-2 bg-gray-900 flex items-center justify-center h-20">
+                      <img src={project.thumbnail} alt="" className="max-h-full max-w-full" />
+                    </div>
+                    <div className="p-2">
+                      <div className="text-sm font-medium text-white truncate flex items-center gap-1">
+                        {project.id === currentProject?.id && (
+                          <span className="w-1.5 h-1.5 rounded-full bg-blue-400 flex-shrink-0" title="Currently open" />
+                        )}
+                        {project.name}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {project.config.rackU}U · {project.deviceCount} device{project.deviceCount !== 1 ? 's' : ''} · {formatTimeAgo(project.updatedAt)}
+                      </div>
+                      {project.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {project.tags.map((tag) => (
+                            <span key={tag} className="text-[10px] px-1.5 py-0.5 bg-gray-600 text-gray-300 rounded">
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Details */}
+          {selectedProject && (
+            <ProjectDetailsPane
+              key={selectedProject.id}
+              project={selectedProject}
+              onOpen={() => handleOpen(selectedProject)}
+              onShowHistory={() => setHistoryProject(selectedProject)}
+              onDuplicate={() => handleDuplicate(selectedProject)}
+              onDelete={() => handleDelete(selectedProject)}
+              onUpdated={replaceProject}
+            />
+          )}
+        </div>
+      </div>
+
+      {historyProject && (
+        <RevisionHistoryModal
+          project={{ id: historyProject.id, name: historyProject.name }}
+          onClose={() => setHistoryProject(null)}
+          onDone={onClose}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ProjectDetailsPaneProps {
+  project: LibraryProject;
+  onOpen: () => void;
+  onShowHistory: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onUpdated: (project: LibraryProject) => void;
+}
+
+// Editable name, tags and notes for the selected project
+function ProjectDetailsPane({ project, onOpen, onShowHistory, onDuplicate, onDelete, onUpdated }: ProjectDetailsPaneProps) {
+  const [name, setName] = useState(project.name);
+  const [tags, setTags] = useState(project.tags.join(', '));
+  const [notes, setNotes] = useState(project.notes);
+
+  const isDirty = name.trim() !== project.name || tags !== project.tags.join(', ') || notes !== project.notes;
+
+  const handleSaveDetails = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+    try {
+      const updated = await updateProjectDetails(project.id, { name: trimmedName, tags: parseTags(tags), notes });
+      setTags(updated.tags.join(', '));
+      onUpdated(updated);
+    } catch (error) {
+      console.error('Failed to update project:', error);
+    }
+  };
+
+  return (
+    <div className="w-72 border-l border-gray-700 p-4 overflow-y-auto flex flex-col gap-3">
+      <img src={project.thumbnail} alt="" className="w-full rounded bg-gray-900" />
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+        />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Tags (comma separated)</label>
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+        />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={4}
+          className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500 resize-none"
+        />
+      </div>
+      {isDirty && (
+        <button
+          onClick={handleSaveDetails}
+          disabled={!name.trim()}
+          className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 text-sm rounded transition-colors"
+        >
+          Save Details
+        </button>
+      )}
+
+      <div className="text-xs text-gray-500 space-y-0.5">
+        <div>Created {new Date(project.createdAt).toLocaleString()}</div>
+        <div>Modified {new Date(project.updatedAt).toLocaleString()}</div>
+      </div>
+
+      <div className="mt-auto flex flex-col gap-2">
+        <button
+          onClick={onOpen}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded transition-colors"
+        >
+          Open
+        </button>
+        <button
+          onClick={onShowHistory}
+          className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded transition-colors"
+        >
+          History & Compare
+        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={onDuplicate}
+            className="flex-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded transition-colors"
+          >
+            Duplicate
+          </button>
+          <button
+            onClick={onDelete}
+            className="flex-1 px-3 py-1.5 bg-gray-700 hover:bg-red-600 text-gray-300 hover:text-white text-sm rounded transition-colors"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
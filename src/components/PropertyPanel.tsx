@@ -1,9 +1,14 @@
 import { useState, useEffect } from 'react';
 import { useRackStore } from '../state/rack-store';
-import type { MountType, PlacedDevice, BackStyle, JoinerScrewType, JoinerType, ShelfNotch } from '../state/types';
-import { MOUNT_TYPE_LABELS, BACK_STYLE_LABELS, JOINER_SCREW_TYPE_LABELS, JOINER_TYPE_LABELS, SHELF_NOTCH_LABELS } from '../state/types';
-import { getPlacedDeviceDimensions } from '../utils/scad-generator';
-import { getAllowedMountTypes } from '../data/devices';
+import type { MountType, PlacedDevice, BackStyle, JoinerScrewType, JoinerType, ShelfNotch, DriveSize, DriveScrewSide, DeviceRotation } from '../state/types';
+import { MOUNT_TYPE_LABELS, BACK_STYLE_LABELS, JOINER_SCREW_TYPE_LABELS, JOINER_TYPE_LABELS, SHELF_NOTCH_LABELS, DRIVE_SIZE_LABELS, DRIVE_SCREW_SIDE_LABELS, MAX_DRIVE_COUNT, DEVICE_ROTATIONS, DEVICE_ROTATION_LABELS } from '../state/types';
+import { getPlacedDeviceDimensions, getDriveSledSettings } from '../utils/scad-generator';
+import { getAllowedMountTypes, getDevice, DRIVE_MOUNT_PATTERNS } from '../data/devices';
+import { alignDevices, distributeDevices, ALIGN_MODE_LABELS } from '../utils/alignment';
+import type { AlignMode, ArraySpacing } from '../utils/alignment';
+import { LoadBudgetSection } from './LoadBudgetSection';
+import { getPlacedDeviceWeight, getPlacedDevicePower } from '../utils/load-budget';
+import { getPatternStandoffs } from '../utils/sbc-standoffs';
 
 // Separate component for patch panel ports input to handle local state properly
 function PatchPanelPortsInput({
@@ -70,12 +75,86 @@ function PatchPanelPortsInput({
   );
 }
 
+// Array duplicate controls: N copies at a fixed pitch or spread across the panel
+function ArrayDuplicateControls({
+  deviceId,
+  deviceWidth,
+  onCreate,
+}: {
+  deviceId: string;
+  deviceWidth: number;
+  onCreate: (id: string, count: number, spacing: ArraySpacing) => void;
+}) {
+  const [count, setCount] = useState(2);
+  const [mode, setMode] = useState<ArraySpacing['mode']>('pitch');
+  // Default pitch: device width plus a small gap (state resets per device via key)
+  const [pitch, setPitch] = useState(Math.ceil(deviceWidth + 5));
+
+  const handleCreate = () => {
+    const copies = Math.max(1, Math.min(20, Math.floor(count) || 1));
+    onCreate(deviceId, copies, mode === 'pitch' ? { mode: 'pitch', pitch } : { mode: 'spread' });
+  };
+
+  return (
+    <div className="mb-3">
+      <label className="block text-xs text-gray-400 mb-1">Array Duplicate</label>
+      <div className="flex gap-2 mb-1">
+        <div className="w-16">
+          <label className="block text-xs text-gray-500 mb-0.5">Copies</label>
+          <input
+            type="number"
+            value={count}
+            onChange={(e) => setCount(parseInt(e.target.value) || 1)}
+            min={1}
+            max={20}
+            className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-xs text-gray-500 mb-0.5">Spacing</label>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as ArraySpacing['mode'])}
+            className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+          >
+            <option value="pitch">Fixed pitch</option>
+            <option value="spread">Spread evenly</option>
+          </select>
+        </div>
+        {mode === 'pitch' && (
+          <div className="w-20">
+            <label className="block text-xs text-gray-500 mb-0.5">Pitch (mm)</label>
+            <input
+              type="number"
+              value={pitch}
+              onChange={(e) => setPitch(parseFloat(e.target.value) || 0)}
+              step={1}
+              className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+            />
+          </div>
+        )}
+      </div>
+      <button
+        onClick={handleCreate}
+        className="w-full px-2 py-1.5 text-xs font-medium rounded bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+      >
+        Create Array
+      </button>
+      <div className="text-xs text-gray-500 mt-1">
+        {mode === 'pitch'
+          ? 'Copies are placed to the right, center to center'
+          : 'Original and copies are spaced evenly across the panel width'}
+      </div>
+    </div>
+  );
+}
+
 // Placed device list item
 interface PlacedDeviceItemProps {
   device: PlacedDevice;
   isSelected: boolean;
   side?: 'left' | 'right' | null;
-  onSelect: () => void;
+  onSelect: (e: React.MouseEvent) => void;
   onRemove: () => void;
 }
 
@@ -122,18 +201,165 @@ function PlacedDeviceItem({ device, isSelected, side, onSelect, onRemove }: Plac
   );
 }
 
+// Standoff list shared by the shelf and tray options, with a reset to the
+// device's screw hole pattern when it has one
+function MountingStandoffs({ device }: { device: PlacedDevice }) {
+  const {
+    addDeviceStandoff,
+    removeDeviceStandoff,
+    updateDeviceStandoffs,
+    updateDeviceStandoffCountersink,
+    updateDeviceStandoffReinforced,
+  } = useRackStore();
+  const patternStandoffs = getPatternStandoffs(device.deviceId);
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium text-gray-400">Mounting Standoffs</span>
+        <button
+          onClick={() => addDeviceStandoff(device.id, {
+            x: 0,
+            y: 20,
+            height: 5,
+            outerDia: 6,
+            holeDia: 2.5
+          })}
+          className="text-xs px-2 py-0.5 bg-blue-600 hover:bg-blue-500 text-white rounded"
+        >
+          + Add
+        </button>
+      </div>
+
+      {/* Standoff Options */}
+      <div className="flex gap-3 mb-2">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={device.standoffCountersink === true}
+            onChange={(e) => updateDeviceStandoffCountersink(device.id, e.target.checked)}
+            className="w-3 h-3 rounded border-gray-600 bg-gray-700 text-blue-500"
+          />
+          <span className="text-xs text-gray-400">Countersunk</span>
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={device.standoffReinforced === true}
+            onChange={(e) => updateDeviceStandoffReinforced(device.id, e.target.checked)}
+            className="w-3 h-3 rounded border-gray-600 bg-gray-700 text-blue-500"
+          />
+          <span className="text-xs text-gray-400">Reinforced</span>
+        </label>
+      </div>
+      {(device.standoffs || []).length === 0 && (
+        <div className="text-xs text-gray-500 text-center py-1">
+          No standoffs added
+        </div>
+      )}
+      {(device.standoffs || []).map((standoff, idx) => (
+        <div key={idx} className="bg-gray-700 rounded p-2 mb-1">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs text-gray-300">Standoff {idx + 1}</span>
+            <button
+              onClick={() => removeDeviceStandoff(device.id, idx)}
+              className="text-red-400 hover:text-red-300 text-xs"
+            >
+              Remove
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-1 text-xs">
+            <div>
+              <label className="text-gray-500">X</label>
+              <input
+                type="number"
+                value={standoff.x}
+                onChange={(e) => {
+                  const newStandoffs = [...(device.standoffs || [])];
+                  newStandoffs[idx] = { ...standoff, x: parseFloat(e.target.value) || 0 };
+                  updateDeviceStandoffs(device.id, newStandoffs);
+                }}
+                className="w-full px-1 py-0.5 bg-gray-600 border border-gray-500 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="text-gray-500">Y</label>
+              <input
+                type="number"
+                value={standoff.y}
+                onChange={(e) => {
+                  const newStandoffs = [...(device.standoffs || [])];
+                  newStandoffs[idx] = { ...standoff, y: parseFloat(e.target.value) || 0 };
+                  updateDeviceStandoffs(device.id, newStandoffs);
+                }}
+                className="w-full px-1 py-0.5 bg-gray-600 border border-gray-500 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="text-gray-500">Height</label>
+              <input
+                type="number"
+                value={standoff.height}
+                onChange={(e) => {
+                  const newStandoffs = [...(device.standoffs || [])];
+                  newStandoffs[idx] = { ...standoff, height: parseFloat(e.target.value) || 5 };
+                  updateDeviceStandoffs(device.id, newStandoffs);
+                }}
+                className="w-full px-1 py-0.5 bg-gray-600 border border-gray-500 rounded text-white"
+                min={1}
+              />
+            </div>
+            <div>
+              <label className="text-gray-500">Hole Ø</label>
+              <input
+                type="number"
+                value={standoff.holeDia}
+                onChange={(e) => {
+                  const newStandoffs = [...(device.standoffs || [])];
+                  newStandoffs[idx] = { ...standoff, holeDia: parseFloat(e.target.value) || 2.5 };
+                  updateDeviceStandoffs(device.id, newStandoffs);
+                }}
+                className="w-full px-1 py-0.5 bg-gray-600 border border-gray-500 rounded text-white"
+                min={1}
+                step={0.5}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+      {patternStandoffs && (
+        <button
+          onClick={() => updateDeviceStandoffs(device.id, patternStandoffs)}
+          className="w-full mt-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors"
+        >
+          Reset to screw hole pattern
+        </button>
+      )}
+    </>
+  );
+}
+
 export function PropertyPanel() {
   const [joinerSelected, setJoinerSelected] = useState(false);
 
   const {
     config,
     selectedDeviceId,
+    selectedDeviceIds,
     selectDevice,
+    toggleDeviceSelection,
     updateDevicePosition,
+    updateDevicePositions,
     updateDeviceMountType,
+    updateDevicesMountType,
     updateDeviceBackStyle,
+    updateDevicesBackStyle,
+    updateDeviceFrontBezel,
+    updateDeviceRotation,
     updateDeviceDimensions,
     updateDevicePatchPanelPorts,
+    updateDeviceWeight,
+    updateDevicePower,
     updateDeviceShelfHoneycomb,
     updateDeviceShelfSolidBottom,
     updateDeviceShelfNotch,
@@ -141,20 +367,38 @@ export function PropertyPanel() {
     updateDeviceShelfScrewHoles,
     updateDeviceShelfCableHoles,
     updateDeviceShelfPullHandle,
-    addDeviceStandoff,
-    removeDeviceStandoff,
-    updateDeviceStandoffCountersink,
-    updateDeviceStandoffReinforced,
+    updateDeviceDriveSize,
+    updateDeviceDriveScrewSide,
+    updateDeviceDriveCount,
     updateDevicePCBPreset,
     removeDevice,
+    removeDevices,
+    duplicateDevices,
+    arrayDevice,
     moveDeviceToSide,
     setJoinerType,
     setJoinerNutSide,
     setJoinerNutDepth,
     setJoinerScrewType,
     setJoinerNutFloor,
+    beginHistoryGroup,
+    endHistoryGroup,
+    devicePacks,
   } = useRackStore();
 
+  // Typing into any number or text field (or dragging a slider) records one
+  // undo step per edit, not one per keystroke. Focus events bubble up from
+  // every field in the panel.
+  const isEditField = (target: EventTarget) =>
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement && ['number', 'text', 'range'].includes(target.type));
+  const handleFieldFocus = (e: React.FocusEvent) => {
+    if (isEditField(e.target)) beginHistoryGroup();
+  };
+  const handleFieldBlur = (e: React.FocusEvent) => {
+    if (isEditField(e.target)) endHistoryGroup();
+  };
+
   // Get all placed devices with their side info
   const allPlacedDevices = config.isSplit
     ? [
@@ -185,6 +429,34 @@ export function PropertyPanel() {
   }
 
   const dims = selectedDevice ? getPlacedDeviceDimensions(selectedDevice) : null;
+  const catalogDevice = selectedDevice ? getDevice(selectedDevice.deviceId) : undefined;
+  // Values used while the weight and power fields are blank
+  const defaultWeight = selectedDevice ? getPlacedDeviceWeight({ ...selectedDevice, customWeight: undefined }) : undefined;
+  const defaultPower = selectedDevice ? getPlacedDevicePower({ ...selectedDevice, customPower: undefined }) : undefined;
+
+  // Multi-selection: shared fields are edited across every selected device
+  const isMultiSelect = selectedDeviceIds.length > 1;
+  const multiSelectedDevices = allPlacedDevices
+    .map(({ device }) => device)
+    .filter((d) => selectedDeviceIds.includes(d.id));
+  // Patch panels have fixed mount/back settings, so shared edits skip them
+  const multiEditableDevices = multiSelectedDevices.filter((d) => d.mountType !== 'patch_panel');
+
+  // Mount types every editable selected device supports
+  const sharedMountTypes = multiEditableDevices.reduce<MountType[]>((types, d) => {
+    const allowed = d.deviceId !== 'custom' ? getAllowedMountTypes(d.deviceId) : undefined;
+    return allowed ? types.filter((mt) => allowed.includes(mt)) : types;
+  }, (Object.keys(MOUNT_TYPE_LABELS) as MountType[]).filter(mt => mt !== 'pi5_case' && mt !== 'patch_panel' && mt !== 'drive_sled'));
+
+  // Shared value when every device agrees, otherwise '' (shown as "Mixed")
+  const sharedValue = <T extends string>(values: T[]): T | '' =>
+    values.length > 0 && values.every((v) => v === values[0]) ? values[0] : '';
+  const sharedMountType = sharedValue(multiEditableDevices.map((d) => d.mountType));
+  const sharedBackStyle = sharedValue(multiEditableDevices.map((d) => d.backStyle || config.backStyle));
+
+  const handleAlign = (mode: AlignMode) => {
+    updateDevicePositions(alignDevices(multiSelectedDevices, mode));
+  };
 
   const handlePositionChange = (axis: 'x' | 'y', value: string) => {
     if (!selectedDevice) return;
@@ -197,7 +469,11 @@ export function PropertyPanel() {
   };
 
   return (
-    <div className="w-80 bg-gray-800 border-l border-gray-700 flex flex-col h-full flex-shrink-0 overflow-hidden">
+    <div
+      className="w-80 bg-gray-800 border-l border-gray-700 flex flex-col h-full flex-shrink-0 overflow-hidden"
+      onFocus={handleFieldFocus}
+      onBlur={handleFieldBlur}
+    >
       {/* Placed Devices List */}
       <div className="p-3 border-b border-gray-700">
         <div className="flex items-center justify-between mb-2">
@@ -245,11 +521,15 @@ export function PropertyPanel() {
               <PlacedDeviceItem
                 key={device.id}
                 device={device}
-                isSelected={selectedDeviceId === device.id && !joinerSelected}
+                isSelected={selectedDeviceIds.includes(device.id) && !joinerSelected}
                 side={side}
-                onSelect={() => {
+                onSelect={(e) => {
                   setJoinerSelected(false);
-                  selectDevice(device.id);
+                  if (e.shiftKey) {
+                    toggleDeviceSelection(device.id);
+                  } else {
+                    selectDevice(device.id);
+                  }
                 }}
                 onRemove={() => removeDevice(device.id)}
               />
@@ -258,6 +538,9 @@ export function PropertyPanel() {
         )}
       </div>
 
+      {/* Weight and power totals */}
+      {allPlacedDevices.length > 0 && <LoadBudgetSection />}
+
       {/* Joiner Properties */}
       {joinerSelected && config.isSplit && (
         <div className="p-3 border-b border-gray-700">
@@ -380,8 +663,119 @@ export function PropertyPanel() {
         </div>
       )}
 
+      {/* Multi-Selection Properties */}
+      {isMultiSelect && !joinerSelected && (
+        <div className="p-3 border-b border-gray-700">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium text-gray-300">{multiSelectedDevices.length} Devices Selected</h3>
+            <div className="flex gap-1">
+              <button
+                onClick={() => duplicateDevices(selectedDeviceIds)}
+                title="Duplicate (Ctrl+D)"
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors"
+              >
+                Duplicate
+              </button>
+              <button
+                onClick={() => removeDevices(selectedDeviceIds)}
+                className="px-2 py-1 bg-red-600 hover:bg-red-500 text-white text-xs rounded transition-colors"
+              >
+                Remove All
+              </button>
+            </div>
+          </div>
+
+          {/* Align */}
+          <div className="mb-3">
+            <label className="block text-xs text-gray-400 mb-1">Align</label>
+            <div className="grid grid-cols-3 gap-1">
+              {(['left', 'centerX', 'right', 'top', 'centerY', 'bottom'] as AlignMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => handleAlign(mode)}
+                  title={ALIGN_MODE_LABELS[mode]}
+                  className="px-2 py-1.5 text-xs font-medium rounded bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+                >
+                  {{ left: 'Left', centerX: 'Center', right: 'Right', top: 'Top', centerY: 'Middle', bottom: 'Bottom' }[mode]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Distribute */}
+          <div className="mb-3">
+            <label className="block text-xs text-gray-400 mb-1">Distribute</label>
+            <div className="flex gap-1">
+              <button
+                onClick={() => updateDevicePositions(distributeDevices(multiSelectedDevices, 'horizontal'))}
+                disabled={multiSelectedDevices.length < 3}
+                className="flex-1 px-2 py-1.5 text-xs font-medium rounded bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Horizontally
+              </button>
+              <button
+                onClick={() => updateDevicePositions(distributeDevices(multiSelectedDevices, 'vertical'))}
+                disabled={multiSelectedDevices.length < 3}
+                className="flex-1 px-2 py-1.5 text-xs font-medium rounded bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Vertically
+              </button>
+            </div>
+            {multiSelectedDevices.length < 3 && (
+              <div className="text-xs text-gray-500 mt-1">
+                Select at least 3 devices to distribute
+              </div>
+            )}
+          </div>
+
+          {/* Shared Mount Type and Back Style */}
+          {multiEditableDevices.length > 0 && (
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className="block text-xs text-gray-400 mb-1">Mount</label>
+                <select
+                  value={sharedMountType}
+                  onChange={(e) => updateDevicesMountType(multiEditableDevices.map((d) => d.id), e.target.value as MountType)}
+                  className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+                >
+                  {sharedMountType === '' && <option value="" disabled>Mixed</option>}
+                  {sharedMountTypes.map((value) => (
+                    <option key={value} value={value}>
+                      {MOUNT_TYPE_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="block text-xs text-gray-400 mb-1">Back</label>
+                <select
+                  value={sharedBackStyle}
+                  onChange={(e) => updateDevicesBackStyle(multiEditableDevices.map((d) => d.id), e.target.value as BackStyle)}
+                  className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+                >
+                  {sharedBackStyle === '' && <option value="" disabled>Mixed</option>}
+                  {Object.entries(BACK_STYLE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+          {multiEditableDevices.length < multiSelectedDevices.length && (
+            <div className="text-xs text-gray-500 mt-1">
+              Patch panels keep their own mount settings
+            </div>
+          )}
+          <div className="text-xs text-gray-500 mt-2">
+            Shift+click or Shift+drag on the canvas to change the selection
+          </div>
+        </div>
+      )}
+
       {/* Selected Device Properties */}
-      {selectedDevice && dims && !joinerSelected && (
+      {selectedDevice && dims && !joinerSelected && !isMultiSelect && (
         <div className="p-3 border-b border-gray-700">
           <h3 className="text-sm font-medium text-gray-300 mb-3">Device Properties</h3>
 
@@ -394,15 +788,37 @@ export function PropertyPanel() {
                   {dims.width} x {dims.height} x {dims.depth} mm
                 </div>
               )}
+              {catalogDevice?.userDefined && (
+                <div className="text-blue-400 text-xs">From My Devices</div>
+              )}
+              {catalogDevice?.packId && (
+                <div className="text-purple-400 text-xs">
+                  From pack: {devicePacks.find((p) => p.id === catalogDevice.packId)?.name ?? 'unknown'}
+                </div>
+              )}
+            </div>
+            <div className="flex gap-1">
+              <button
+                onClick={() => duplicateDevices([selectedDevice.id])}
+                title="Duplicate (Ctrl+D)"
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors"
+              >
+                Duplicate
+              </button>
+              <button
+                onClick={() => removeDevice(selectedDevice.id)}
+                className="px-2 py-1 bg-red-600 hover:bg-red-500 text-white text-xs rounded transition-colors"
+              >
+                Remove
+              </button>
             </div>
-            <button
-              onClick={() => removeDevice(selectedDevice.id)}
-              className="px-2 py-1 bg-red-600 hover:bg-red-500 text-white text-xs rounded transition-colors"
-            >
-              Remove
-            </button>
           </div>
 
+          {/* Notes saved with a My Devices entry */}
+          {catalogDevice?.notes && (
+            <p className="mb-3 text-xs text-gray-400 whitespace-pre-line">{catalogDevice.notes}</p>
+          )}
+
           {/* Custom device dimensions (editable) */}
           {selectedDevice.deviceId === 'custom' && (
             <div className="mb-3">
@@ -469,6 +885,40 @@ export function PropertyPanel() {
             </div>
           )}
 
+          {/* Weight and power draw (blank uses the catalog or drive value) */}
+          <div className="flex gap-2 mb-3">
+            <div className="flex-1">
+              <label className="block text-xs text-gray-400 mb-1">Weight (g)</label>
+              <input
+                type="number"
+                value={selectedDevice.customWeight ?? ''}
+                placeholder={defaultWeight !== undefined ? String(defaultWeight) : 'unknown'}
+                onChange={(e) => {
+                  const weight = parseFloat(e.target.value);
+                  updateDeviceWeight(selectedDevice.id, isNaN(weight) ? undefined : Math.max(0, weight));
+                }}
+                step={10}
+                min={0}
+                className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-xs text-gray-400 mb-1">Power (W)</label>
+              <input
+                type="number"
+                value={selectedDevice.customPower ?? ''}
+                placeholder={defaultPower !== undefined ? String(defaultPower) : 'unknown'}
+                onChange={(e) => {
+                  const power = parseFloat(e.target.value);
+                  updateDevicePower(selectedDevice.id, isNaN(power) ? undefined : Math.max(0, power));
+                }}
+                step={1}
+                min={0}
+                className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+              />
+            </div>
+          </div>
+
           {/* Split side selector (only in split mode) */}
           {config.isSplit && (
             <div className="flex gap-1 mb-3">
@@ -522,6 +972,14 @@ export function PropertyPanel() {
             </div>
           </div>
 
+          {/* Array duplicate */}
+          <ArrayDuplicateControls
+            key={selectedDevice.id}
+            deviceId={selectedDevice.id}
+            deviceWidth={dims.width}
+            onCreate={arrayDevice}
+          />
+
           {/* Mount Type and Back Style (hide for patch_panel, hide Back for shelf) */}
           {selectedDevice.mountType !== 'patch_panel' && (
             <div className="flex gap-2">
@@ -538,9 +996,9 @@ export function PropertyPanel() {
                     const allowedTypes = selectedDevice.deviceId !== 'custom'
                       ? getAllowedMountTypes(selectedDevice.deviceId)
                       : undefined;
-                    // If no specific allowed types, exclude device-specific mounts (pi5_case, patch_panel)
+                    // If no specific allowed types, exclude device-specific mounts (pi5_case, patch_panel, drive_sled)
                     const mountTypes = allowedTypes
-                      || (Object.keys(MOUNT_TYPE_LABELS) as MountType[]).filter(mt => mt !== 'pi5_case' && mt !== 'patch_panel');
+                      || (Object.keys(MOUNT_TYPE_LABELS) as MountType[]).filter(mt => mt !== 'pi5_case' && mt !== 'patch_panel' && mt !== 'drive_sled');
 
                     return mountTypes.map((value) => (
                       <option key={value} value={value}>
@@ -571,6 +1029,35 @@ export function PropertyPanel() {
             </div>
           )}
 
+          {/* Rotation about the depth axis */}
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-400 w-16">Rotation</label>
+            <select
+              value={selectedDevice.rotation ?? 0}
+              onChange={(e) => updateDeviceRotation(selectedDevice.id, parseInt(e.target.value) as DeviceRotation)}
+              className="flex-1 bg-gray-700 text-white text-xs rounded px-2 py-1 border border-gray-600 focus:border-blue-500"
+            >
+              {DEVICE_ROTATIONS.map((rotation) => (
+                <option key={rotation} value={rotation}>{DEVICE_ROTATION_LABELS[rotation]}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Front bezel (only for catalog devices with front features) */}
+          {catalogDevice?.frontFeatures && catalogDevice.frontFeatures.length > 0 && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selectedDevice.frontBezel === true}
+                onChange={(e) => updateDeviceFrontBezel(selectedDevice.id, e.target.checked)}
+                className="w-3.5 h-3.5 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500 focus:ring-offset-gray-800"
+              />
+              <span className="text-xs text-gray-300">
+                Front bezel (cut {catalogDevice.frontFeatures.length} front feature{catalogDevice.frontFeatures.length === 1 ? '' : 's'} only)
+              </span>
+            </label>
+          )}
+
           {/* Patch Panel Ports (only for patch_panel mount type) */}
           {selectedDevice.mountType === 'patch_panel' && (
             <PatchPanelPortsInput
@@ -580,6 +1067,67 @@ export function PropertyPanel() {
             />
           )}
 
+          {/* Tray Options (only for tray mount type) */}
+          {selectedDevice.mountType === 'tray' && (
+            <div className="space-y-2 border-t border-gray-700 pt-2 mt-2">
+              <MountingStandoffs device={selectedDevice} />
+            </div>
+          )}
+
+          {/* Drive Sled Options (only for drive_sled mount type) */}
+          {selectedDevice.mountType === 'drive_sled' && (() => {
+            const sled = getDriveSledSettings(selectedDevice);
+            const hasSideHoles = DRIVE_MOUNT_PATTERNS[sled.size].sideHoles.length > 0;
+            return (
+              <div className="space-y-2 border-t border-gray-700 pt-2 mt-2">
+                <div className="text-xs font-medium text-gray-400">Drive Sled Options</div>
+
+                {/* Drive Size */}
+                <div className="flex items-center gap-2">
+                  <label className="text-xs text-gray-400 w-16">Drive</label>
+                  <select
+                    value={sled.size}
+                    onChange={(e) => updateDeviceDriveSize(selectedDevice.id, e.target.value as DriveSize)}
+                    className="flex-1 bg-gray-700 text-white text-xs rounded px-2 py-1 border border-gray-600 focus:border-blue-500"
+                  >
+                    {Object.entries(DRIVE_SIZE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Screw Pattern (M.2 only has the bottom screw) */}
+                <div className="flex items-center gap-2">
+                  <label className="text-xs text-gray-400 w-16">Screws</label>
+                  <select
+                    value={sled.screwSide}
+                    onChange={(e) => updateDeviceDriveScrewSide(selectedDevice.id, e.target.value as DriveScrewSide)}
+                    disabled={!hasSideHoles}
+                    className="flex-1 bg-gray-700 text-white text-xs rounded px-2 py-1 border border-gray-600 focus:border-blue-500 disabled:opacity-50"
+                  >
+                    {Object.entries(DRIVE_SCREW_SIDE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Stacked drive count */}
+                <div className="flex items-center gap-2">
+                  <label className="text-xs text-gray-400 w-16">Drives</label>
+                  <input
+                    type="range"
+                    value={sled.count}
+                    onChange={(e) => updateDeviceDriveCount(selectedDevice.id, parseInt(e.target.value))}
+                    className="flex-1"
+                    min={1}
+                    max={MAX_DRIVE_COUNT}
+                  />
+                  <span className="text-xs text-gray-300 w-4 text-center">{sled.count}</span>
+                </div>
+              </div>
+            );
+          })()}
+
           {/* Shelf Options (only for shelf mount type) */}
           {selectedDevice.mountType === 'shelf' && (
             <div className="space-y-2 border-t border-gray-700 pt-2 mt-2">
@@ -701,119 +1249,7 @@ export function PropertyPanel() {
 
               {/* Standoffs/Mounting Points */}
               <div className="border-t border-gray-600 pt-2 mt-2">
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-xs font-medium text-gray-400">Mounting Standoffs</span>
-                  <button
-                    onClick={() => addDeviceStandoff(selectedDevice.id, {
-                      x: 0,
-                      y: 20,
-                      height: 5,
-                      outerDia: 6,
-                      holeDia: 2.5
-                    })}
-                    className="text-xs px-2 py-0.5 bg-blue-600 hover:bg-blue-500 text-white rounded"
-                  >
-                    + Add
-                  </button>
-                </div>
-
-                {/* Standoff Options */}
-                <div className="flex gap-3 mb-2">
-                  <label className="flex items-center gap-1 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={selectedDevice.standoffCountersink === true}
-                      onChange={(e) => updateDeviceStandoffCountersink(selectedDevice.id, e.target.checked)}
-                      className="w-3 h-3 rounded border-gray-600 bg-gray-700 text-blue-500"
-                    />
-                    <span className="text-xs text-gray-400">Countersunk</span>
-                  </label>
-                  <label className="flex items-center gap-1 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={selectedDevice.standoffReinforced === true}
-                      onChange={(e) => updateDeviceStandoffReinforced(selectedDevice.id, e.target.checked)}
-                      className="w-3 h-3 rounded border-gray-600 bg-gray-700 text-blue-500"
-                    />
-                    <span className="text-xs text-gray-400">Reinforced</span>
-                  </label>
-                </div>
-                {(selectedDevice.standoffs || []).length === 0 && (
-                  <div className="text-xs text-gray-500 text-center py-1">
-                    No standoffs added
-                  </div>
-                )}
-                {(selectedDevice.standoffs || []).map((standoff, idx) => (
-                  <div key={idx} className="bg-gray-700 rounded p-2 mb-1">
-                    <div className="flex items-center justify-between mb-1">
-                      <span className="text-xs text-gray-300">Standoff {idx + 1}</span>
-                      <button
-                        onClick={() => removeDeviceStandoff(selectedDevice.id, idx)}
-                        className="text-red-400 hover:text-red-300 text-xs"
-                      >
-                        Remove
-                      </button>
-                    </div>
-                    <div className="grid grid-cols-2 gap-1 text-xs">
-                      <div>
-                        <label className="text-gray-500">X</label>
-                        <input
-                          type="number"
-                          value={standoff.x}
-                          onChange={(e) => {
-                            const newStandoffs = [...(selectedDevice.standoffs || [])];
-                            newStandoffs[idx] = { ...standoff, x: parseFloat(e.target.value) || 0 };
-                            useRackStore.getState().updateDeviceStandoffs(selectedDevice.id, newStandoffs);
-                          }}
-                          className="w-full px-1 py-0.5 bg-gray-600 border border-gray-500 rounded text-white"
-                        />
-                      </div>
-                      <div>
-                        <label className="text-gray-500">Y</label>
-                        <input
-                          type="number"
-                          value={standoff.y}
-                          onChange={(e) => {
-                            const newStandoffs = [...(selectedDevice.standoffs || [])];
-                            newStandoffs[idx] = { ...standoff, y: parseFloat(e.target.value) || 0 };
-                            useRackStore.getState().updateDeviceStandoffs(selectedDevice.id, newStandoffs);
-                          }}
-                          className="w-full px-1 py-0.5 bg-gray-600 border border-gray-500 rounded text-white"
-                        />
-                      </div>
-                      <div>
-                        <label className="text-gray-500">Height</label>
-                        <input
-                          type="number"
-                          value={standoff.height}
-                          onChange={(e) => {
-                            const newStandoffs = [...(selectedDevice.standoffs || [])];
-                            newStandoffs[idx] = { ...standoff, height: parseFloat(e.target.value) || 5 };
-                            useRackStore.getState().updateDeviceStandoffs(selectedDevice.id, newStandoffs);
-                          }}
-                          className="w-full px-1 py-0.5 bg-gray-600 border border-gray-500 rounded text-white"
-                          min={1}
-                        />
-                      </div>
-                      <div>
-                        <label className="text-gray-500">Hole Ø</label>
-                        <input
-                          type="number"
-                          value={standoff.holeDia}
-                          onChange={(e) => {
-                            const newStandoffs = [...(selectedDevice.standoffs || [])];
-                            newStandoffs[idx] = { ...standoff, holeDia: parseFloat(e.target.value) || 2.5 };
-                            useRackStore.getState().updateDeviceStandoffs(selectedDevice.id, newStandoffs);
-                          }}
-                          className="w-full px-1 py-0.5 bg-gray-600 border border-gray-500 rounded text-white"
-                          min={1}
-                          step={0.5}
-                        />
-                      </div>
-                    </div>
-                  </div>
-                ))}
-
+                <MountingStandoffs device={selectedDevice} />
                 {/* PCB Preset - 4-corner standoffs */}
                 <div className="border-t border-gray-600 pt-2 mt-2">
                   <label className="flex items-center gap-2 cursor-pointer mb-2">
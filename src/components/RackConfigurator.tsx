@@ -1,4 +1,4 @@
-import React, { useRef, useState, useCallback, useEffect } from 'react';
+import React, { useRef, useState, useCallback, useEffect, useMemo } from 'react';
 import { useDroppable } from '@dnd-kit/core';
 import { useRackStore } from '../state/rack-store';
 import type { ViewConfig } from '../utils/coordinates';
@@ -8,26 +8,20 @@ import {
   svgToRack,
   getRackDimensions,
   rackSizeToSvg,
-  devicesOverlap,
 } from '../utils/coordinates';
+import { getDevicesInRect } from '../utils/alignment';
+import { validateRack, getProblemDeviceIds, SPLIT_MARGIN } from '../utils/validation';
+import { diffConfigs } from '../utils/config-diff';
+import type { ConfigDiff } from '../utils/config-diff';
 import { getPlacedDeviceDimensions } from '../utils/scad-generator';
 import { DeviceOnRack } from './DeviceOnRack';
-import { RACK_CONSTANTS, TOOLLESS_HOOK_SPACING, getToollessHookCount, type EarStyle, type EarPosition } from '../state/types';
+import { RACK_CONSTANTS, TOOLLESS_HOOK_SPACING, getToollessHookCount, type EarStyle, type EarPosition, type PlacedDevice } from '../state/types';
 
 const PADDING = 40;
 
 // Ear dimensions based on EIA-310 rack standard
 const EAR_WIDTH = (RACK_CONSTANTS.FACEPLATE_WIDTH - RACK_CONSTANTS.PANEL_WIDTH) / 2; // ~15.875mm
 
-// Split line exclusion zone - devices (including cage walls) must not overlap
-// Components:
-// - Joiner wall: 4mm (extends 2mm on each side)
-// - Cage wall thickness: 4-6mm (depending on heavy_device setting)
-// - Buffer: 2mm for tolerance
-// Total: ~10mm on each side of split line
-const SPLIT_MARGIN = 10; // mm on each side of split line
-const CAGE_WALL_THICKNESS = 6; // max cage wall thickness (heavy_device=2)
-
 // Hook dimensions from OpenSCAD backplate_profile (rack_ears.scad)
 // The hook profile: X range -12.1 to 0 (12.1mm), Y range 2.25 to 32.65 (30.4mm)
 const HOOK_HEIGHT = 30.4; // mm - total height of the hook profile
@@ -277,6 +271,60 @@ function TrimNotches({ rackBounds, hookPattern, trimPattern, rackU, earThickness
   return notches.length > 0 ? <g>{notches}</g> : null;
 }
 
+// Outline of earlier and current device positions when comparing layouts
+interface DiffOverlayProps {
+  diff: ConfigDiff;
+  view: ViewConfig;
+}
+
+const DIFF_COLORS = {
+  added: '#22c55e',
+  removed: '#ef4444',
+  moved: '#f59e0b',
+  changed: '#06b6d4',
+};
+
+function DiffOverlay({ diff, view }: DiffOverlayProps) {
+  const outline = (device: PlacedDevice, color: string, dashed: boolean, key: string) => {
+    const dims = getPlacedDeviceDimensions(device);
+    const topLeft = rackToSvg(device.offsetX - dims.width / 2, device.offsetY + dims.height / 2, view);
+    return (
+      <rect
+        key={key}
+        x={topLeft.x - 2}
+        y={topLeft.y - 2}
+        width={rackSizeToSvg(dims.width, view) + 4}
+        height={rackSizeToSvg(dims.height, view) + 4}
+        fill={dashed ? color : 'none'}
+        fillOpacity={dashed ? 0.1 : 0}
+        stroke={color}
+        strokeWidth={2}
+        strokeDasharray={dashed ? '6,3' : 'none'}
+        rx={3}
+      />
+    );
+  };
+
+  return (
+    <g pointerEvents="none">
+      {diff.removed.map(({ device }) => outline(device, DIFF_COLORS.removed, true, `removed-${device.id}`))}
+      {diff.added.map(({ device }) => outline(device, DIFF_COLORS.added, false, `added-${device.id}`))}
+      {diff.changed.map(({ after }) => outline(after.device, DIFF_COLORS.changed, false, `changed-${after.device.id}`))}
+      {diff.moved.map(({ before, after }) => {
+        const from = rackToSvg(before.device.offsetX, before.device.offsetY, view);
+        const to = rackToSvg(after.device.offsetX, after.device.offsetY, view);
+        return (
+          <g key={`moved-${after.device.id}`}>
+            {outline(before.device, DIFF_COLORS.moved, true, 'before')}
+            <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke={DIFF_COLORS.moved} strokeWidth={1.5} />
+            <circle cx={to.x} cy={to.y} r={3} fill={DIFF_COLORS.moved} />
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
 export function RackConfigurator() {
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
@@ -284,6 +332,16 @@ export function RackConfigurator() {
   const [isDraggingSplit, setIsDraggingSplit] = useState(false);
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState({ x: 0, y: 0, panX: 0, panY: 0 });
+  // Marquee selection rectangle in SVG coordinates (Shift + drag on background),
+  // plus the same rectangle in rack coordinates for hit testing
+  const [marquee, setMarquee] = useState<{
+    startX: number;
+    startY: number;
+    x: number;
+    y: number;
+    rackRect: { left: number; right: number; top: number; bottom: number } | null;
+  } | null>(null);
+  const suppressBackgroundClickRef = useRef(false);
 
   const {
     config,
@@ -294,9 +352,14 @@ export function RackConfigurator() {
     snapToGrid,
     gridSize,
     selectDevice,
+    selectDevices,
     setZoom,
     setPan,
     setSplitPosition,
+    beginHistoryGroup,
+    endHistoryGroup,
+    comparison,
+    setComparison,
   } = useRackStore();
 
   // Make this component a drop target
@@ -384,104 +447,84 @@ export function RackConfigurator() {
   const handleBackgroundMouseDown = (e: React.MouseEvent) => {
     // Only start panning on left click and not on a device
     if (e.button !== 0) return;
+
+    // Shift + drag draws a selection marquee instead of panning
+    if (e.shiftKey && svgRef.current) {
+      const rect = svgRef.current.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      setMarquee({ startX: x, startY: y, x, y, rackRect: null });
+      return;
+    }
+
     setIsPanning(true);
     setPanStart({ x: e.clientX, y: e.clientY, panX, panY });
   };
 
-  // Deselect on background click (only if we didn't pan)
+  // Deselect on background click (only if we didn't pan or draw a marquee)
   const handleBackgroundClick = () => {
+    if (suppressBackgroundClickRef.current) {
+      suppressBackgroundClickRef.current = false;
+      return;
+    }
     if (!isPanning) {
       selectDevice(null);
     }
   };
 
   // Get all devices to display (either main devices or split devices)
-  const allDevices = config.isSplit
-    ? [...config.leftDevices, ...config.rightDevices]
-    : config.devices;
+  const allDevices = useMemo(
+    () => (config.isSplit ? [...config.leftDevices, ...config.rightDevices] : config.devices),
+    [config.isSplit, config.leftDevices, config.rightDevices, config.devices]
+  );
 
   // Calculate split line position (moved here so it's available for overlap detection)
   const splitLineX = config.splitPosition || 0; // 0 = center
 
-  // Check if a device overlaps with the split exclusion zone
-  const deviceOverlapsSplitZone = (device: typeof allDevices[0]) => {
-    if (!config.isSplit) return false;
-
-    const dims = getPlacedDeviceDimensions(device);
-    // Include cage wall thickness in bounds (cage walls extend beyond cutout)
-    // For "none" mount type, there's no cage, so no extra margin needed
-    const cageMargin = device.mountType === 'none' ? 0 : CAGE_WALL_THICKNESS;
-    const deviceLeft = device.offsetX - dims.width / 2 - cageMargin;
-    const deviceRight = device.offsetX + dims.width / 2 + cageMargin;
-    const splitLeft = splitLineX - SPLIT_MARGIN;
-    const splitRight = splitLineX + SPLIT_MARGIN;
-
-    // Check if device bounds (including cage walls) overlap with split exclusion zone
-    return deviceRight > splitLeft && deviceLeft < splitRight;
-  };
-
-  // Get effective dimensions including cage walls
-  const getEffectiveDimensions = (device: typeof allDevices[0]) => {
-    const dims = getPlacedDeviceDimensions(device);
-    // Add cage wall thickness on each side (except for "none" mount type)
-    const cageMargin = device.mountType === 'none' ? 0 : CAGE_WALL_THICKNESS;
-    return {
-      ...dims,
-      width: dims.width + cageMargin * 2,
-      height: dims.height + cageMargin * 2,
-    };
-  };
-
-  // Check for overlapping devices and devices that cross the split zone
-  const getOverlappingDevices = () => {
-    const overlapping = new Set<string>();
-
-    for (let i = 0; i < allDevices.length; i++) {
-      const d1 = allDevices[i];
-      const effDims1 = getEffectiveDimensions(d1);
-
-      // Check if device overlaps with split exclusion zone
-      if (deviceOverlapsSplitZone(d1)) {
-        overlapping.add(d1.id);
-      }
-
-      for (let j = i + 1; j < allDevices.length; j++) {
-        const d2 = allDevices[j];
-        const effDims2 = getEffectiveDimensions(d2);
-
-        // Check overlap using effective dimensions (including cage walls)
-        if (
-          devicesOverlap(
-            d1.offsetX,
-            d1.offsetY,
-            effDims1.width,
-            effDims1.height,
-            d2.offsetX,
-            d2.offsetY,
-            effDims2.width,
-            effDims2.height
-          )
-        ) {
-          overlapping.add(d1.id);
-          overlapping.add(d2.id);
-        }
-      }
-    }
+  // Devices with validation problems (overlaps, split line, ear zone, ...) are highlighted
+  const problemDevices = useMemo(() => getProblemDeviceIds(validateRack(config)), [config]);
 
-    return overlapping;
-  };
-
-  const overlappingDevices = getOverlappingDevices();
+  // Changes relative to the layout being compared against, if any
+  const comparisonDiff = useMemo(
+    () => (comparison ? diffConfigs(comparison.config, config) : null),
+    [comparison, config]
+  );
 
   // Handle split line drag (only if not locked)
   const handleSplitMouseDown = useCallback((e: React.MouseEvent) => {
     if (config.splitLocked) return;
     e.stopPropagation();
+    // Record the whole split drag as a single undo step
+    beginHistoryGroup();
     setIsDraggingSplit(true);
-  }, [config.splitLocked]);
+  }, [config.splitLocked, beginHistoryGroup]);
 
   const handleMouseMove = useCallback(
     (e: React.MouseEvent) => {
+      // Handle marquee selection
+      if (marquee && svgRef.current) {
+        const rect = svgRef.current.getBoundingClientRect();
+        const x = e.clientX - rect.left;
+        const y = e.clientY - rect.top;
+        const moved = Math.abs(x - marquee.startX) > 3 || Math.abs(y - marquee.startY) > 3;
+        const a = svgToRack(marquee.startX, marquee.startY, view);
+        const b = svgToRack(x, y, view);
+        setMarquee({
+          ...marquee,
+          x,
+          y,
+          rackRect: moved
+            ? {
+                left: Math.min(a.x, b.x),
+                right: Math.max(a.x, b.x),
+                top: Math.max(a.y, b.y),
+                bottom: Math.min(a.y, b.y),
+              }
+            : null,
+        });
+        return;
+      }
+
       // Handle split line dragging
       if (isDraggingSplit && svgRef.current) {
         const rect = svgRef.current.getBoundingClientRect();
@@ -509,25 +552,40 @@ export function RackConfigurator() {
         setPan(newPan.x, newPan.y);
       }
     },
-    [isDraggingSplit, isPanning, panStart, view, rack.width, snapToGrid, gridSize, setSplitPosition, setPan, clampPan]
+    [marquee, isDraggingSplit, isPanning, panStart, view, rack.width, snapToGrid, gridSize, setSplitPosition, setPan, clampPan]
   );
 
+  // Select every device touched by the marquee (added to the current selection)
+  const finishMarquee = useCallback(() => {
+    if (!marquee) return;
+    if (marquee.rackRect) {
+      selectDevices(getDevicesInRect(allDevices, marquee.rackRect), true);
+      suppressBackgroundClickRef.current = true;
+    }
+    setMarquee(null);
+  }, [marquee, allDevices, selectDevices]);
+
   const handleMouseUp = useCallback(() => {
+    if (isDraggingSplit) endHistoryGroup();
+    finishMarquee();
     setIsDraggingSplit(false);
     setIsPanning(false);
-  }, []);
+  }, [isDraggingSplit, endHistoryGroup, finishMarquee]);
 
-  // Add global mouse up listener for split dragging and panning
+  // Add global mouse up listener for split dragging, panning and marquee
+  const isMarqueeActive = marquee !== null;
   useEffect(() => {
-    if (isDraggingSplit || isPanning) {
+    if (isDraggingSplit || isPanning || isMarqueeActive) {
       const handleGlobalMouseUp = () => {
+        if (isDraggingSplit) endHistoryGroup();
         setIsDraggingSplit(false);
         setIsPanning(false);
+        setMarquee(null);
       };
       window.addEventListener('mouseup', handleGlobalMouseUp);
       return () => window.removeEventListener('mouseup', handleGlobalMouseUp);
     }
-  }, [isDraggingSplit, isPanning]);
+  }, [isDraggingSplit, isPanning, isMarqueeActive, endHistoryGroup]);
 
   // Grid lines
   const gridLines = [];
@@ -593,7 +651,7 @@ export function RackConfigurator() {
         ref={svgRef}
         width={svgSize.width}
         height={svgSize.height}
-        className={`w-full h-full ${isDraggingSplit ? 'cursor-ew-resize' : isPanning ? 'cursor-grabbing' : 'cursor-grab'}`}
+        className={`w-full h-full ${isDraggingSplit ? 'cursor-ew-resize' : marquee ? 'cursor-crosshair' : isPanning ? 'cursor-grabbing' : 'cursor-grab'}`}
         onClick={handleBackgroundClick}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
@@ -828,10 +886,29 @@ export function RackConfigurator() {
             key={device.id}
             device={device}
             view={view}
-            isOverlapping={overlappingDevices.has(device.id)}
+            isOverlapping={problemDevices.has(device.id)}
           />
         ))}
 
+        {/* Comparison overlay */}
+        {comparisonDiff && <DiffOverlay diff={comparisonDiff} view={view} />}
+
+        {/* Marquee selection rectangle */}
+        {marquee && (
+          <rect
+            x={Math.min(marquee.startX, marquee.x)}
+            y={Math.min(marquee.startY, marquee.y)}
+            width={Math.abs(marquee.x - marquee.startX)}
+            height={Math.abs(marquee.y - marquee.startY)}
+            fill="#fbbf24"
+            fillOpacity={0.1}
+            stroke="#fbbf24"
+            strokeWidth={1}
+            strokeDasharray="4,2"
+            pointerEvents="none"
+          />
+        )}
+
         {/* Dimensions label */}
         <text
           x={rackBounds.x + rackBounds.width / 2}
@@ -858,6 +935,35 @@ export function RackConfigurator() {
         )}
       </svg>
 
+      {/* Comparison legend */}
+      {comparison && comparisonDiff && (
+        <div className="absolute top-4 left-4 bg-gray-800 border border-gray-700 rounded px-3 py-2 text-xs text-gray-300 shadow-lg">
+          <div className="flex items-center gap-3 mb-1">
+            <span className="font-medium text-white">Comparing with {comparison.label}</span>
+            <button
+              onClick={() => setComparison(null)}
+              className="text-gray-400 hover:text-white"
+              title="Hide comparison"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <div className="flex gap-3">
+            <span style={{ color: DIFF_COLORS.added }}>{comparisonDiff.added.length} added</span>
+            <span style={{ color: DIFF_COLORS.removed }}>{comparisonDiff.removed.length} removed</span>
+            <span style={{ color: DIFF_COLORS.moved }}>{comparisonDiff.moved.length} moved</span>
+            <span style={{ color: DIFF_COLORS.changed }}>{comparisonDiff.changed.length} changed</span>
+            {comparisonDiff.settings.length > 0 && (
+              <span className="text-purple-400">
+                {comparisonDiff.settings.length} setting{comparisonDiff.settings.length !== 1 ? 's' : ''}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Zoom indicator */}
       <div className="absolute bottom-4 right-4 bg-gray-800 text-gray-300 px-3 py-1 rounded text-sm">
         {Math.round(zoom * 100)}%
@@ -1,25 +1,51 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { useRackStore } from '../state/rack-store';
-import type { RackConfig } from '../state/types';
-import type { EarStyle, EarPosition } from '../state/types';
-import { EAR_STYLE_LABELS, getToollessHookCount } from '../state/types';
+import type { EarStyle, EarPosition, RenderQuality } from '../state/types';
+import { EAR_STYLE_LABELS, RENDER_QUALITIES, RENDER_QUALITY_LABELS, getToollessHookCount } from '../state/types';
 import { ToollessHooksModal } from './ToollessHooksModal';
-import { downloadScadFile, downloadConfigJson, generateScadCode, generateScadCodeForSide, downloadStl, downloadSplitStlZip } from '../utils/scad-generator';
+import { downloadScadFile, downloadConfigJson, generateScadCode, generateScadCodeForSide, downloadStl, downloadSplitStlZip, parseConfigJson, QUALITY_PROFILES } from '../utils/scad-generator';
 import { downloadBundledScadFile } from '../utils/scad-bundler';
+import { validateRack } from '../utils/validation';
 import { AdvancedSettingsModal } from './AdvancedSettingsModal';
-import { RecentRacks } from './RecentRacks';
-import { saveRecentRack } from '../utils/recent-racks-db';
+import { ProjectLibraryModal } from './ProjectLibraryModal';
+import { SaveProjectModal } from './SaveProjectModal';
+import { RevisionHistoryModal } from './RevisionHistoryModal';
+import { TemplateGalleryModal } from './TemplateGalleryModal';
+import { createShareLink, SHARE_LINK_WARN_LENGTH } from '../utils/share-link';
+import { saveProjectConfig } from '../utils/project-library-db';
+import { readExportPrefs, writeExportPrefs, DEFAULT_EXPORT_QUALITY } from '../utils/export-prefs-db';
+import type { LibraryProject } from '../utils/project-library-db';
+import type { RenderOptions } from '../worker/openscad-runner';
 import { initializeWorker, renderScad, setStatusCallback, isWorkerReady } from '../worker/openscad-runner';
 
 export function RackToolbar() {
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showHooksModal, setShowHooksModal] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showSaveProject, setShowSaveProject] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
   const [isRendering, setIsRendering] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [renderStatus, setRenderStatus] = useState<string | null>(null);
   const [, setWorkerInitialized] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const exportControllerRef = useRef<AbortController | null>(null);
+  const [exportQuality, setExportQuality] = useState<RenderQuality>(DEFAULT_EXPORT_QUALITY);
+
+  // Exports use the quality profile picked last time
+  useEffect(() => {
+    let cancelled = false;
+    readExportPrefs()
+      .then((prefs) => {
+        if (!cancelled) setExportQuality(prefs.quality);
+      })
+      .catch((error) => console.error('Failed to load export preferences:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const {
     config,
@@ -38,27 +64,31 @@ export function RackToolbar() {
     resetView,
     clearDevices,
     loadConfig,
+    setImportErrors,
+    currentProject,
+    undo,
+    redo,
+    past,
+    future,
   } = useRackStore();
 
-  const handleExportScad = async () => {
-    downloadScadFile(config);
+  const handleExportQualityChange = (quality: RenderQuality) => {
+    setExportQuality(quality);
+    writeExportPrefs({ quality })
+      .catch((error) => console.error('Failed to save export preferences:', error));
+  };
+
+  const handleExportScad = () => {
+    downloadScadFile(config, exportQuality);
     setShowExportMenu(false);
-    // Save to recent racks
-    try {
-      await saveRecentRack(config);
-    } catch (e) {
-      console.error('Failed to save to recent racks:', e);
-    }
   };
 
   const handleExportBundledScad = async () => {
     setIsExporting(true);
     setRenderStatus('Bundling components...');
     try {
-      await downloadBundledScadFile(config);
+      await downloadBundledScadFile(config, exportQuality);
       setRenderStatus('Done!');
-      // Save to recent racks
-      await saveRecentRack(config);
     } catch (e) {
       setRenderStatus(`Error: ${e instanceof Error ? e.message : 'Unknown error'}`);
     } finally {
@@ -68,15 +98,9 @@ export function RackToolbar() {
     }
   };
 
-  const handleExportJson = async () => {
+  const handleExportJson = () => {
     downloadConfigJson(config);
     setShowExportMenu(false);
-    // Save to recent racks
-    try {
-      await saveRecentRack(config);
-    } catch (e) {
-      console.error('Failed to save to recent racks:', e);
-    }
   };
 
   const handleLoadConfig = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -85,14 +109,14 @@ export function RackToolbar() {
 
     const reader = new FileReader();
     reader.onload = (e) => {
-      try {
-        const json = JSON.parse(e.target?.result as string);
-        loadConfig(json as RackConfig);
-        setRenderStatus('Config loaded!');
+      const result = parseConfigJson(e.target?.result as string);
+      if (result.ok) {
+        loadConfig(result.config);
+        setRenderStatus(result.migratedFrom !== null ? 'Config loaded (upgraded from older version)' : 'Config loaded!');
         setTimeout(() => setRenderStatus(null), 2000);
-      } catch {
-        setRenderStatus('Error: Invalid config file');
-        setTimeout(() => setRenderStatus(null), 3000);
+      } else {
+        console.error('Invalid rack configuration file:', result.errors);
+        setImportErrors(result.errors);
       }
     };
     reader.readAsText(file);
@@ -101,12 +125,52 @@ export function RackToolbar() {
     event.target.value = '';
   };
 
+  const handleCopyShareLink = async () => {
+    try {
+      const link = await createShareLink(config);
+      await navigator.clipboard.writeText(link);
+      setRenderStatus(
+        link.length > SHARE_LINK_WARN_LENGTH
+          ? `Share link copied (${link.length} chars, may be too long for some apps)`
+          : 'Share link copied!'
+      );
+    } catch (e) {
+      console.error('Failed to copy share link:', e);
+      setRenderStatus('Error: Could not copy share link');
+    }
+    setTimeout(() => setRenderStatus(null), 3000);
+  };
+
+  // Warn before rendering STL while validation problems remain
+  const confirmExportWithProblems = () => {
+    const problems = validateRack(config);
+    if (problems.length === 0) return true;
+
+    const listed = problems.slice(0, 5).map((p) => `- ${p.message}`).join('\n');
+    const more = problems.length > 5 ? `\n...and ${problems.length - 5} more` : '';
+    return window.confirm(
+      `This rack has ${problems.length} unresolved problem${problems.length !== 1 ? 's' : ''}:\n\n${listed}${more}\n\nSee the Problems panel for fixes. Export anyway?`
+    );
+  };
+
+  // Render options for an export, reporting progress under the given label
+  const exportRenderOptions = (label: string): RenderOptions => ({
+    signal: exportControllerRef.current?.signal,
+    onProgress: (progress) => setRenderStatus(`${label}: ${progress.stage} (${progress.percent}%)`),
+  });
+
+  const handleCancelExport = () => {
+    exportControllerRef.current?.abort();
+  };
+
   const handleExportStl = async () => {
     if (isRendering) return;
+    if (!confirmExportWithProblems()) return;
 
     setShowExportMenu(false);
     setIsRendering(true);
     setRenderStatus('Initializing...');
+    exportControllerRef.current = new AbortController();
 
     try {
       // Set up status callback
@@ -121,20 +185,20 @@ export function RackToolbar() {
       setRenderStatus('Rendering STL...');
 
       // Generate SCAD code
-      const scadCode = generateScadCode(config, false);
+      const scadCode = generateScadCode(config, false, exportQuality);
 
       // Render to STL
       const result = await renderScad({
         scadCode,
         outputFormat: 'stl',
         variables: { '$preview': false },
-      });
+      }, exportRenderOptions('Rendering STL'));
 
       if (result.success && result.output) {
         downloadStl(result.output, config);
         setRenderStatus('Done!');
-        // Save to recent racks
-        await saveRecentRack(config);
+      } else if (result.cancelled) {
+        setRenderStatus('Export cancelled');
       } else {
         setRenderStatus(`Error: ${result.error || 'Unknown error'}`);
         console.error('Render failed:', result);
@@ -143,6 +207,9 @@ export function RackToolbar() {
       setRenderStatus(`Error: ${e instanceof Error ? e.message : 'Unknown error'}`);
       console.error('Export failed:', e);
     } finally {
+      exportControllerRef.current = null;
+      // Restart messages after this point aren't about the export
+      setStatusCallback(null);
       setIsRendering(false);
       // Clear status after a delay
       setTimeout(() => setRenderStatus(null), 3000);
@@ -151,10 +218,12 @@ export function RackToolbar() {
 
   const handleExportStlSide = async (side: 'left' | 'right') => {
     if (isRendering) return;
+    if (!confirmExportWithProblems()) return;
 
     setShowExportMenu(false);
     setIsRendering(true);
     setRenderStatus('Initializing...');
+    exportControllerRef.current = new AbortController();
 
     try {
       // Set up status callback
@@ -169,20 +238,20 @@ export function RackToolbar() {
       setRenderStatus(`Rendering ${side} side STL...`);
 
       // Generate SCAD code for specific side
-      const scadCode = generateScadCodeForSide(config, side);
+      const scadCode = generateScadCodeForSide(config, side, exportQuality);
 
       // Render to STL
       const result = await renderScad({
         scadCode,
         outputFormat: 'stl',
         variables: { '$preview': false },
-      });
+      }, exportRenderOptions(`Rendering ${side} side`));
 
       if (result.success && result.output) {
         downloadStl(result.output, config, side);
         setRenderStatus('Done!');
-        // Save to recent racks
-        await saveRecentRack(config);
+      } else if (result.cancelled) {
+        setRenderStatus('Export cancelled');
       } else {
         setRenderStatus(`Error: ${result.error || 'Unknown error'}`);
         console.error('Render failed:', result);
@@ -191,6 +260,9 @@ export function RackToolbar() {
       setRenderStatus(`Error: ${e instanceof Error ? e.message : 'Unknown error'}`);
       console.error('Export failed:', e);
     } finally {
+      exportControllerRef.current = null;
+      // Restart messages after this point aren't about the export
+      setStatusCallback(null);
       setIsRendering(false);
       // Clear status after a delay
       setTimeout(() => setRenderStatus(null), 3000);
@@ -199,10 +271,12 @@ export function RackToolbar() {
 
   const handleExportStlZip = async () => {
     if (isRendering) return;
+    if (!confirmExportWithProblems()) return;
 
     setShowExportMenu(false);
     setIsRendering(true);
     setRenderStatus('Initializing...');
+    exportControllerRef.current = new AbortController();
 
     try {
       // Set up status callback
@@ -214,53 +288,80 @@ export function RackToolbar() {
         setWorkerInitialized(true);
       }
 
-      // Render left side
-      setRenderStatus('Rendering left side STL...');
-      const leftScadCode = generateScadCodeForSide(config, 'left');
-      const leftResult = await renderScad({
-        scadCode: leftScadCode,
-        outputFormat: 'stl',
-        variables: { '$preview': false },
-      });
-
-      if (!leftResult.success || !leftResult.output) {
-        throw new Error(leftResult.error || 'Failed to render left side');
+      // Both halves render at once, on separate workers when the pool has room
+      setRenderStatus('Rendering both halves...');
+      const percent = { left: 0, right: 0 };
+      const renderSide = async (side: 'left' | 'right') => {
+        const result = await renderScad({
+          scadCode: generateScadCodeForSide(config, side, exportQuality),
+          outputFormat: 'stl',
+          variables: { '$preview': false },
+        }, {
+          signal: exportControllerRef.current?.signal,
+          onProgress: (progress) => {
+            percent[side] = progress.percent;
+            setRenderStatus(`Rendering halves: left ${percent.left}%, right ${percent.right}%`);
+          },
+        });
+        // No point finishing the other half once one has failed
+        if (!result.success && !result.cancelled) {
+          exportControllerRef.current?.abort();
+        }
+        return result;
+      };
+      const [leftResult, rightResult] = await Promise.all([renderSide('left'), renderSide('right')]);
+
+      for (const [side, result] of [['left', leftResult], ['right', rightResult]] as const) {
+        if (!result.success && !result.cancelled) {
+          throw new Error(result.error || `Failed to render ${side} side`);
+        }
       }
-
-      // Render right side
-      setRenderStatus('Rendering right side STL...');
-      const rightScadCode = generateScadCodeForSide(config, 'right');
-      const rightResult = await renderScad({
-        scadCode: rightScadCode,
-        outputFormat: 'stl',
-        variables: { '$preview': false },
-      });
-
-      if (!rightResult.success || !rightResult.output) {
-        throw new Error(rightResult.error || 'Failed to render right side');
+      if (!leftResult.output || !rightResult.output) {
+        setRenderStatus('Export cancelled');
+        return;
       }
 
       // Create and download ZIP
       setRenderStatus('Creating ZIP...');
       await downloadSplitStlZip(leftResult.output, rightResult.output, config);
       setRenderStatus('Done!');
-      // Save to recent racks
-      await saveRecentRack(config);
     } catch (e) {
       setRenderStatus(`Error: ${e instanceof Error ? e.message : 'Unknown error'}`);
       console.error('Export failed:', e);
     } finally {
+      exportControllerRef.current = null;
+      // Restart messages after this point aren't about the export
+      setStatusCallback(null);
       setIsRendering(false);
       // Clear status after a delay
       setTimeout(() => setRenderStatus(null), 3000);
     }
   };
 
-  const handleRecentRackLoaded = () => {
-    setRenderStatus('Config loaded!');
+  const handleProjectLoaded = (project: LibraryProject) => {
+    setRenderStatus(`Opened "${project.name}"`);
+    setTimeout(() => setRenderStatus(null), 2000);
+  };
+
+  const handleProjectSaved = (project: LibraryProject) => {
+    setRenderStatus(`Saved "${project.name}" to library`);
     setTimeout(() => setRenderStatus(null), 2000);
   };
 
+  // Save over the open library project, or ask for details for a new one
+  const handleSaveProject = async () => {
+    if (!currentProject) {
+      setShowSaveProject(true);
+      return;
+    }
+    try {
+      handleProjectSaved(await saveProjectConfig(currentProject.id, config));
+    } catch (e) {
+      console.error('Failed to save project:', e);
+      setShowSaveProject(true);
+    }
+  };
+
   return (
     <div className="bg-gray-800 border-b border-gray-700 px-4 py-2 flex items-center gap-4 flex-wrap relative">
       {/* Rack Size */}
@@ -455,6 +556,28 @@ export function RackToolbar() {
       {/* Spacer */}
       <div className="flex-1" />
 
+      {/* Undo / Redo */}
+      <button
+        onClick={undo}
+        disabled={past.length === 0}
+        className="p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-colors disabled:opacity-40 disabled:hover:bg-gray-700"
+        title="Undo (Ctrl+Z)"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+        </svg>
+      </button>
+      <button
+        onClick={redo}
+        disabled={future.length === 0}
+        className="p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-colors disabled:opacity-40 disabled:hover:bg-gray-700"
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+        </svg>
+      </button>
+
       {/* View controls */}
       <button
         onClick={resetView}
@@ -480,8 +603,50 @@ export function RackToolbar() {
       {/* Divider */}
       <div className="w-px h-6 bg-gray-600" />
 
-      {/* Recent Racks */}
-      <RecentRacks onLoad={handleRecentRackLoaded} />
+      {/* Templates */}
+      <button
+        onClick={() => setShowTemplates(true)}
+        className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded transition-colors flex items-center gap-1"
+        title="Start from a template"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v2a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM4 13a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H5a1 1 0 01-1-1v-6zM16 13a1 1 0 011-1h2a1 1 0 011 1v6a1 1 0 01-1 1h-2a1 1 0 01-1-1v-6z" />
+        </svg>
+        Templates
+      </button>
+
+      {/* Project Library */}
+      <button
+        onClick={() => setShowLibrary(true)}
+        className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded transition-colors flex items-center gap-1"
+        title="Browse saved projects"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+        </svg>
+        Library
+      </button>
+      <button
+        onClick={handleSaveProject}
+        className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded transition-colors flex items-center gap-1 max-w-[220px]"
+        title={currentProject ? `Save changes to "${currentProject.name}"` : 'Save to library'}
+      >
+        <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" />
+        </svg>
+        <span className="truncate">{currentProject ? `Save "${currentProject.name}"` : 'Save'}</span>
+      </button>
+      {currentProject && (
+        <button
+          onClick={() => setShowHistory(true)}
+          className="p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-colors"
+          title="Revision history"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </button>
+      )}
 
       {/* Load Config */}
       <input
@@ -502,8 +667,20 @@ export function RackToolbar() {
         Open
       </button>
 
+      {/* Share Link */}
+      <button
+        onClick={handleCopyShareLink}
+        className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded transition-colors flex items-center gap-1"
+        title="Copy a link that opens this configuration"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+        </svg>
+        Share
+      </button>
+
       {/* Export */}
-      <div className="relative">
+      <div className="relative flex items-center">
         <button
           onClick={() => setShowExportMenu(!showExportMenu)}
           disabled={isExporting || isRendering}
@@ -530,10 +707,42 @@ export function RackToolbar() {
             </>
           )}
         </button>
+        {isRendering && (
+          <button
+            onClick={handleCancelExport}
+            className="ml-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded transition-colors"
+            title="Cancel the STL render"
+          >
+            Cancel
+          </button>
+        )}
 
         {/* Dropdown Menu */}
         {showExportMenu && (
           <div className="absolute top-full right-0 mt-1 bg-gray-800 border border-gray-600 rounded shadow-lg py-1 min-w-[220px] z-50">
+            {/* Quality profile for STL and SCAD exports */}
+            <div className="px-3 py-2">
+              <div className="text-xs text-gray-400 mb-1">Quality</div>
+              <div className="flex rounded overflow-hidden border border-gray-600">
+                {RENDER_QUALITIES.map((quality) => (
+                  <button
+                    key={quality}
+                    onClick={() => handleExportQualityChange(quality)}
+                    disabled={isRendering}
+                    className={`flex-1 px-2 py-1 text-xs transition-colors ${
+                      exportQuality === quality
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                    title={QUALITY_PROFILES[quality].description}
+                  >
+                    {RENDER_QUALITY_LABELS[quality]}
+                  </button>
+                ))}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">{QUALITY_PROFILES[exportQuality].description}</div>
+            </div>
+            <div className="border-t border-gray-700 my-1" />
             {config.isSplit ? (
               <>
                 <button
@@ -622,6 +831,41 @@ export function RackToolbar() {
       )}
 
       {/* Advanced Settings Modal */}
+      {showLibrary && (
+        <ProjectLibraryModal
+          onClose={() => setShowLibrary(false)}
+          onLoad={handleProjectLoaded}
+          onSaveCurrent={() => {
+            setShowLibrary(false);
+            setShowSaveProject(true);
+          }}
+        />
+      )}
+
+      {showSaveProject && (
+        <SaveProjectModal
+          onClose={() => setShowSaveProject(false)}
+          onSaved={handleProjectSaved}
+        />
+      )}
+
+      {showTemplates && (
+        <TemplateGalleryModal
+          onClose={() => setShowTemplates(false)}
+          onApplied={(name) => {
+            setRenderStatus(`Started from "${name}"`);
+            setTimeout(() => setRenderStatus(null), 2000);
+          }}
+        />
+      )}
+
+      {showHistory && currentProject && (
+        <RevisionHistoryModal
+          project={currentProject}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {showAdvanced && (
         <AdvancedSettingsModal onClose={() => setShowAdvanced(false)} />
       )}
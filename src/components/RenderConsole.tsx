@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import type { DiagnosticSeverity, ScadDiagnostic } from '../worker/diagnostics';
+import { DIAGNOSTIC_SEVERITIES, DIAGNOSTIC_SEVERITY_LABELS } from '../worker/diagnostics';
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, { dot: string; text: string; active: string }> = {
+  error: { dot: 'bg-red-500', text: 'text-red-300', active: 'bg-red-700 text-white' },
+  warning: { dot: 'bg-yellow-500', text: 'text-yellow-200', active: 'bg-yellow-700 text-white' },
+  echo: { dot: 'bg-gray-500', text: 'text-gray-300', active: 'bg-gray-600 text-white' },
+};
+
+interface RenderConsoleProps {
+  diagnostics: ScadDiagnostic[];
+  onClose: () => void;
+}
+
+// OpenSCAD errors, warnings and echo output from the last preview render
+export function RenderConsole({ diagnostics, onClose }: RenderConsoleProps) {
+  const [shown, setShown] = useState<Set<DiagnosticSeverity>>(new Set(DIAGNOSTIC_SEVERITIES));
+
+  const toggleSeverity = (severity: DiagnosticSeverity) => {
+    setShown((prev) => {
+      const next = new Set(prev);
+      if (next.has(severity)) {
+        next.delete(severity);
+      } else {
+        next.add(severity);
+      }
+      return next;
+    });
+  };
+
+  const visible = diagnostics.filter((d) => shown.has(d.severity));
+
+  return (
+    <div className="w-80 bg-gray-800 border-l border-gray-700 flex flex-col flex-shrink-0">
+      {/* Header with severity filters */}
+      <div className="px-3 py-2 border-b border-gray-700 flex items-center gap-1">
+        <h3 className="text-sm font-medium text-gray-300 mr-auto">Console</h3>
+        {DIAGNOSTIC_SEVERITIES.map((severity) => {
+          const count = diagnostics.filter((d) => d.severity === severity).length;
+          return (
+            <button
+              key={severity}
+              onClick={() => toggleSeverity(severity)}
+              className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                shown.has(severity) ? SEVERITY_STYLES[severity].active : 'bg-gray-700 text-gray-500 hover:text-gray-300'
+              }`}
+              title={`${shown.has(severity) ? 'Hide' : 'Show'} ${DIAGNOSTIC_SEVERITY_LABELS[severity].toLowerCase()}`}
+            >
+              {DIAGNOSTIC_SEVERITY_LABELS[severity]} {count}
+            </button>
+          );
+        })}
+        <button
+          onClick={onClose}
+          className="ml-1 p-0.5 text-gray-400 hover:text-white"
+          title="Close console"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto font-mono text-xs">
+        {visible.length === 0 ? (
+          <div className="text-gray-500 text-center py-6 font-sans">
+            {diagnostics.length === 0 ? 'No output from the last render' : 'All messages are filtered out'}
+          </div>
+        ) : (
+          visible.map((diagnostic, index) => (
+            <div key={index} className="px-3 py-1.5 border-b border-gray-700/50 flex gap-2">
+              <span className={`w-2 h-2 mt-1 rounded-full flex-shrink-0 ${SEVERITY_STYLES[diagnostic.severity].dot}`} />
+              <div className="flex-1 min-w-0">
+                <div className={`break-words ${SEVERITY_STYLES[diagnostic.severity].text}`}>
+                  {diagnostic.message}
+                  {diagnostic.count > 1 && <span className="ml-1 text-gray-500">(x{diagnostic.count})</span>}
+                </div>
+                {diagnostic.file && (
+                  <div className="text-gray-500 truncate" title={diagnostic.file}>
+                    {diagnostic.file}{diagnostic.line !== undefined && `:${diagnostic.line}`}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
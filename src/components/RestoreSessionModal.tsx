@@ -0,0 +1,52 @@
+import type { AutosavedSession } from '../utils/autosave-db';
+
+interface RestoreSessionModalProps {
+  session: AutosavedSession;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+// Offered on startup when the last session ended with unsaved changes
+export function RestoreSessionModal({ session, onRestore, onDiscard }: RestoreSessionModalProps) {
+  const { config, project, savedAt } = session;
+  const deviceCount = config.devices.length + config.leftDevices.length + config.rightDevices.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[420px]">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">Restore unsaved work?</h2>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-2 text-sm text-gray-300">
+          <p>
+            Your last session{project ? <> on <span className="text-white">"{project.name}"</span></> : ''} has changes
+            that were not saved.
+          </p>
+          <p className="text-xs text-gray-500">
+            {config.rackU}U{config.isSplit ? ' split' : ''} rack · {deviceCount} device{deviceCount !== 1 ? 's' : ''} ·
+            autosaved {new Date(savedAt).toLocaleString()}
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+          <button
+            onClick={onDiscard}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-colors"
+          >
+            Discard
+          </button>
+          <button
+            onClick={onRestore}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors"
+          >
+            Restore
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useRackStore } from '../state/rack-store';
+import type { ProjectRef } from '../state/types';
+import { listRevisions } from '../utils/project-library-db';
+import type { ProjectRevision } from '../utils/project-library-db';
+import { diffConfigs, isEmptyDiff, getDiffDeviceName, formatSettingValue } from '../utils/config-diff';
+import type { ConfigDiff } from '../utils/config-diff';
+import { parseRackConfig } from '../utils/config-schema';
+
+interface RevisionHistoryModalProps {
+  project: ProjectRef;
+  onClose: () => void;
+  // Called after restoring or showing an overlay, so parent dialogs can close too
+  onDone?: () => void;
+}
+
+// Saved revisions of a project, diffed against the working config
+export function RevisionHistoryModal({ project, onClose, onDone }: RevisionHistoryModalProps) {
+  const { config, loadConfig, setComparison, setImportErrors } = useRackStore();
+  const [revisions, setRevisions] = useState<ProjectRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listRevisions(project.id)
+      .then((result) => {
+        setRevisions(result);
+        setSelectedId(result[0]?.id ?? null);
+      })
+      .catch((error) => console.error('Failed to load revisions:', error))
+      .finally(() => setIsLoading(false));
+  }, [project.id]);
+
+  const selectedRevision = revisions.find((r) => r.id === selectedId) ?? null;
+  const diff = useMemo(
+    () => (selectedRevision ? diffConfigs(selectedRevision.config, config) : null),
+    [selectedRevision, config]
+  );
+
+  const revisionLabel = (revision: ProjectRevision) =>
+    `Revision ${revisions.length - revisions.indexOf(revision)} (${new Date(revision.savedAt).toLocaleString()})`;
+
+  const handleShowOverlay = () => {
+    if (!selectedRevision) return;
+    setComparison({ config: selectedRevision.config, label: revisionLabel(selectedRevision) });
+    onClose();
+    onDone?.();
+  };
+
+  const handleRestore = () => {
+    if (!selectedRevision) return;
+    if (!window.confirm(`Restore ${revisionLabel(selectedRevision)}? The working layout is replaced; save afterwards to keep it as a new revision.`)) {
+      return;
+    }
+    // Revisions saved by older versions go through the same migrations as imports
+    const result = parseRackConfig(selectedRevision.config);
+    if (!result.ok) {
+      console.error(`Invalid configuration in ${revisionLabel(selectedRevision)}:`, result.errors);
+      setImportErrors(result.errors);
+      return;
+    }
+    loadConfig(result.config, project);
+    onClose();
+    onDone?.();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[760px] max-w-[95vw] h-[70vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white truncate">History: {project.name}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Revision list */}
+          <div className="w-64 border-r border-gray-700 overflow-y-auto">
+            {isLoading ? (
+              <div className="text-center text-gray-500 text-sm py-8">Loading...</div>
+            ) : revisions.length === 0 ? (
+              <div className="text-center text-gray-500 text-sm py-8 px-4">No saved revisions yet.</div>
+            ) : (
+              revisions.map((revision, i) => (
+                <div
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`px-4 py-2 cursor-pointer border-b border-gray-700/50 ${
+                    revision.id === selectedId ? 'bg-gray-700' : 'hover:bg-gray-700/50'
+                  }`}
+                >
+                  <div className="text-sm text-white">
+                    Revision {revisions.length - i}
+                    {i === 0 && <span className="ml-2 text-xs text-blue-400">latest</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(revision.savedAt).toLocaleString()} · {revision.deviceCount} device{revision.deviceCount !== 1 ? 's' : ''}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="flex-1 overflow-y-auto p-4">
+              {diff && (
+                <>
+                  <p className="text-xs text-gray-400 mb-3">Changes from this revision to the current layout</p>
+                  <ConfigDiffList diff={diff} />
+                </>
+              )}
+            </div>
+            {selectedRevision && (
+              <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+                <button
+                  onClick={handleShowOverlay}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-colors"
+                >
+                  Show Overlay
+                </button>
+                <button
+                  onClick={handleRestore}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors"
+                >
+                  Restore
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Added / removed / moved / changed devices and global settings
+function ConfigDiffList({ diff }: { diff: ConfigDiff }) {
+  if (isEmptyDiff(diff)) {
+    return <p className="text-sm text-gray-500">No changes.</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {diff.added.length > 0 && (
+        <DiffSection title="Added" color="text-green-400">
+          {diff.added.map((entry) => (
+            <li key={entry.device.id}>{getDiffDeviceName(entry)}</li>
+          ))}
+        </DiffSection>
+      )}
+      {diff.removed.length > 0 && (
+        <DiffSection title="Removed" color="text-red-400">
+          {diff.removed.map((entry) => (
+            <li key={entry.device.id}>{getDiffDeviceName(entry)}</li>
+          ))}
+        </DiffSection>
+      )}
+      {diff.moved.length > 0 && (
+        <DiffSection title="Moved" color="text-amber-400">
+          {diff.moved.map(({ before, after }) => (
+            <li key={after.device.id}>
+              {getDiffDeviceName(after)}
+              <span className="text-gray-500">
+                {' '}({before.device.offsetX.toFixed(1)}, {before.device.offsetY.toFixed(1)}) → ({after.device.offsetX.toFixed(1)}, {after.device.offsetY.toFixed(1)})
+                {before.side !== after.side && ` · ${before.side} → ${after.side}`}
+              </span>
+            </li>
+          ))}
+        </DiffSection>
+      )}
+      {diff.changed.length > 0 && (
+        <DiffSection title="Changed" color="text-cyan-400">
+          {diff.changed.map(({ after, fields }) => (
+            <li key={after.device.id}>
+              {getDiffDeviceName(after)}
+              <span className="text-gray-500"> ({fields.join(', ')})</span>
+            </li>
+          ))}
+        </DiffSection>
+      )}
+      {diff.settings.length > 0 && (
+        <DiffSection title="Settings" color="text-purple-400">
+          {diff.settings.map((change) => (
+            <li key={change.key}>
+              {change.label}
+              <span className="text-gray-500">
+                : {formatSettingValue(change.before)} → {formatSettingValue(change.after)}
+              </span>
+            </li>
+          ))}
+        </DiffSection>
+      )}
+    </div>
+  );
+}
+
+function DiffSection({ title, color, children }: { title: string; color: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h3 className={`text-xs font-medium uppercase mb-1 ${color}`}>{title}</h3>
+      <ul className="space-y-0.5 text-gray-300 text-xs">{children}</ul>
+    </div>
+  );
+}
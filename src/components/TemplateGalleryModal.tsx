@@ -0,0 +1,354 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useRackStore } from '../state/rack-store';
+import type { RackConfig } from '../state/types';
+import { TEMPLATES, getDefaultTemplateParams } from '../data/templates';
+import type { RackTemplate, TemplateParams } from '../data/templates';
+import {
+  listUserTemplates,
+  createUserTemplate,
+  deleteUserTemplate,
+  downloadTemplateFile,
+  parseTemplateFile,
+} from '../utils/template-db';
+import type { UserTemplate } from '../utils/template-db';
+import { renderRackThumbnail } from '../utils/rack-thumbnail';
+
+interface TemplateGalleryModalProps {
+  onClose: () => void;
+  onApplied?: (name: string) => void;
+}
+
+type GalleryTab = 'starter' | 'mine';
+
+// Browse starter templates and the user's own saved templates
+export function TemplateGalleryModal({ onClose, onApplied }: TemplateGalleryModalProps) {
+  const { config, loadConfig, setImportErrors } = useRackStore();
+  const [tab, setTab] = useState<GalleryTab>('starter');
+  const [selectedStarterId, setSelectedStarterId] = useState(TEMPLATES[0].id);
+  const [userTemplates, setUserTemplates] = useState<UserTemplate[]>([]);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [saveDescription, setSaveDescription] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Previews of the starter templates with their default parameters
+  const starterThumbnails = useMemo(
+    () => Object.fromEntries(TEMPLATES.map((t) => [t.id, renderRackThumbnail(t.build(getDefaultTemplateParams(t)))])),
+    []
+  );
+
+  useEffect(() => {
+    listUserTemplates()
+      .then(setUserTemplates)
+      .catch((error) => console.error('Failed to load templates:', error));
+  }, []);
+
+  const selectedStarter = TEMPLATES.find((t) => t.id === selectedStarterId) ?? TEMPLATES[0];
+  const selectedUser = userTemplates.find((t) => t.id === selectedUserId) ?? null;
+
+  const applyTemplate = (templateConfig: RackConfig, name: string) => {
+    const hasDevices = config.devices.length + config.leftDevices.length + config.rightDevices.length > 0;
+    if (hasDevices && !window.confirm(`Replace the current layout with "${name}"?`)) return;
+    loadConfig(structuredClone(templateConfig));
+    onApplied?.(name);
+    onClose();
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = saveName.trim();
+    if (!name) return;
+    try {
+      const template = await createUserTemplate(config, name, saveDescription.trim());
+      setUserTemplates((prev) => [template, ...prev]);
+      setSelectedUserId(template.id);
+      setShowSaveForm(false);
+      setSaveName('');
+      setSaveDescription('');
+    } catch (error) {
+      console.error('Failed to save template:', error);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: UserTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+    try {
+      await deleteUserTemplate(template.id);
+      setUserTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      setSelectedUserId(null);
+    } catch (error) {
+      console.error('Failed to delete template:', error);
+    }
+  };
+
+  const handleImportTemplate = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      const result = parseTemplateFile(e.target?.result as string);
+      if (!result.ok) {
+        console.error('Invalid template file:', result.errors);
+        setImportErrors(result.errors);
+        return;
+      }
+      try {
+        const template = await createUserTemplate(result.config, result.name, result.description);
+        setUserTemplates((prev) => [template, ...prev]);
+        setSelectedUserId(template.id);
+      } catch (error) {
+        console.error('Failed to import template:', error);
+      }
+    };
+    reader.readAsText(file);
+
+    // Reset input so the same file can be imported again
+    event.target.value = '';
+  };
+
+  const tabClass = (value: GalleryTab) =>
+    `px-3 py-1 text-sm rounded transition-colors ${
+      tab === value ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[900px] max-w-[95vw] h-[75vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <div className="flex items-center gap-4">
+            <h2 className="text-lg font-semibold text-white">Templates</h2>
+            <div className="flex gap-1 bg-gray-900 rounded p-1">
+              <button onClick={() => setTab('starter')} className={tabClass('starter')}>
+                Starter
+              </button>
+              <button onClick={() => setTab('mine')} className={tabClass('mine')}>
+                My Templates{userTemplates.length > 0 ? ` (${userTemplates.length})` : ''}
+              </button>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Template grid */}
+          <div className="flex-1 overflow-y-auto p-4">
+            {tab === 'starter' ? (
+              <div className="grid grid-cols-2 gap-3">
+                {TEMPLATES.map((template) => (
+                  <TemplateCard
+                    key={template.id}
+                    name={template.name}
+                    subtitle={template.description}
+                    thumbnail={starterThumbnails[template.id]}
+                    isSelected={template.id === selectedStarter.id}
+                    onClick={() => setSelectedStarterId(template.id)}
+                  />
+                ))}
+              </div>
+            ) : (
+              <>
+                <div className="flex gap-2 mb-3">
+                  <button
+                    onClick={() => setShowSaveForm(!showSaveForm)}
+                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded transition-colors"
+                  >
+                    Save Current as Template
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json"
+                    onChange={handleImportTemplate}
+                    className="hidden"
+                  />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded transition-colors"
+                  >
+                    Import...
+                  </button>
+                </div>
+
+                {showSaveForm && (
+                  <div className="mb-3 p-3 bg-gray-900 rounded space-y-2">
+                    <input
+                      type="text"
+                      value={saveName}
+                      onChange={(e) => setSaveName(e.target.value)}
+                      placeholder="Template name"
+                      autoFocus
+                      className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+                    />
+                    <input
+                      type="text"
+                      value={saveDescription}
+                      onChange={(e) => setSaveDescription(e.target.value)}
+                      placeholder="Description (optional)"
+                      className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+                    />
+                    <div className="flex justify-end">
+                      <button
+                        onClick={handleSaveTemplate}
+                        disabled={!saveName.trim()}
+                        className="px-3 py-1 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 text-white text-sm rounded transition-colors"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {userTemplates.length === 0 ? (
+                  <div className="text-center text-gray-500 text-sm py-8">
+                    No templates yet. Save the current rack or import a template file from your team.
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-3">
+                    {userTemplates.map((template) => (
+                      <TemplateCard
+                        key={template.id}
+                        name={template.name}
+                        subtitle={template.description || `${template.config.rackU}U`}
+                        thumbnail={template.thumbnail}
+                        isSelected={template.id === selectedUserId}
+                        onClick={() => setSelectedUserId(template.id)}
+                      />
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Details */}
+          <div className="w-72 border-l border-gray-700 p-4 overflow-y-auto flex flex-col gap-3">
+            {tab === 'starter' ? (
+              <StarterTemplateDetails
+                key={selectedStarter.id}
+                template={selectedStarter}
+                onApply={(templateConfig) => applyTemplate(templateConfig, selectedStarter.name)}
+              />
+            ) : selectedUser ? (
+              <>
+                <img src={selectedUser.thumbnail} alt="" className="w-full rounded bg-gray-900" />
+                <div>
+                  <h3 className="text-sm font-medium text-white">{selectedUser.name}</h3>
+                  {selectedUser.description && (
+                    <p className="text-xs text-gray-400 mt-1">{selectedUser.description}</p>
+                  )}
+                </div>
+                <div className="mt-auto flex flex-col gap-2">
+                  <button
+                    onClick={() => applyTemplate(selectedUser.config, selectedUser.name)}
+                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded transition-colors"
+                  >
+                    Use Template
+                  </button>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => downloadTemplateFile(selectedUser)}
+                      className="flex-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded transition-colors"
+                    >
+                      Export
+                    </button>
+                    <button
+                      onClick={() => handleDeleteTemplate(selectedUser)}
+                      className="flex-1 px-3 py-1.5 bg-gray-700 hover:bg-red-600 text-gray-300 hover:text-white text-sm rounded transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Select a template to see its details.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface TemplateCardProps {
+  name: string;
+  subtitle: string;
+  thumbnail: string;
+  isSelected: boolean;
+  onClick: () => void;
+}
+
+function TemplateCard({ name, subtitle, thumbnail, isSelected, onClick }: TemplateCardProps) {
+  return (
+    <div
+      onClick={onClick}
+      className={`rounded border cursor-pointer overflow-hidden transition-colors ${
+        isSelected ? 'border-blue-500 bg-gray-700' : 'border-gray-700 hover:border-gray-500 bg-gray-900'
+      }`}
+    >
+      <div className="p-2 bg-gray-900 flex items-center justify-center h-20">
+        <img src={thumbnail} alt="" className="max-h-full max-w-full" />
+      </div>
+      <div className="p-2">
+        <div className="text-sm font-medium text-white truncate">{name}</div>
+        <div className="text-xs text-gray-500 line-clamp-2">{subtitle}</div>
+      </div>
+    </div>
+  );
+}
+
+interface StarterTemplateDetailsProps {
+  template: RackTemplate;
+  onApply: (config: RackConfig) => void;
+}
+
+// Parameter controls with a live preview of the built template
+function StarterTemplateDetails({ template, onApply }: StarterTemplateDetailsProps) {
+  const [params, setParams] = useState<TemplateParams>(() => getDefaultTemplateParams(template));
+  const builtConfig = useMemo(() => template.build(params), [template, params]);
+  const thumbnail = useMemo(() => renderRackThumbnail(builtConfig), [builtConfig]);
+
+  return (
+    <>
+      <img src={thumbnail} alt="" className="w-full rounded bg-gray-900" />
+      <div>
+        <h3 className="text-sm font-medium text-white">{template.name}</h3>
+        <p className="text-xs text-gray-400 mt-1">{template.description}</p>
+      </div>
+
+      {template.parameters.map((parameter) => (
+        <div key={parameter.key}>
+          <label className="flex justify-between text-xs text-gray-400 mb-1">
+            <span>{parameter.label}</span>
+            <span className="text-white">{params[parameter.key]}</span>
+          </label>
+          <input
+            type="range"
+            min={parameter.min}
+            max={parameter.max}
+            step={1}
+            value={params[parameter.key]}
+            onChange={(e) => setParams({ ...params, [parameter.key]: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+      ))}
+
+      <button
+        onClick={() => onApply(builtConfig)}
+        className="mt-auto px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded transition-colors"
+      >
+        Use Template
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,330 @@
+import { useState } from 'react';
+import { useRackStore } from '../state/rack-store';
+import type { MountType } from '../state/types';
+import { MOUNT_TYPE_LABELS } from '../state/types';
+import type { RackDevice, DeviceCategory, FrontFeature, FrontFeatureKind, FrontFeatureShape } from '../data/devices';
+import {
+  CATEGORY_LABELS,
+  FRONT_FEATURE_KIND_LABELS,
+  FRONT_FEATURE_SHAPE_LABELS,
+  getAllCategories,
+} from '../data/devices';
+import { saveUserDevice } from '../utils/user-devices-db';
+import type { UserDeviceDetails } from '../utils/user-devices-db';
+
+interface UserDeviceModalProps {
+  // Device being edited; a new device is created when omitted
+  device?: RackDevice;
+  // Prefilled values for a new device (e.g. from the custom device form)
+  initial?: Partial<UserDeviceDetails>;
+  onClose: () => void;
+  onSaved?: (device: RackDevice) => void;
+}
+
+// Create or edit an entry in the "My Devices" catalog
+export function UserDeviceModal({ device, initial, onClose, onSaved }: UserDeviceModalProps) {
+  const { userDevices, setUserDevices } = useRackStore();
+  const source = device ?? initial;
+  const [name, setName] = useState(source?.name ?? '');
+  const [category, setCategory] = useState<DeviceCategory>(source?.category ?? 'mini_pc');
+  const [width, setWidth] = useState(source?.width ?? 100);
+  const [height, setHeight] = useState(source?.height ?? 40);
+  const [depth, setDepth] = useState(source?.depth ?? 100);
+  const [mountTypes, setMountTypes] = useState<MountType[]>(source?.allowedMountTypes ?? []);
+  const [notes, setNotes] = useState(source?.notes ?? '');
+  const [weight, setWeight] = useState(source?.weight !== undefined ? String(source.weight) : '');
+  const [power, setPower] = useState(source?.power !== undefined ? String(source.power) : '');
+  const [powerCapacity, setPowerCapacity] = useState(source?.powerCapacity !== undefined ? String(source.powerCapacity) : '');
+  const [frontFeatures, setFrontFeatures] = useState<FrontFeature[]>(source?.frontFeatures ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleMountType = (mountType: MountType) => {
+    setMountTypes((prev) =>
+      prev.includes(mountType) ? prev.filter((m) => m !== mountType) : [...prev, mountType]
+    );
+  };
+
+  const addFrontFeature = () => {
+    setFrontFeatures((prev) => [...prev, { kind: 'port', shape: 'rect', x: 0, y: 0, width: 12, height: 8 }]);
+  };
+
+  const updateFrontFeature = (index: number, changes: Partial<FrontFeature>) => {
+    setFrontFeatures((prev) => prev.map((f, i) => (i === index ? { ...f, ...changes } : f)));
+  };
+
+  const removeFrontFeature = (index: number) => {
+    setFrontFeatures((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  // Blank optional number fields are stored as unknown
+  const parseOptional = (value: string): number | undefined => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : Math.max(0, parsed);
+  };
+
+  const handleSave = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError('Enter a name for the device');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const details: UserDeviceDetails = {
+        name: trimmedName,
+        category,
+        width,
+        height,
+        depth,
+        weight: parseOptional(weight),
+        power: parseOptional(power),
+        powerCapacity: category === 'power' ? parseOptional(powerCapacity) : undefined,
+        // Keep the catalog order of mount types; an empty selection allows all of them
+        allowedMountTypes: mountTypes.length > 0
+          ? (Object.keys(MOUNT_TYPE_LABELS) as MountType[]).filter((m) => mountTypes.includes(m))
+          : undefined,
+        notes: notes.trim() || undefined,
+        frontFeatures: frontFeatures.length > 0 ? frontFeatures : undefined,
+      };
+      const saved = await saveUserDevice(details, device?.id);
+      const others = userDevices.filter((d) => d.id !== saved.id);
+      setUserDevices([...others, saved].sort((a, b) => a.name.localeCompare(b.name)));
+      onSaved?.(saved);
+      onClose();
+    } catch (e) {
+      console.error('Failed to save device:', e);
+      setError('Could not save the device');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[460px] max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">{device ? 'Edit Device' : 'New Device'}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              placeholder="e.g. Home Assistant Yellow"
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Category</label>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as DeviceCategory)}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+            >
+              {getAllCategories().map((c) => (
+                <option key={c} value={c}>
+                  {CATEGORY_LABELS[c]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Width (mm)</label>
+              <input
+                type="number"
+                value={width}
+                onChange={(e) => setWidth(Math.max(1, parseFloat(e.target.value) || 1))}
+                className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:border-blue-500"
+                min="1"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Height (mm)</label>
+              <input
+                type="number"
+                value={height}
+                onChange={(e) => setHeight(Math.max(1, parseFloat(e.target.value) || 1))}
+                className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:border-blue-500"
+                min="1"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Depth (mm)</label>
+              <input
+                type="number"
+                value={depth}
+                onChange={(e) => setDepth(Math.max(1, parseFloat(e.target.value) || 1))}
+                className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:border-blue-500"
+                min="1"
+              />
+            </div>
+          </div>
+          <div className={`grid gap-2 ${category === 'power' ? 'grid-cols-3' : 'grid-cols-2'}`}>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Weight (g)</label>
+              <input
+                type="number"
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                placeholder="unknown"
+                className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:border-blue-500"
+                min="0"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Power draw (W)</label>
+              <input
+                type="number"
+                value={power}
+                onChange={(e) => setPower(e.target.value)}
+                placeholder="unknown"
+                className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:border-blue-500"
+                min="0"
+              />
+            </div>
+            {category === 'power' && (
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Capacity (W)</label>
+                <input
+                  type="number"
+                  value={powerCapacity}
+                  onChange={(e) => setPowerCapacity(e.target.value)}
+                  placeholder="UPS output"
+                  className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:border-blue-500"
+                  min="0"
+                />
+              </div>
+            )}
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Allowed mount types (none checked allows all)</label>
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+              {(Object.keys(MOUNT_TYPE_LABELS) as MountType[]).map((mountType) => (
+                <label key={mountType} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={mountTypes.includes(mountType)}
+                    onChange={() => toggleMountType(mountType)}
+                    className="rounded"
+                  />
+                  {MOUNT_TYPE_LABELS[mountType]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-xs text-gray-400">Front features (from face center, mm)</label>
+              <button
+                onClick={addFrontFeature}
+                className="text-xs text-blue-400 hover:text-blue-300"
+              >
+                + Add
+              </button>
+            </div>
+            {frontFeatures.length === 0 ? (
+              <p className="text-xs text-gray-500">None. Ports, LEDs and buttons can be cut as a bezel instead of the full rectangle.</p>
+            ) : (
+              <div className="space-y-2">
+                {frontFeatures.map((feature, i) => (
+                  <div key={i} className="p-2 bg-gray-900 rounded space-y-1">
+                    <div className="flex gap-1">
+                      <select
+                        value={feature.kind}
+                        onChange={(e) => updateFrontFeature(i, { kind: e.target.value as FrontFeatureKind })}
+                        className="flex-1 px-1 py-1 bg-gray-700 border border-gray-600 rounded text-white text-xs"
+                      >
+                        {(Object.keys(FRONT_FEATURE_KIND_LABELS) as FrontFeatureKind[]).map((kind) => (
+                          <option key={kind} value={kind}>{FRONT_FEATURE_KIND_LABELS[kind]}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={feature.shape}
+                        onChange={(e) => updateFrontFeature(i, { shape: e.target.value as FrontFeatureShape })}
+                        className="flex-1 px-1 py-1 bg-gray-700 border border-gray-600 rounded text-white text-xs"
+                      >
+                        {(Object.keys(FRONT_FEATURE_SHAPE_LABELS) as FrontFeatureShape[]).map((shape) => (
+                          <option key={shape} value={shape}>{FRONT_FEATURE_SHAPE_LABELS[shape]}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => removeFrontFeature(i)}
+                        className="px-1 text-gray-400 hover:text-red-400"
+                        title="Remove feature"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-4 gap-1">
+                      {(['x', 'y', 'width', 'height'] as const).map((key) => (
+                        <label key={key} className="text-[10px] text-gray-500">
+                          {key === 'width' && feature.shape === 'circle' ? 'diameter' : key}
+                          <input
+                            type="number"
+                            value={feature[key]}
+                            disabled={key === 'height' && feature.shape === 'circle'}
+                            onChange={(e) => {
+                              const value = parseFloat(e.target.value) || 0;
+                              updateFrontFeature(i, { [key]: key === 'x' || key === 'y' ? value : Math.max(0.5, value) });
+                            }}
+                            className="w-full px-1 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs text-white disabled:opacity-50 focus:outline-none focus:border-blue-500"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              placeholder="Where it was measured, port side, PSU..."
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500 resize-none"
+            />
+          </div>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 text-white rounded transition-colors"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
-// Device database extracted from OpenSCAD components/devices.scad
-// Format: id, dimensions [width, height, depth] in mm, display name, category
+// Device database - the source of truth for device dimensions
+// The DEVICES table in components/devices.scad is generated from this catalog
+// at render time (see utils/scad-device-table.ts)
+// Format: id, dimensions [width, height, depth] in mm, display name, category,
+// weight (g) and typical power draw (W) for the load budget
 
-import type { MountType } from '../state/types';
+import type { MountType, DriveSize, PlacedDevice } from '../state/types';
 
 export interface RackDevice {
   id: string;
@@ -10,9 +13,43 @@ export interface RackDevice {
   width: number;   // mm
   height: number;  // mm
   depth: number;   // mm
+  weight?: number;         // g
+  power?: number;          // Typical power draw (W)
+  powerCapacity?: number;  // Output a UPS can supply (W)
   allowedMountTypes?: MountType[];  // If specified, only these mount types are allowed
+  notes?: string;                   // User and pack devices only
+  frontFeatures?: FrontFeature[];   // Ports, LEDs and buttons on the front face (for bezel cutouts)
+  userDefined?: boolean;            // From the "My Devices" catalog (IndexedDB)
+  packId?: string;                  // From an imported device pack (IndexedDB)
 }
 
+// Opening in a device's front face, positioned from the face center
+// (x to the right, y up, mm). Circles use width as their diameter.
+export interface FrontFeature {
+  kind: FrontFeatureKind;
+  shape: FrontFeatureShape;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label?: string;
+}
+
+export type FrontFeatureKind = 'port' | 'led' | 'button';
+export type FrontFeatureShape = 'rect' | 'rounded' | 'circle';
+
+export const FRONT_FEATURE_KIND_LABELS: Record<FrontFeatureKind, string> = {
+  port: 'Port',
+  led: 'LED Window',
+  button: 'Button',
+};
+
+export const FRONT_FEATURE_SHAPE_LABELS: Record<FrontFeatureShape, string> = {
+  rect: 'Rectangle',
+  rounded: 'Rounded',
+  circle: 'Circle',
+};
+
 export type DeviceCategory =
   | 'accessories'
   | 'mini_pc'
@@ -38,85 +75,179 @@ export const CATEGORY_LABELS: Record<DeviceCategory, string> = {
 
 export const DEVICES: RackDevice[] = [
   // Rack Accessories
-  { id: 'patch_panel', name: 'Keystone Patch Panel', category: 'accessories', width: 114, height: 30, depth: 15 },
+  { id: 'patch_panel', name: 'Keystone Patch Panel', category: 'accessories', width: 114, height: 30, depth: 15, weight: 150, power: 0 },
 
   // Mini PCs / NUCs
-  { id: 'minisforum_um890', name: 'Minisforum UM890 Pro', category: 'mini_pc', width: 128, height: 52, depth: 126 },
-  { id: 'minisforum_um780', name: 'Minisforum UM780 XTX', category: 'mini_pc', width: 127, height: 47, depth: 128 },
-  { id: 'minisforum_ms01', name: 'Minisforum MS-01', category: 'mini_pc', width: 196, height: 35, depth: 188 },
-  { id: 'intel_nuc_11', name: 'Intel NUC 11', category: 'mini_pc', width: 117, height: 37, depth: 112 },
-  { id: 'intel_nuc_12', name: 'Intel NUC 12', category: 'mini_pc', width: 117, height: 37, depth: 112 },
-  { id: 'beelink_ser5', name: 'Beelink SER5', category: 'mini_pc', width: 126, height: 42, depth: 113 },
-  { id: 'beelink_eq12', name: 'Beelink EQ12', category: 'mini_pc', width: 115, height: 42, depth: 102 },
-  { id: 'geekom_mini_it13', name: 'GEEKOM Mini IT13', category: 'mini_pc', width: 117, height: 37, depth: 112 },
+  { id: 'minisforum_um890', name: 'Minisforum UM890 Pro', category: 'mini_pc', width: 128, height: 52, depth: 126, weight: 660, power: 35 },
+  { id: 'minisforum_um780', name: 'Minisforum UM780 XTX', category: 'mini_pc', width: 127, height: 47, depth: 128, weight: 660, power: 30 },
+  { id: 'minisforum_ms01', name: 'Minisforum MS-01', category: 'mini_pc', width: 196, height: 35, depth: 188, weight: 1200, power: 45 },
+  { id: 'intel_nuc_11', name: 'Intel NUC 11', category: 'mini_pc', width: 117, height: 37, depth: 112, weight: 500, power: 25 },
+  { id: 'intel_nuc_12', name: 'Intel NUC 12', category: 'mini_pc', width: 117, height: 37, depth: 112, weight: 500, power: 25 },
+  { id: 'beelink_ser5', name: 'Beelink SER5', category: 'mini_pc', width: 126, height: 42, depth: 113, weight: 450, power: 20 },
+  { id: 'beelink_eq12', name: 'Beelink EQ12', category: 'mini_pc', width: 115, height: 42, depth: 102, weight: 380, power: 10 },
+  { id: 'geekom_mini_it13', name: 'GEEKOM Mini IT13', category: 'mini_pc', width: 117, height: 37, depth: 112, weight: 560, power: 25 },
 
   // Network Equipment - Ubiquiti
-  { id: 'ucg_fiber', name: 'Ubiquiti UCG-Fiber', category: 'network', width: 213, height: 30, depth: 128 },
-  { id: 'ucg_ultra', name: 'Ubiquiti UCG-Ultra', category: 'network', width: 134, height: 34, depth: 106 },
-  { id: 'udm_se', name: 'Ubiquiti Dream Machine SE', category: 'network', width: 442, height: 43, depth: 312 },
-  { id: 'usw_flex_mini', name: 'Ubiquiti USW-Flex-Mini', category: 'network', width: 109, height: 26, depth: 81 },
-  { id: 'usw_lite_8_poe', name: 'Ubiquiti USW-Lite-8-PoE', category: 'network', width: 200, height: 32, depth: 115 },
-  { id: 'usw_lite_16_poe', name: 'Ubiquiti USW-Lite-16-PoE', category: 'network', width: 296, height: 32, depth: 174 },
-  { id: 'uap_ac_lite', name: 'Ubiquiti UAP-AC-Lite', category: 'network', width: 160, height: 31, depth: 160 },
+  { id: 'ucg_fiber', name: 'Ubiquiti UCG-Fiber', category: 'network', width: 213, height: 30, depth: 128, weight: 650, power: 15 },
+  { id: 'ucg_ultra', name: 'Ubiquiti UCG-Ultra', category: 'network', width: 134, height: 34, depth: 106, weight: 300, power: 6 },
+  { id: 'udm', name: 'Ubiquiti Dream Machine', category: 'network', width: 184, height: 110, depth: 110, weight: 1180, power: 12 },
+  { id: 'udm_se', name: 'Ubiquiti Dream Machine SE', category: 'network', width: 442, height: 43, depth: 312, weight: 4000, power: 35 },
+  { id: 'usw_flex_mini', name: 'Ubiquiti USW-Flex-Mini', category: 'network', width: 109, height: 26, depth: 81, weight: 115, power: 3 },
+  { id: 'usw_lite_8_poe', name: 'Ubiquiti USW-Lite-8-PoE', category: 'network', width: 200, height: 32, depth: 115, weight: 500, power: 10 },
+  { id: 'usw_lite_16_poe', name: 'Ubiquiti USW-Lite-16-PoE', category: 'network', width: 296, height: 32, depth: 174, weight: 1150, power: 15 },
+  { id: 'uap_ac_lite', name: 'Ubiquiti UAP-AC-Lite', category: 'network', width: 160, height: 31, depth: 160, weight: 170, power: 6.5 },
 
   // Network Equipment - Other
-  { id: 'mikrotik_hex', name: 'MikroTik hEX', category: 'network', width: 113, height: 29, depth: 89 },
-  { id: 'mikrotik_rb5009', name: 'MikroTik RB5009UG+S+IN', category: 'network', width: 220, height: 30, depth: 145 },
-  { id: 'tp_link_er605', name: 'TP-Link ER605', category: 'network', width: 158, height: 25, depth: 101 },
-  { id: 'netgear_gs108', name: 'Netgear GS108', category: 'network', width: 158, height: 27, depth: 101 },
+  { id: 'mikrotik_hex', name: 'MikroTik hEX', category: 'network', width: 113, height: 29, depth: 89, weight: 150, power: 5 },
+  { id: 'mikrotik_rb5009', name: 'MikroTik RB5009UG+S+IN', category: 'network', width: 220, height: 30, depth: 145, weight: 500, power: 10 },
+  { id: 'tp_link_er605', name: 'TP-Link ER605', category: 'network', width: 158, height: 25, depth: 101, weight: 400, power: 6 },
+  { id: 'netgear_gs108', name: 'Netgear GS108', category: 'network', width: 158, height: 27, depth: 101, weight: 300, power: 3 },
 
   // KVM / Remote Management
-  { id: 'jetkvm', name: 'JetKVM', category: 'kvm', width: 43, height: 31, depth: 60 },
-  { id: 'pikvm_v4_plus', name: 'PiKVM V4 Plus', category: 'kvm', width: 91, height: 37, depth: 63 },
-  { id: 'pikvm_v4_mini', name: 'PiKVM V4 Mini', category: 'kvm', width: 68, height: 23, depth: 68 },
-  { id: 'tinypilot_voyager2', name: 'TinyPilot Voyager 2', category: 'kvm', width: 83, height: 30, depth: 85 },
+  { id: 'jetkvm', name: 'JetKVM', category: 'kvm', width: 43, height: 31, depth: 60, weight: 80, power: 3 },
+  { id: 'pikvm_v4_plus', name: 'PiKVM V4 Plus', category: 'kvm', width: 91, height: 37, depth: 63, weight: 450, power: 8 },
+  { id: 'pikvm_v4_mini', name: 'PiKVM V4 Mini', category: 'kvm', width: 68, height: 23, depth: 68, weight: 200, power: 5 },
+  { id: 'tinypilot_voyager2', name: 'TinyPilot Voyager 2', category: 'kvm', width: 83, height: 30, depth: 85, weight: 300, power: 6 },
 
   // Smart Home Controllers
-  { id: 'lutron_caseta', name: 'Lutron Caseta Smart Bridge', category: 'smart_home', width: 70, height: 31, depth: 70 },
-  { id: 'lutron_ra2_select', name: 'Lutron RA2 Select Main Repeater', category: 'smart_home', width: 105, height: 34, depth: 105 },
-  { id: 'hue_bridge', name: 'Philips Hue Bridge', category: 'smart_home', width: 88, height: 26, depth: 88 },
-  { id: 'homey_pro', name: 'Homey Pro', category: 'smart_home', width: 110, height: 46, depth: 110 },
-  { id: 'hubitat_c8', name: 'Hubitat Elevation C-8', category: 'smart_home', width: 130, height: 28, depth: 130 },
-  { id: 'home_assistant_yellow', name: 'Home Assistant Yellow', category: 'smart_home', width: 125, height: 37, depth: 125 },
-  { id: 'home_assistant_green', name: 'Home Assistant Green', category: 'smart_home', width: 112, height: 29, depth: 112 },
+  { id: 'lutron_caseta', name: 'Lutron Caseta Smart Bridge', category: 'smart_home', width: 70, height: 31, depth: 70, weight: 80, power: 2 },
+  { id: 'lutron_ra2_select', name: 'Lutron RA2 Select Main Repeater', category: 'smart_home', width: 105, height: 34, depth: 105, weight: 200, power: 3 },
+  { id: 'hue_bridge', name: 'Philips Hue Bridge', category: 'smart_home', width: 88, height: 26, depth: 88, weight: 120, power: 2 },
+  { id: 'homey_pro', name: 'Homey Pro', category: 'smart_home', width: 110, height: 46, depth: 110, weight: 230, power: 5 },
+  { id: 'hubitat_c8', name: 'Hubitat Elevation C-8', category: 'smart_home', width: 130, height: 28, depth: 130, weight: 150, power: 3 },
+  { id: 'home_assistant_yellow', name: 'Home Assistant Yellow', category: 'smart_home', width: 125, height: 37, depth: 125, weight: 500, power: 6 },
+  { id: 'home_assistant_green', name: 'Home Assistant Green', category: 'smart_home', width: 112, height: 29, depth: 112, weight: 300, power: 3 },
 
   // Zigbee / Z-Wave Coordinators (passthrough only - these are small USB-style devices)
-  { id: 'slzb_06', name: 'SLZB-06 Zigbee', category: 'coordinator', width: 23.4, height: 20, depth: 90, allowedMountTypes: ['passthrough', 'none'] },
-  { id: 'slzb_06m', name: 'SLZB-06M Zigbee', category: 'coordinator', width: 35, height: 25, depth: 70, allowedMountTypes: ['passthrough', 'none'] },
-  { id: 'sonoff_zbdongle_p', name: 'Sonoff ZBDongle-P', category: 'coordinator', width: 25, height: 15, depth: 80, allowedMountTypes: ['passthrough', 'none'] },
-  { id: 'sonoff_zbdongle_e', name: 'Sonoff ZBDongle-E', category: 'coordinator', width: 26, height: 13, depth: 80, allowedMountTypes: ['passthrough', 'none'] },
-  { id: 'conbee_ii', name: 'ConBee II', category: 'coordinator', width: 22, height: 6, depth: 70, allowedMountTypes: ['passthrough', 'none'] },
-  { id: 'skyconnect', name: 'Home Assistant SkyConnect', category: 'coordinator', width: 22, height: 8, depth: 45, allowedMountTypes: ['passthrough', 'none'] },
-  { id: 'zooz_zst10', name: 'Zooz ZST10 Z-Wave', category: 'coordinator', width: 20, height: 9, depth: 50, allowedMountTypes: ['passthrough', 'none'] },
+  { id: 'slzb_06', name: 'SLZB-06 Zigbee', category: 'coordinator', width: 23.4, height: 20, depth: 90, weight: 50, power: 2, allowedMountTypes: ['passthrough', 'none'] },
+  { id: 'slzb_06m', name: 'SLZB-06M Zigbee', category: 'coordinator', width: 35, height: 25, depth: 70, weight: 45, power: 2, allowedMountTypes: ['passthrough', 'none'] },
+  { id: 'sonoff_zbdongle_p', name: 'Sonoff ZBDongle-P', category: 'coordinator', width: 25, height: 15, depth: 80, weight: 25, power: 0.5, allowedMountTypes: ['passthrough', 'none'] },
+  { id: 'sonoff_zbdongle_e', name: 'Sonoff ZBDongle-E', category: 'coordinator', width: 26, height: 13, depth: 80, weight: 25, power: 0.5, allowedMountTypes: ['passthrough', 'none'] },
+  { id: 'conbee_ii', name: 'ConBee II', category: 'coordinator', width: 22, height: 6, depth: 70, weight: 10, power: 0.3, allowedMountTypes: ['passthrough', 'none'] },
+  { id: 'skyconnect', name: 'Home Assistant SkyConnect', category: 'coordinator', width: 22, height: 8, depth: 45, weight: 15, power: 0.3, allowedMountTypes: ['passthrough', 'none'] },
+  { id: 'zooz_zst10', name: 'Zooz ZST10 Z-Wave', category: 'coordinator', width: 20, height: 9, depth: 50, weight: 10, power: 0.3, allowedMountTypes: ['passthrough', 'none'] },
 
   // Single Board Computers
-  { id: 'raspberry_pi_5', name: 'Raspberry Pi 5', category: 'sbc', width: 85, height: 17, depth: 56 },
-  { id: 'raspberry_pi_5_case', name: 'Raspberry Pi 5 (Case Mount)', category: 'sbc', width: 93, height: 64, depth: 35, allowedMountTypes: ['pi5_case', 'none'] },
-  { id: 'raspberry_pi_4', name: 'Raspberry Pi 4', category: 'sbc', width: 85, height: 17, depth: 56 },
-  { id: 'raspberry_pi_zero_2w', name: 'Raspberry Pi Zero 2 W', category: 'sbc', width: 65, height: 5, depth: 30 },
-  { id: 'orange_pi_5', name: 'Orange Pi 5', category: 'sbc', width: 100, height: 17, depth: 62 },
-  { id: 'odroid_h3_plus', name: 'ODROID-H3+', category: 'sbc', width: 110, height: 39, depth: 110 },
-  { id: 'rock_5b', name: 'Rock 5B', category: 'sbc', width: 100, height: 17, depth: 72 },
-
-  // Storage / NAS
-  { id: 'synology_ds220j', name: 'Synology DS220j', category: 'storage', width: 165, height: 108, depth: 225 },
-  { id: 'synology_ds223', name: 'Synology DS223', category: 'storage', width: 165, height: 108, depth: 225 },
-  { id: 'qnap_ts_233', name: 'QNAP TS-233', category: 'storage', width: 90, height: 169, depth: 156 },
-  { id: 'terramaster_f2_223', name: 'TerraMaster F2-223', category: 'storage', width: 119, height: 133, depth: 227 },
-
-  // Power / UPS
-  { id: 'apc_be425m', name: 'APC BE425M UPS', category: 'power', width: 116, height: 55, depth: 220 },
-  { id: 'cyberpower_cp425slg', name: 'CyberPower CP425SLG', category: 'power', width: 99, height: 87, depth: 261 },
-  { id: 'eaton_3s_550', name: 'Eaton 3S 550VA', category: 'power', width: 100, height: 90, depth: 280 },
+  { id: 'raspberry_pi_5', name: 'Raspberry Pi 5', category: 'sbc', width: 85, height: 17, depth: 56, weight: 50, power: 5 },
+  { id: 'raspberry_pi_5_case', name: 'Raspberry Pi 5 (Case Mount)', category: 'sbc', width: 93, height: 64, depth: 35, weight: 150, power: 6, allowedMountTypes: ['pi5_case', 'none'] },
+  { id: 'raspberry_pi_4', name: 'Raspberry Pi 4', category: 'sbc', width: 85, height: 17, depth: 56, weight: 46, power: 4 },
+  { id: 'raspberry_pi_zero_2w', name: 'Raspberry Pi Zero 2 W', category: 'sbc', width: 65, height: 5, depth: 30, weight: 11, power: 1.5 },
+  { id: 'orange_pi_5', name: 'Orange Pi 5', category: 'sbc', width: 100, height: 17, depth: 62, weight: 60, power: 6 },
+  { id: 'odroid_h3_plus', name: 'ODROID-H3+', category: 'sbc', width: 110, height: 39, depth: 110, weight: 300, power: 15 },
+  { id: 'rock_5b', name: 'Rock 5B', category: 'sbc', width: 100, height: 17, depth: 72, weight: 60, power: 8 },
+
+  // Storage / NAS (weight and power with two 3.5" drives)
+  { id: 'synology_ds220j', name: 'Synology DS220j', category: 'storage', width: 165, height: 108, depth: 225, weight: 2200, power: 16 },
+  { id: 'synology_ds223', name: 'Synology DS223', category: 'storage', width: 165, height: 108, depth: 225, weight: 2600, power: 17 },
+  { id: 'qnap_ts_233', name: 'QNAP TS-233', category: 'storage', width: 90, height: 169, depth: 156, weight: 2300, power: 14 },
+  { id: 'terramaster_f2_223', name: 'TerraMaster F2-223', category: 'storage', width: 119, height: 133, depth: 227, weight: 2700, power: 20 },
+  { id: 'drive_sled', name: 'Drive Sled', category: 'storage', width: 101.6, height: 26.1, depth: 147, weight: 650, power: 7, allowedMountTypes: ['drive_sled', 'none'] },
+
+  // Power / UPS (their own draw comes from the wall, not their output)
+  { id: 'apc_be425m', name: 'APC BE425M UPS', category: 'power', width: 116, height: 55, depth: 220, weight: 3200, power: 0, powerCapacity: 255 },
+  { id: 'cyberpower_cp425slg', name: 'CyberPower CP425SLG', category: 'power', width: 99, height: 87, depth: 261, weight: 2400, power: 0, powerCapacity: 255 },
+  { id: 'eaton_3s_550', name: 'Eaton 3S 550VA', category: 'power', width: 100, height: 90, depth: 280, weight: 4300, power: 0, powerCapacity: 330 },
 ];
 
+// Screw hole patterns of boards that mount on standoffs
+// Mirrors SBC_MOUNT_PATTERNS in components/devices.scad
+// Hole positions are [x, y] in mm from the front-left corner of the board
+export interface SbcMountPattern {
+  holes: [number, number][];
+  screwSize: number;       // Screw diameter (mm), e.g. 2.5 for M2.5
+  standoffHeight: number;  // Recommended standoff height (mm), 0 = flush
+}
+
+const PI_HOLES: [number, number][] = [[3.5, 3.5], [3.5 + 58, 3.5], [3.5, 3.5 + 49], [3.5 + 58, 3.5 + 49]];
+const NUC_HOLES: [number, number][] = [[21, 18.5], [21 + 75, 18.5], [21, 18.5 + 75], [21 + 75, 18.5 + 75]];
+
+export const SBC_MOUNT_PATTERNS: Record<string, SbcMountPattern> = {
+  raspberry_pi_4: { holes: PI_HOLES, screwSize: 2.5, standoffHeight: 5 },
+  raspberry_pi_5: { holes: PI_HOLES, screwSize: 2.5, standoffHeight: 5 },
+  raspberry_pi_zero_2w: { holes: [[3.5, 3.5], [3.5 + 58, 3.5], [3.5, 3.5 + 23], [3.5 + 58, 3.5 + 23]], screwSize: 2.5, standoffHeight: 3 },
+  orange_pi_5: { holes: [[4, 4], [4 + 92, 4], [4, 4 + 54], [4 + 92, 4 + 54]], screwSize: 2.5, standoffHeight: 5 },
+  rock_5b: { holes: [[4, 4], [4 + 92, 4], [4, 4 + 64], [4 + 92, 4 + 64]], screwSize: 2.5, standoffHeight: 5 },
+  odroid_h3_plus: { holes: [[5, 5], [5 + 100, 5], [5, 5 + 100], [5 + 100, 5 + 100]], screwSize: 3, standoffHeight: 6 },
+  intel_nuc_11: { holes: NUC_HOLES, screwSize: 3, standoffHeight: 0 },
+  intel_nuc_12: { holes: NUC_HOLES, screwSize: 3, standoffHeight: 0 },
+};
+
+// Drive screw patterns used by the drive sled mount type
+// Mirrors HDD_MOUNT_PATTERNS and HDD_SIDE_PATTERNS in components/devices.scad
+export interface DriveMountPattern {
+  width: number;                      // mm
+  depth: number;                      // mm
+  height: number;                     // Drive thickness (mm)
+  bottomHoles: [number, number][];    // [x, y] in mm from the front-left corner
+  sideHoles: [number, number][];      // [from front, from bottom] in mm, same on both sides
+  screwSize: number;                  // Screw diameter (mm)
+}
+
+export const DRIVE_MOUNT_PATTERNS: Record<DriveSize, DriveMountPattern> = {
+  hdd_25: {
+    width: 70, depth: 100, height: 9.5,
+    bottomHoles: [[3, 14], [64.72, 14], [3, 90.6], [64.72, 90.6]],
+    sideHoles: [[14, 3], [90.6, 3]],
+    screwSize: 3,
+  },
+  hdd_35: {
+    width: 101.6, depth: 147, height: 26.1,
+    bottomHoles: [[3.18, 28.5], [98.43, 28.5], [3.18, 130.1], [98.43, 130.1]],
+    sideHoles: [[28.5, 6.35], [130.1, 6.35]],
+    screwSize: 3,
+  },
+  m2_2280: { width: 22, depth: 80, height: 3.5, bottomHoles: [[11, 77]], sideHoles: [], screwSize: 2 },
+  m2_2242: { width: 22, depth: 42, height: 3.5, bottomHoles: [[11, 39]], sideHoles: [], screwSize: 2 },
+};
+
+// Typical weight (g) and power draw (W) of one drive, for drive sled load budgets
+export const DRIVE_LOADS: Record<DriveSize, { weight: number; power: number }> = {
+  hdd_25: { weight: 110, power: 2 },
+  hdd_35: { weight: 650, power: 7 },
+  m2_2280: { weight: 8, power: 5 },
+  m2_2242: { weight: 5, power: 3 },
+};
+
+// IDs of "My Devices" entries start with this so they never collide with built-ins
+export const USER_DEVICE_PREFIX = 'user-';
+
+// "My Devices" catalog, loaded from IndexedDB at startup (see utils/user-devices-db.ts)
+let userDevices: RackDevice[] = [];
+
+// Devices from enabled device packs (see utils/device-pack-db.ts)
+let packDevices: RackDevice[] = [];
+
+export function registerUserDevices(devices: RackDevice[]): void {
+  userDevices = devices;
+}
+
+export function registerPackDevices(devices: RackDevice[]): void {
+  packDevices = devices;
+}
+
+export function isUserDeviceId(id: string): boolean {
+  return id.startsWith(USER_DEVICE_PREFIX);
+}
+
+// Built-in devices are referenced by ID in generated SCAD; user and pack
+// devices are emitted as `custom` entries with their dimensions
+export function isBuiltInDevice(id: string): boolean {
+  return DEVICES.some(d => d.id === id);
+}
+
+// Built-in catalog merged with the user's own devices and enabled packs.
+// On an ID clash the earlier source wins.
+export function getAllDevices(): RackDevice[] {
+  return [...DEVICES, ...userDevices, ...packDevices];
+}
+
 // Helper functions
 export function getDevice(id: string): RackDevice | undefined {
-  return DEVICES.find(d => d.id === id);
+  return getAllDevices().find(d => d.id === id);
 }
 
 export function getDevicesByCategory(category: DeviceCategory): RackDevice[] {
-  return DEVICES.filter(d => d.category === category);
+  return getAllDevices().filter(d => d.category === category);
 }
 
 export function getAllCategories(): DeviceCategory[] {
@@ -136,3 +267,39 @@ export function getAllowedMountTypes(deviceId: string): MountType[] | undefined
   const device = getDevice(deviceId);
   return device?.allowedMountTypes;
 }
+
+// Standalone custom copy of a placement, for when its catalog device goes away
+export function detachFromCatalog(placed: PlacedDevice, device: RackDevice): PlacedDevice {
+  return {
+    ...placed,
+    deviceId: 'custom',
+    customName: device.name,
+    customWidth: device.width,
+    customHeight: device.height,
+    customDepth: device.depth,
+    customWeight: placed.customWeight ?? device.weight,
+    customPower: placed.customPower ?? device.power,
+  };
+}
+
+// Mount type used when a device is first placed
+export function getDefaultMountType(device: RackDevice): MountType {
+  if (device.id === 'patch_panel') return 'patch_panel';
+  if (device.allowedMountTypes && device.allowedMountTypes.length > 0) return device.allowedMountTypes[0];
+  return 'cage';
+}
+
+// Get the front-face features of a device (empty when none are defined)
+export function getFrontFeatures(deviceId: string): FrontFeature[] {
+  return getDevice(deviceId)?.frontFeatures ?? [];
+}
+
+// Power-category devices with a known output, usable as the rack's power budget
+export function getPowerSources(): RackDevice[] {
+  return getAllDevices().filter((d) => d.category === 'power' && d.powerCapacity !== undefined);
+}
+
+// Get the screw hole pattern of a device (undefined when it has none)
+export function getSbcMountPattern(deviceId: string): SbcMountPattern | undefined {
+  return SBC_MOUNT_PATTERNS[deviceId];
+}
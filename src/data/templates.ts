@@ -0,0 +1,127 @@
+// Starter templates for common rack builds
+// Each template builds a full RackConfig from its (optional) numeric parameters
+
+import type { RackConfig, PlacedDevice, MountType } from '../state/types';
+import { DEFAULT_RACK_CONFIG, getToollessHookCount } from '../state/types';
+import { getDevice } from './devices';
+import { withPatternStandoffs } from '../utils/sbc-standoffs';
+
+export interface TemplateParameter {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  default: number;
+}
+
+export type TemplateParams = Record<string, number>;
+
+export interface RackTemplate {
+  id: string;
+  name: string;
+  description: string;
+  parameters: TemplateParameter[];
+  build: (params: TemplateParams) => RackConfig;
+}
+
+// Base config with hook patterns sized for the rack height
+function baseConfig(overrides: Partial<RackConfig>): RackConfig {
+  const rackU = overrides.rackU ?? DEFAULT_RACK_CONFIG.rackU;
+  const hookCount = getToollessHookCount(rackU);
+  return {
+    ...DEFAULT_RACK_CONFIG,
+    toollessHookPattern: Array(hookCount).fill(true),
+    toollessHookTrimPattern: Array(hookCount).fill(false),
+    devices: [],
+    leftDevices: [],
+    rightDevices: [],
+    ...overrides,
+  };
+}
+
+function place(index: number, deviceId: string, offsetX: number, offsetY: number, mountType: MountType, extra?: Partial<PlacedDevice>): PlacedDevice {
+  return { id: `template-${index}`, deviceId, offsetX, offsetY, mountType, ...extra };
+}
+
+// Centers of `count` devices of `width` spread evenly between left and right
+function spreadEvenly(count: number, width: number, left: number, right: number): number[] {
+  const gap = (right - left - count * width) / (count + 1);
+  return Array.from({ length: count }, (_, i) => left + gap * (i + 1) + width * i + width / 2);
+}
+
+function clampParam(params: TemplateParams, parameter: TemplateParameter): number {
+  const value = Math.round(params[parameter.key] ?? parameter.default);
+  return Math.min(parameter.max, Math.max(parameter.min, value));
+}
+
+const PI_COUNT: TemplateParameter = { key: 'count', label: 'Raspberry Pi 5 boards', min: 1, max: 4, default: 4 };
+const KEYSTONE_PORTS: TemplateParameter = { key: 'ports', label: 'Keystone ports', min: 2, max: 12, default: 6 };
+
+export const TEMPLATES: RackTemplate[] = [
+  {
+    id: 'dual_nuc_1u',
+    name: '1U Dual NUC',
+    description: 'Two Intel NUC 12 mini PCs in honeycomb cages, side by side.',
+    parameters: [],
+    build: () => {
+      const config = baseConfig({ rackU: 1 });
+      const width = getDevice('intel_nuc_12')!.width;
+      const [left, right] = spreadEvenly(2, width, -180, 180);
+      config.devices = [
+        place(0, 'intel_nuc_12', left, 0, 'cage'),
+        place(1, 'intel_nuc_12', right, 0, 'cage'),
+      ];
+      return config;
+    },
+  },
+  {
+    id: 'pi_cluster_2u',
+    name: '2U Pi Cluster Shelf',
+    description: 'Raspberry Pi 5 boards on shelves, evenly spaced across the panel.',
+    parameters: [PI_COUNT],
+    build: (params) => {
+      const count = clampParam(params, PI_COUNT);
+      const config = baseConfig({ rackU: 2 });
+      const width = getDevice('raspberry_pi_5')!.width;
+      config.devices = spreadEvenly(count, width, -215, 215).map((x, i) =>
+        withPatternStandoffs(place(i, 'raspberry_pi_5', x, 0, 'shelf', { shelfCableHolesLeft: 1, shelfCableHolesRight: 1 }))
+      );
+      return config;
+    },
+  },
+  {
+    id: 'keystone_zigbee_1u',
+    name: '1U Keystone + Zigbee',
+    description: 'Keystone patch panel with an SLZB-06 Zigbee coordinator passthrough.',
+    parameters: [KEYSTONE_PORTS],
+    build: (params) => {
+      const ports = clampParam(params, KEYSTONE_PORTS);
+      const config = baseConfig({ rackU: 1 });
+      config.devices = [
+        place(0, 'patch_panel', -40, 0, 'patch_panel', { patchPanelPorts: ports }),
+        place(1, 'slzb_06', 170, 0, 'passthrough'),
+      ];
+      return config;
+    },
+  },
+  {
+    id: 'split_gateway_19',
+    name: 'Split 19" Gateway',
+    description: 'Two-piece 19" panel for smaller printers: UniFi Dream Machine on its side on the left, Flex Mini switch on the right.',
+    parameters: [],
+    build: () => {
+      const config = baseConfig({ rackU: 3, isSplit: true, renderMode: 'both' });
+      config.leftDevices = [place(0, 'udm', -115, 0, 'cage')];
+      config.rightDevices = [place(1, 'usw_flex_mini', 115, 0, 'cage')];
+      return config;
+    },
+  },
+];
+
+export function getTemplate(id: string): RackTemplate | undefined {
+  return TEMPLATES.find((t) => t.id === id);
+}
+
+export function getDefaultTemplateParams(template: RackTemplate): TemplateParams {
+  return Object.fromEntries(template.parameters.map((p) => [p.key, p.default]));
+}
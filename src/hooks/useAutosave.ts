@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { useRackStore } from '../state/rack-store';
+import { DEFAULT_RACK_CONFIG } from '../state/types';
+import type { RackConfig } from '../state/types';
+import { readAutosave, writeAutosave, clearAutosave } from '../utils/autosave-db';
+import { loadUserDevices } from '../utils/user-devices-db';
+import { loadDevicePacks } from '../utils/device-pack-db';
+import type { AutosavedSession } from '../utils/autosave-db';
+import { getProject } from '../utils/project-library-db';
+import { parseRackConfig } from '../utils/config-schema';
+
+const AUTOSAVE_DELAY = 1000; // 1 second debounce
+
+export interface AutosaveState {
+  restorableSession: AutosavedSession | null;
+  restoreSession: () => void;
+  discardSession: () => void;
+}
+
+function isSameConfig(a: RackConfig, b: RackConfig): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// A session is only worth offering if it holds work that was never saved
+async function isUnsavedSession(session: AutosavedSession): Promise<boolean> {
+  if (isSameConfig(session.config, DEFAULT_RACK_CONFIG)) return false;
+  if (!session.project) return true;
+
+  const project = await getProject(session.project.id);
+  if (!project) return true;
+  return project.updatedAt < session.savedAt && !isSameConfig(project.config, session.config);
+}
+
+/**
+ * Continuously save the working config to IndexedDB and, on startup, offer a
+ * session that was not explicitly saved before the tab closed or crashed
+ */
+export function useAutosave(): AutosaveState {
+  const [restorableSession, setRestorableSession] = useState<AutosavedSession | null>(null);
+
+  // Autosave stays off until the previous session has been checked, so it
+  // cannot overwrite the work it is about to offer
+  const isReadyRef = useRef(false);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flush = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    if (!isReadyRef.current) return;
+    const { config, currentProject } = useRackStore.getState();
+    writeAutosave(config, currentProject).catch((error) => console.error('Autosave failed:', error));
+  }, []);
+
+  // Check for a previous session once on startup
+  useEffect(() => {
+    let cancelled = false;
+    // The session may reference "My Devices" or pack devices, so the catalog has to be registered first
+    Promise.all([loadUserDevices(), loadDevicePacks()])
+      .then(readAutosave)
+      .then(async (session) => {
+        if (cancelled) return;
+        if (session && (await isUnsavedSession(session))) {
+          setRestorableSession(session);
+        } else {
+          isReadyRef.current = true;
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to read autosave:', error);
+        isReadyRef.current = true;
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Debounced save on every config change
+  useEffect(() => {
+    const unsubscribe = useRackStore.subscribe((state, prev) => {
+      if (state.config === prev.config && state.currentProject === prev.currentProject) return;
+      if (!isReadyRef.current) return;
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+      timeoutRef.current = setTimeout(flush, AUTOSAVE_DELAY);
+    });
+
+    // Write pending changes before the page goes away
+    const handlePageHide = () => {
+      if (timeoutRef.current) flush();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('pagehide', handlePageHide);
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    };
+  }, [flush]);
+
+  const restoreSession = useCallback(() => {
+    if (!restorableSession) return;
+    const result = parseRackConfig(restorableSession.config);
+    isReadyRef.current = true;
+    setRestorableSession(null);
+
+    if (result.ok) {
+      useRackStore.getState().loadConfig(result.config, restorableSession.project);
+    } else {
+      console.error('Autosaved session is invalid:', result.errors);
+      useRackStore.getState().setImportErrors(result.errors);
+    }
+  }, [restorableSession]);
+
+  const discardSession = useCallback(() => {
+    setRestorableSession(null);
+    isReadyRef.current = true;
+    clearAutosave()
+      .then(flush)
+      .catch((error) => console.error('Failed to clear autosave:', error));
+  }, [flush]);
+
+  return { restorableSession, restoreSession, discardSession };
+}
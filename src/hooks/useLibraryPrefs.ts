@@ -0,0 +1,41 @@
+import { useEffect } from 'react';
+import { useRackStore } from '../state/rack-store';
+import { readLibraryPrefs, writeLibraryPrefs, MAX_RECENT_DEVICES } from '../utils/library-prefs-db';
+
+/**
+ * Load the device library's favorites and recently placed devices on startup
+ * and write them back to IndexedDB whenever they change
+ */
+export function useLibraryPrefs(): void {
+  useEffect(() => {
+    let isReady = false;
+    let cancelled = false;
+
+    readLibraryPrefs()
+      .then((stored) => {
+        if (cancelled) return;
+        isReady = true;
+        // Keep anything starred or placed while the prefs were loading
+        const { libraryPrefs, setLibraryPrefs } = useRackStore.getState();
+        setLibraryPrefs({
+          favorites: [...new Set([...stored.favorites, ...libraryPrefs.favorites])],
+          recent: [...new Set([...libraryPrefs.recent, ...stored.recent])].slice(0, MAX_RECENT_DEVICES),
+        });
+      })
+      .catch((error) => {
+        console.error('Failed to load device library preferences:', error);
+        isReady = true;
+      });
+
+    const unsubscribe = useRackStore.subscribe((state, prev) => {
+      if (!isReady || state.libraryPrefs === prev.libraryPrefs) return;
+      writeLibraryPrefs(state.libraryPrefs)
+        .catch((error) => console.error('Failed to save device library preferences:', error));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+}
@@ -1,19 +1,33 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { useRackStore } from '../state/rack-store';
 import { generateScadCode } from '../utils/scad-generator';
-import { initializeWorker, renderScad, isWorkerReady } from '../worker/openscad-runner';
+import { initializeWorker, renderScad, isWorkerReady, onWorkerRestart } from '../worker/openscad-runner';
+import type { RenderProgress } from '../worker/render-progress';
+import type { ScadDiagnostic } from '../worker/diagnostics';
+import { getRenderDiagnostics } from '../worker/diagnostics';
 import type { RackConfig } from '../state/types';
+import type { RackDevice } from '../data/devices';
+import type { DevicePack } from '../utils/device-pack-db';
 
 export interface LiveRenderState {
   stlData: ArrayBuffer | null;
   isRendering: boolean;
+  progress: RenderProgress | null;
   error: string | null;
+  diagnostics: ScadDiagnostic[];  // Errors, warnings and echoes from the last finished render
+  notice: string | null;  // Why the worker was last restarted, until the next render succeeds
   lastRenderTime: number | null;
+  lastRenderCached: boolean;  // The last STL came from the render cache
+}
+
+export interface LiveRender extends LiveRenderState {
+  cancel: () => void;
 }
 
 const DEBOUNCE_DELAY = 1000; // 1 second debounce
 
-function getConfigHash(config: RackConfig): string {
+// "My Devices" and packs are part of the hash since placements only reference them by ID
+function getConfigHash(config: RackConfig, userDevices: RackDevice[], devicePacks: DevicePack[]): string {
   return JSON.stringify({
     rackU: config.rackU,
     panelWidth: config.panelWidth,
@@ -43,32 +57,38 @@ function getConfigHash(config: RackConfig): string {
     devices: config.devices,
     leftDevices: config.leftDevices,
     rightDevices: config.rightDevices,
+    userDevices,
+    devicePacks,
   });
 }
 
-export function useLiveScadRender(): LiveRenderState {
+export function useLiveScadRender(): LiveRender {
   const config = useRackStore((state) => state.config);
+  const userDevices = useRackStore((state) => state.userDevices);
+  const devicePacks = useRackStore((state) => state.devicePacks);
 
   const [state, setState] = useState<LiveRenderState>({
     stlData: null,
     isRendering: false,
+    progress: null,
     error: null,
+    diagnostics: [],
+    notice: null,
     lastRenderTime: null,
+    lastRenderCached: false,
   });
 
   const debounceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastConfigHashRef = useRef<string>('');
-  const isRenderingRef = useRef(false);
-  const pendingRenderRef = useRef(false);
+  const controllerRef = useRef<AbortController | null>(null);
 
   const doRender = useCallback(async (currentConfig: RackConfig) => {
-    if (isRenderingRef.current) {
-      pendingRenderRef.current = true;
-      return;
-    }
+    // A newer config makes the running render useless, so stop it rather than wait
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
 
-    isRenderingRef.current = true;
-    setState((prev) => ({ ...prev, isRendering: true, error: null }));
+    setState((prev) => ({ ...prev, isRendering: true, progress: null, error: null }));
 
     try {
       // Initialize worker if needed
@@ -76,17 +96,33 @@ export function useLiveScadRender(): LiveRenderState {
         await initializeWorker();
       }
 
-      // Generate SCAD code with preview disabled (for cleaner geometry)
-      const scadCode = generateScadCode(currentConfig, false);
+      // Draft curves so edits render quickly; the profile also leaves preview features out
+      const scadCode = generateScadCode(currentConfig, true, 'draft');
 
       const startTime = performance.now();
 
       // Render to STL
-      const result = await renderScad({
-        scadCode,
-        outputFormat: 'stl',
-        variables: { '$preview': true },
-      });
+      const result = await renderScad(
+        {
+          scadCode,
+          outputFormat: 'stl',
+          variables: { '$preview': true },
+        },
+        {
+          signal: controller.signal,
+          // Runs ahead of (and if need be stops) exports
+          priority: 'high',
+          onProgress: (progress) => {
+            if (controllerRef.current === controller) {
+              setState((prev) => ({ ...prev, progress }));
+            }
+          },
+        }
+      );
+
+      // Superseded by a newer render, which owns the state now
+      if (controllerRef.current !== controller) return;
+      controllerRef.current = null;
 
       const renderTime = Math.round(performance.now() - startTime);
 
@@ -94,37 +130,47 @@ export function useLiveScadRender(): LiveRenderState {
         setState({
           stlData: result.output,
           isRendering: false,
+          progress: null,
           error: null,
+          diagnostics: getRenderDiagnostics(result),
+          notice: null,
           lastRenderTime: renderTime,
+          lastRenderCached: result.cached ?? false,
         });
+      } else if (result.cancelled) {
+        setState((prev) => ({ ...prev, isRendering: false, progress: null }));
       } else {
         setState((prev) => ({
           ...prev,
           isRendering: false,
+          progress: null,
           error: result.error || 'Unknown render error',
+          diagnostics: getRenderDiagnostics(result),
         }));
       }
     } catch (e) {
+      if (controllerRef.current !== controller) return;
+      controllerRef.current = null;
       setState((prev) => ({
         ...prev,
         isRendering: false,
+        progress: null,
         error: e instanceof Error ? e.message : 'Render failed',
       }));
-    } finally {
-      isRenderingRef.current = false;
-
-      // If there was a pending render request, trigger it now
-      if (pendingRenderRef.current) {
-        pendingRenderRef.current = false;
-        // Get the latest config from the store
-        const latestConfig = useRackStore.getState().config;
-        doRender(latestConfig);
-      }
     }
   }, []);
 
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Explain restarts (crash, timeout, out of memory) until a render succeeds
+  useEffect(() => onWorkerRestart((reason) => {
+    setState((prev) => ({ ...prev, notice: reason }));
+  }), []);
+
   useEffect(() => {
-    const configHash = getConfigHash(config);
+    const configHash = getConfigHash(config, userDevices, devicePacks);
 
     // Skip if config hasn't changed
     if (configHash === lastConfigHashRef.current) {
@@ -147,7 +193,7 @@ export function useLiveScadRender(): LiveRenderState {
         clearTimeout(debounceTimeoutRef.current);
       }
     };
-  }, [config, doRender]);
+  }, [config, userDevices, devicePacks, doRender]);
 
   // Trigger initial render
   useEffect(() => {
@@ -159,5 +205,5 @@ export function useLiveScadRender(): LiveRenderState {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  return state;
+  return { ...state, cancel };
 }
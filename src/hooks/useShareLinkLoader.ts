@@ -0,0 +1,66 @@
+import { useEffect } from 'react';
+import { useRackStore } from '../state/rack-store';
+import { getSharedConfigPayload, decodeSharedConfig, clearSharedConfigFromUrl } from '../utils/share-link';
+import { loadUserDevices } from '../utils/user-devices-db';
+import { loadDevicePacks } from '../utils/device-pack-db';
+
+// Anything placed or edited since the page loaded counts as unsaved work
+function hasUnsavedWork(): boolean {
+  const { config, past } = useRackStore.getState();
+  return (
+    past.length > 0 ||
+    config.devices.length > 0 ||
+    config.leftDevices.length > 0 ||
+    config.rightDevices.length > 0
+  );
+}
+
+/**
+ * Load a config from a share link (`#config=...`) on startup and whenever the
+ * hash changes, asking before it replaces unsaved work
+ */
+export function useShareLinkLoader(): void {
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadFromHash = async () => {
+      const payload = getSharedConfigPayload();
+      if (!payload) return;
+
+      await Promise.all([loadUserDevices(), loadDevicePacks()]);
+      const result = await decodeSharedConfig(payload);
+      if (cancelled) return;
+      clearSharedConfigFromUrl();
+
+      const { loadConfig, setImportErrors } = useRackStore.getState();
+      if (!result.ok) {
+        console.error('Invalid shared configuration:', result.errors);
+        setImportErrors(result.errors);
+        return;
+      }
+
+      if (hasUnsavedWork() && !window.confirm('Open the shared rack? This replaces your current layout.')) {
+        return;
+      }
+      loadConfig(result.config);
+    };
+
+    const handleHash = () => {
+      loadFromHash().catch((error) => {
+        console.error('Failed to open shared configuration:', error);
+        if (cancelled) return;
+        clearSharedConfigFromUrl();
+        useRackStore.getState().setImportErrors([
+          `Could not open the shared rack: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ]);
+      });
+    };
+
+    handleHash();
+    window.addEventListener('hashchange', handleHash);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('hashchange', handleHash);
+    };
+  }, []);
+}
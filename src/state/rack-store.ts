@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import type { StateCreator } from 'zustand';
 import type {
   RackConfig,
   PlacedDevice,
@@ -12,23 +13,49 @@ import type {
   JoinerNutSide,
   JoinerScrewType,
   ShelfNotch,
+  DeviceRotation,
+  DriveSize,
+  DriveScrewSide,
   StandoffConfig,
   PCBPresetConfig,
+  ProjectRef,
+  RackComparison,
 } from './types';
-import { DEFAULT_RACK_CONFIG, getToollessHookCount } from './types';
+import { CONFIG_SCHEMA_VERSION, DEFAULT_RACK_CONFIG, RACK_CONSTANTS, getToollessHookCount } from './types';
+import type { RackDevice } from '../data/devices';
+import { registerUserDevices, registerPackDevices, detachFromCatalog } from '../data/devices';
+import { getPlacedDeviceDimensions } from '../utils/scad-generator';
+import { getEnabledPackDevices } from '../utils/device-pack-db';
+import type { DevicePack } from '../utils/device-pack-db';
+import { addRecentDevice } from '../utils/library-prefs-db';
+import type { LibraryPrefs } from '../utils/library-prefs-db';
+import { clampToRackBounds } from '../utils/coordinates';
+import { getArrayPositions } from '../utils/alignment';
+import type { ArraySpacing } from '../utils/alignment';
+import { getPasteOffset } from '../utils/device-clipboard';
+import { withPatternStandoffs } from '../utils/sbc-standoffs';
+import { fixProblem, fixAllProblems } from '../utils/validation';
+import type { RackProblem } from '../utils/validation';
 
 interface RackStore {
   // Current configuration
   config: RackConfig;
 
   // UI state
-  selectedDeviceId: string | null;
+  selectedDeviceId: string | null;    // Primary selection (last clicked)
+  selectedDeviceIds: string[];        // Full selection, includes selectedDeviceId
   zoom: number;
   panX: number;
   panY: number;
   showGrid: boolean;
   snapToGrid: boolean;
   gridSize: number; // mm
+  importErrors: string[] | null;      // Errors from the last rejected config import
+  currentProject: ProjectRef | null;  // Library project the current config was opened from or saved to
+  comparison: RackComparison | null;  // Earlier layout overlaid on the 2D view
+  userDevices: RackDevice[];          // "My Devices" catalog, mirrored from IndexedDB
+  devicePacks: DevicePack[];          // Imported device packs, mirrored from IndexedDB
+  libraryPrefs: LibraryPrefs;         // Favorite and recently placed devices, mirrored from IndexedDB
 
   // Rendering state
   isRendering: boolean;
@@ -55,6 +82,9 @@ interface RackStore {
   setCutoutEdge: (edge: number) => void;
   setCutoutRadius: (radius: number) => void;
   setHeavyDevice: (level: 0 | 1 | 2) => void;
+  setMaxPanelLoad: (maxPanelLoad: number | undefined) => void;
+  setPowerSourceId: (powerSourceId: string | undefined) => void;
+  setMaxPower: (maxPower: number | undefined) => void;
   setShowPreview: (show: boolean) => void;
   setShowLabels: (show: boolean) => void;
 
@@ -71,13 +101,20 @@ interface RackStore {
 
   // Actions - Device management
   addDevice: (deviceId: string, offsetX?: number, offsetY?: number, mountType?: MountType, side?: 'left' | 'right') => string;
-  addCustomDevice: (name: string, width: number, height: number, depth: number, offsetX?: number, offsetY?: number, mountType?: MountType, side?: 'left' | 'right') => string;
+  addCustomDevice: (name: string, width: number, height: number, depth: number, offsetX?: number, offsetY?: number, mountType?: MountType, side?: 'left' | 'right', proxyMeshId?: string) => string;
   removeDevice: (id: string) => void;
   updateDevicePosition: (id: string, offsetX: number, offsetY: number) => void;
+  updateDevicePositions: (positions: Record<string, { x: number; y: number }>) => void;
   updateDeviceMountType: (id: string, mountType: MountType) => void;
   updateDeviceBackStyle: (id: string, backStyle: BackStyle) => void;
+  updateDeviceFrontBezel: (id: string, frontBezel: boolean) => void;
+  updateDeviceRotation: (id: string, rotation: DeviceRotation) => void;
+  updateDevicesMountType: (ids: string[], mountType: MountType) => void;
+  updateDevicesBackStyle: (ids: string[], backStyle: BackStyle) => void;
   updateDeviceDimensions: (id: string, width: number, height: number, depth: number) => void;
   updateDevicePatchPanelPorts: (id: string, ports: number) => void;
+  updateDeviceWeight: (id: string, weight: number | undefined) => void;
+  updateDevicePower: (id: string, power: number | undefined) => void;
   // Shelf-specific updates
   updateDeviceShelfHoneycomb: (id: string, useHoneycomb: boolean) => void;
   updateDeviceShelfSolidBottom: (id: string, solidBottom: boolean) => void;
@@ -86,6 +123,10 @@ interface RackStore {
   updateDeviceShelfScrewHoles: (id: string, count: number) => void;
   updateDeviceShelfCableHoles: (id: string, left: number, right: number) => void;
   updateDeviceShelfPullHandle: (id: string, pullHandle: boolean) => void;
+  // Drive sled updates
+  updateDeviceDriveSize: (id: string, driveSize: DriveSize) => void;
+  updateDeviceDriveScrewSide: (id: string, screwSide: DriveScrewSide) => void;
+  updateDeviceDriveCount: (id: string, count: number) => void;
   // Standoff updates (can be used on multiple mount types)
   updateDeviceStandoffs: (id: string, standoffs: StandoffConfig[]) => void;
   addDeviceStandoff: (id: string, standoff: StandoffConfig) => void;
@@ -95,7 +136,17 @@ interface RackStore {
   updateDevicePCBPreset: (id: string, pcbPreset: PCBPresetConfig | undefined) => void;
   moveDeviceToSide: (id: string, side: 'left' | 'right' | 'main') => void;
   selectDevice: (id: string | null) => void;
+  toggleDeviceSelection: (id: string) => void;
+  selectDevices: (ids: string[], additive?: boolean) => void;
+  removeDevices: (ids: string[]) => void;
   clearDevices: () => void;
+  // Copy/paste - pasted devices get new IDs and keep every other setting
+  pasteDevices: (devices: PlacedDevice[], offsetX?: number, offsetY?: number) => string[];
+  duplicateDevices: (ids: string[]) => string[];
+  arrayDevice: (id: string, count: number, spacing: ArraySpacing) => string[];
+  // Validation auto-fix
+  applyProblemFix: (problem: RackProblem) => void;
+  applyAllProblemFixes: () => void;
 
   // Actions - View controls
   setZoom: (zoom: number) => void;
@@ -111,8 +162,190 @@ interface RackStore {
   setLastRenderTime: (time: number) => void;
 
   // Actions - Configuration
-  loadConfig: (config: RackConfig) => void;
+  loadConfig: (config: RackConfig, project?: ProjectRef | null) => void;
   resetConfig: () => void;
+  setImportErrors: (errors: string[] | null) => void;
+  setCurrentProject: (project: ProjectRef | null) => void;
+  setComparison: (comparison: RackComparison | null) => void;
+
+  // Actions - My Devices
+  setUserDevices: (devices: RackDevice[]) => void;
+  detachCatalogDevices: (devices: RackDevice[]) => void;
+  setDevicePacks: (packs: DevicePack[]) => void;
+
+  // Actions - Device library
+  setLibraryPrefs: (prefs: LibraryPrefs) => void;
+  toggleFavoriteDevice: (deviceId: string) => void;
+}
+
+// Undo/redo history - only config snapshots are recorded, view state is not
+interface HistorySlice {
+  past: RackConfig[];
+  future: RackConfig[];
+  undo: () => void;
+  redo: () => void;
+  beginHistoryGroup: () => void;
+  endHistoryGroup: () => void;
+  clearHistory: () => void;
+}
+
+type RackStoreWithHistory = RackStore & HistorySlice;
+
+// Maximum number of undo steps kept in memory
+const HISTORY_LIMIT = 100;
+
+// Check whether a device id still exists in any device list of a config
+function configHasDevice(config: RackConfig, id: string | null): boolean {
+  if (!id) return false;
+  return (
+    config.devices.some((d) => d.id === id) ||
+    config.leftDevices.some((d) => d.id === id) ||
+    config.rightDevices.some((d) => d.id === id)
+  );
+}
+
+/**
+ * History middleware: wraps `set` so every change to `config` pushes the
+ * previous config onto the undo stack. Updates that leave `config` untouched
+ * (zoom, pan, selection, render state) are never recorded.
+ *
+ * While a history group is open (e.g. during a drag), only the first change
+ * records a snapshot so the whole gesture undoes in a single step.
+ */
+function withHistory(
+  initializer: StateCreator<RackStoreWithHistory, [], [], RackStore>
+): StateCreator<RackStoreWithHistory> {
+  return (rawSet, get, api) => {
+    let groupOpen = false;
+    let groupRecorded = false;
+
+    const set: typeof rawSet = (partial, replace?: boolean) => {
+      const prevConfig = get().config;
+      (rawSet as (p: typeof partial, r?: boolean) => void)(partial, replace);
+      const state = get();
+      if (state.config === prevConfig) return;
+
+      if (groupOpen && groupRecorded) {
+        if (state.future.length > 0) rawSet({ future: [] });
+        return;
+      }
+      if (groupOpen) {
+        groupRecorded = true;
+      }
+      rawSet({
+        past: [...state.past, prevConfig].slice(-HISTORY_LIMIT),
+        future: [],
+      });
+    };
+
+    return {
+      ...initializer(set, get, api),
+      past: [],
+      future: [],
+
+      undo: () => {
+        groupOpen = false;
+        const { past, future, config, selectedDeviceId, selectedDeviceIds } = get();
+        if (past.length === 0) return;
+        const previous = past[past.length - 1];
+        rawSet({
+          config: previous,
+          past: past.slice(0, -1),
+          future: [config, ...future],
+          selectedDeviceId: configHasDevice(previous, selectedDeviceId) ? selectedDeviceId : null,
+          selectedDeviceIds: selectedDeviceIds.filter((id) => configHasDevice(previous, id)),
+        });
+      },
+
+      redo: () => {
+        groupOpen = false;
+        const { past, future, config, selectedDeviceId, selectedDeviceIds } = get();
+        if (future.length === 0) return;
+        const next = future[0];
+        rawSet({
+          config: next,
+          past: [...past, config].slice(-HISTORY_LIMIT),
+          future: future.slice(1),
+          selectedDeviceId: configHasDevice(next, selectedDeviceId) ? selectedDeviceId : null,
+          selectedDeviceIds: selectedDeviceIds.filter((id) => configHasDevice(next, id)),
+        });
+      },
+
+      beginHistoryGroup: () => {
+        groupOpen = true;
+        groupRecorded = false;
+      },
+
+      endHistoryGroup: () => {
+        groupOpen = false;
+        groupRecorded = false;
+      },
+
+      clearHistory: () => rawSet({ past: [], future: [] }),
+    };
+  };
+}
+
+// Move a device to a new center position. In split mode the device migrates
+// to the other half when its center crosses the split line.
+function moveDeviceInConfig(config: RackConfig, id: string, offsetX: number, offsetY: number): RackConfig {
+  if (config.isSplit) {
+    const splitPos = config.splitPosition;
+    const isInLeft = config.leftDevices.some((d) => d.id === id);
+    const isInRight = config.rightDevices.some((d) => d.id === id);
+
+    // Determine which side the device should be on based on new position
+    const shouldBeLeft = offsetX < splitPos;
+    const shouldBeRight = offsetX >= splitPos;
+
+    // If device needs to move to the other side
+    if (isInLeft && shouldBeRight) {
+      const device = config.leftDevices.find((d) => d.id === id);
+      if (device) {
+        return {
+          ...config,
+          leftDevices: config.leftDevices.filter((d) => d.id !== id),
+          rightDevices: [...config.rightDevices, { ...device, offsetX, offsetY }],
+        };
+      }
+    } else if (isInRight && shouldBeLeft) {
+      const device = config.rightDevices.find((d) => d.id === id);
+      if (device) {
+        return {
+          ...config,
+          rightDevices: config.rightDevices.filter((d) => d.id !== id),
+          leftDevices: [...config.leftDevices, { ...device, offsetX, offsetY }],
+        };
+      }
+    }
+  }
+
+  // Default: just update position in place
+  return {
+    ...config,
+    devices: config.devices.map((d) =>
+      d.id === id ? { ...d, offsetX, offsetY } : d
+    ),
+    leftDevices: config.leftDevices.map((d) =>
+      d.id === id ? { ...d, offsetX, offsetY } : d
+    ),
+    rightDevices: config.rightDevices.map((d) =>
+      d.id === id ? { ...d, offsetX, offsetY } : d
+    ),
+  };
+}
+
+// Insert new devices into a config. In split mode each device goes to the
+// half its center lies on.
+function insertDevicesInConfig(config: RackConfig, newDevices: PlacedDevice[]): RackConfig {
+  if (!config.isSplit) {
+    return { ...config, devices: [...config.devices, ...newDevices] };
+  }
+  return {
+    ...config,
+    leftDevices: [...config.leftDevices, ...newDevices.filter((d) => d.offsetX < config.splitPosition)],
+    rightDevices: [...config.rightDevices, ...newDevices.filter((d) => d.offsetX >= config.splitPosition)],
+  };
 }
 
 // Simple UUID generator (fallback if uuid package not installed)
@@ -120,16 +353,23 @@ function generateId(): string {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 }
 
-export const useRackStore = create<RackStore>((set, get) => ({
+export const useRackStore = create<RackStoreWithHistory>()(withHistory((set, get) => ({
   // Initial state
   config: { ...DEFAULT_RACK_CONFIG },
   selectedDeviceId: null,
+  selectedDeviceIds: [],
   zoom: 1,
   panX: 0,
   panY: 0,
   showGrid: true,
   snapToGrid: true,
   gridSize: 1,
+  importErrors: null,
+  currentProject: null,
+  comparison: null,
+  userDevices: [],
+  devicePacks: [],
+  libraryPrefs: { favorites: [], recent: [] },
   isRendering: false,
   lastRenderTime: null,
   modelUrl: null,
@@ -234,6 +474,21 @@ export const useRackStore = create<RackStore>((set, get) => ({
       config: { ...state.config, heavyDevice },
     })),
 
+  setMaxPanelLoad: (maxPanelLoad) =>
+    set((state) => ({
+      config: { ...state.config, maxPanelLoad },
+    })),
+
+  setPowerSourceId: (powerSourceId) =>
+    set((state) => ({
+      config: { ...state.config, powerSourceId },
+    })),
+
+  setMaxPower: (maxPower) =>
+    set((state) => ({
+      config: { ...state.config, maxPower },
+    })),
+
   setShowPreview: (showPreview) =>
     set((state) => ({
       config: { ...state.config, showPreview },
@@ -420,14 +675,15 @@ export const useRackStore = create<RackStore>((set, get) => ({
     const snappedX = snapToGrid ? Math.round(offsetX / gridSize) * gridSize : offsetX;
     const snappedY = snapToGrid ? Math.round(offsetY / gridSize) * gridSize : offsetY;
 
-    const newDevice: PlacedDevice = {
+    const newDevice: PlacedDevice = withPatternStandoffs({
       id,
       deviceId,
       offsetX: snappedX,
       offsetY: snappedY,
       mountType,
-    };
+    });
     set((state) => {
+      const libraryPrefs = { ...state.libraryPrefs, recent: addRecentDevice(state.libraryPrefs.recent, deviceId) };
       if (state.config.isSplit && side) {
         // Add to specific side in split mode
         const listKey = side === 'left' ? 'leftDevices' : 'rightDevices';
@@ -437,6 +693,8 @@ export const useRackStore = create<RackStore>((set, get) => ({
             [listKey]: [...state.config[listKey], newDevice],
           },
           selectedDeviceId: id,
+          selectedDeviceIds: [id],
+          libraryPrefs,
         };
       }
       // Add to main devices list
@@ -446,12 +704,14 @@ export const useRackStore = create<RackStore>((set, get) => ({
           devices: [...state.config.devices, newDevice],
         },
         selectedDeviceId: id,
+        selectedDeviceIds: [id],
+        libraryPrefs,
       };
     });
     return id;
   },
 
-  addCustomDevice: (name, width, height, depth, offsetX = 0, offsetY = 0, mountType = 'cage', side) => {
+  addCustomDevice: (name, width, height, depth, offsetX = 0, offsetY = 0, mountType = 'cage', side, proxyMeshId) => {
     const id = generateId();
     const { snapToGrid, gridSize } = get();
 
@@ -469,6 +729,7 @@ export const useRackStore = create<RackStore>((set, get) => ({
       customWidth: width,
       customHeight: height,
       customDepth: depth,
+      proxyMeshId,
     };
     set((state) => {
       if (state.config.isSplit && side) {
@@ -479,6 +740,7 @@ export const useRackStore = create<RackStore>((set, get) => ({
             [listKey]: [...state.config[listKey], newDevice],
           },
           selectedDeviceId: id,
+          selectedDeviceIds: [id],
         };
       }
       return {
@@ -487,6 +749,7 @@ export const useRackStore = create<RackStore>((set, get) => ({
           devices: [...state.config.devices, newDevice],
         },
         selectedDeviceId: id,
+        selectedDeviceIds: [id],
       };
     });
     return id;
@@ -501,80 +764,111 @@ export const useRackStore = create<RackStore>((set, get) => ({
         rightDevices: state.config.rightDevices.filter((d) => d.id !== id),
       },
       selectedDeviceId: state.selectedDeviceId === id ? null : state.selectedDeviceId,
+      selectedDeviceIds: state.selectedDeviceIds.filter((sid) => sid !== id),
     })),
 
-  updateDevicePosition: (id, offsetX, offsetY) => {
-    const { snapToGrid, gridSize } = get();
-    const snappedX = snapToGrid ? Math.round(offsetX / gridSize) * gridSize : offsetX;
-    const snappedY = snapToGrid ? Math.round(offsetY / gridSize) * gridSize : offsetY;
-
+  removeDevices: (ids) =>
     set((state) => {
-      // If in split mode, check if device needs to move to the other side
-      if (state.config.isSplit) {
-        const splitPos = state.config.splitPosition;
-        const isInLeft = state.config.leftDevices.some((d) => d.id === id);
-        const isInRight = state.config.rightDevices.some((d) => d.id === id);
-
-        // Determine which side the device should be on based on new position
-        const shouldBeLeft = snappedX < splitPos;
-        const shouldBeRight = snappedX >= splitPos;
-
-        // If device needs to move to the other side
-        if (isInLeft && shouldBeRight) {
-          const device = state.config.leftDevices.find((d) => d.id === id);
-          if (device) {
-            return {
-              config: {
-                ...state.config,
-                leftDevices: state.config.leftDevices.filter((d) => d.id !== id),
-                rightDevices: [...state.config.rightDevices, { ...device, offsetX: snappedX, offsetY: snappedY }],
-              },
-            };
-          }
-        } else if (isInRight && shouldBeLeft) {
-          const device = state.config.rightDevices.find((d) => d.id === id);
-          if (device) {
-            return {
-              config: {
-                ...state.config,
-                rightDevices: state.config.rightDevices.filter((d) => d.id !== id),
-                leftDevices: [...state.config.leftDevices, { ...device, offsetX: snappedX, offsetY: snappedY }],
-              },
-            };
-          }
-        }
-      }
-
-      // Default: just update position in place
+      const removed = new Set(ids);
       return {
         config: {
           ...state.config,
-          devices: state.config.devices.map((d) =>
-            d.id === id ? { ...d, offsetX: snappedX, offsetY: snappedY } : d
-          ),
-          leftDevices: state.config.leftDevices.map((d) =>
-            d.id === id ? { ...d, offsetX: snappedX, offsetY: snappedY } : d
-          ),
-          rightDevices: state.config.rightDevices.map((d) =>
-            d.id === id ? { ...d, offsetX: snappedX, offsetY: snappedY } : d
-          ),
+          devices: state.config.devices.filter((d) => !removed.has(d.id)),
+          leftDevices: state.config.leftDevices.filter((d) => !removed.has(d.id)),
+          rightDevices: state.config.rightDevices.filter((d) => !removed.has(d.id)),
         },
+        selectedDeviceId: state.selectedDeviceId && removed.has(state.selectedDeviceId) ? null : state.selectedDeviceId,
+        selectedDeviceIds: state.selectedDeviceIds.filter((sid) => !removed.has(sid)),
       };
+    }),
+
+  pasteDevices: (devices, offsetX = 0, offsetY = 0) => {
+    const { config } = get();
+    const pasted = devices.map((d) => {
+      const dims = getPlacedDeviceDimensions(d);
+      const pos = clampToRackBounds(d.offsetX + offsetX, d.offsetY + offsetY, dims.width, dims.height, config.rackU);
+      return { ...structuredClone(d), id: generateId(), offsetX: pos.x, offsetY: pos.y };
     });
+    if (pasted.length === 0) return [];
+
+    const ids = pasted.map((d) => d.id);
+    set((state) => ({
+      config: insertDevicesInConfig(state.config, pasted),
+      selectedDeviceId: ids[ids.length - 1],
+      selectedDeviceIds: ids,
+    }));
+    return ids;
+  },
+
+  duplicateDevices: (ids) => {
+    const { config, pasteDevices } = get();
+    const allDevices = [...config.devices, ...config.leftDevices, ...config.rightDevices];
+    const devices = allDevices.filter((d) => ids.includes(d.id));
+    const offset = getPasteOffset(devices, allDevices);
+    return pasteDevices(devices, offset.x, offset.y);
+  },
+
+  arrayDevice: (id, count, spacing) => {
+    const { config } = get();
+    const device = [...config.devices, ...config.leftDevices, ...config.rightDevices].find((d) => d.id === id);
+    if (!device || count < 1) return [];
+
+    const dims = getPlacedDeviceDimensions(device);
+    const positions = getArrayPositions(device, count, spacing, config.panelWidth || RACK_CONSTANTS.PANEL_WIDTH)
+      .map((pos) => clampToRackBounds(pos.x, pos.y, dims.width, dims.height, config.rackU));
+    const [first, ...rest] = positions;
+    const copies = rest.map((pos) => ({ ...structuredClone(device), id: generateId(), offsetX: pos.x, offsetY: pos.y }));
+
+    const ids = [id, ...copies.map((d) => d.id)];
+    set((state) => ({
+      config: insertDevicesInConfig(moveDeviceInConfig(state.config, id, first.x, first.y), copies),
+      selectedDeviceId: id,
+      selectedDeviceIds: ids,
+    }));
+    return ids;
+  },
+
+  applyProblemFix: (problem) =>
+    set((state) => ({
+      config: fixProblem(state.config, problem),
+    })),
+
+  applyAllProblemFixes: () =>
+    set((state) => ({
+      config: fixAllProblems(state.config),
+    })),
+
+  updateDevicePosition: (id, offsetX, offsetY) => {
+    const { snapToGrid, gridSize } = get();
+    const snappedX = snapToGrid ? Math.round(offsetX / gridSize) * gridSize : offsetX;
+    const snappedY = snapToGrid ? Math.round(offsetY / gridSize) * gridSize : offsetY;
+
+    set((state) => ({
+      config: moveDeviceInConfig(state.config, id, snappedX, snappedY),
+    }));
   },
 
+  updateDevicePositions: (positions) =>
+    set((state) => {
+      let config = state.config;
+      for (const [id, pos] of Object.entries(positions)) {
+        config = moveDeviceInConfig(config, id, pos.x, pos.y);
+      }
+      return { config };
+    }),
+
   updateDeviceMountType: (id, mountType) =>
     set((state) => ({
       config: {
         ...state.config,
         devices: state.config.devices.map((d) =>
-          d.id === id ? { ...d, mountType } : d
+          d.id === id ? withPatternStandoffs({ ...d, mountType }) : d
         ),
         leftDevices: state.config.leftDevices.map((d) =>
-          d.id === id ? { ...d, mountType } : d
+          d.id === id ? withPatternStandoffs({ ...d, mountType }) : d
         ),
         rightDevices: state.config.rightDevices.map((d) =>
-          d.id === id ? { ...d, mountType } : d
+          d.id === id ? withPatternStandoffs({ ...d, mountType }) : d
         ),
       },
     })),
@@ -595,6 +889,70 @@ export const useRackStore = create<RackStore>((set, get) => ({
       },
     })),
 
+  updateDeviceFrontBezel: (id, frontBezel) =>
+    set((state) => ({
+      config: {
+        ...state.config,
+        devices: state.config.devices.map((d) =>
+          d.id === id ? { ...d, frontBezel } : d
+        ),
+        leftDevices: state.config.leftDevices.map((d) =>
+          d.id === id ? { ...d, frontBezel } : d
+        ),
+        rightDevices: state.config.rightDevices.map((d) =>
+          d.id === id ? { ...d, frontBezel } : d
+        ),
+      },
+    })),
+
+  // Turn a device about its center, keeping the new footprint inside the rack
+  updateDeviceRotation: (id, rotation) =>
+    set((state) => {
+      const rotate = (d: PlacedDevice): PlacedDevice => {
+        if (d.id !== id) return d;
+        const rotated = { ...d, rotation };
+        const dims = getPlacedDeviceDimensions(rotated);
+        const pos = clampToRackBounds(d.offsetX, d.offsetY, dims.width, dims.height, state.config.rackU);
+        return { ...rotated, offsetX: pos.x, offsetY: pos.y };
+      };
+      return {
+        config: {
+          ...state.config,
+          devices: state.config.devices.map(rotate),
+          leftDevices: state.config.leftDevices.map(rotate),
+          rightDevices: state.config.rightDevices.map(rotate),
+        },
+      };
+    }),
+
+  updateDevicesMountType: (ids, mountType) =>
+    set((state) => {
+      const updateDevice = (d: PlacedDevice) =>
+        ids.includes(d.id) ? withPatternStandoffs({ ...d, mountType }) : d;
+      return {
+        config: {
+          ...state.config,
+          devices: state.config.devices.map(updateDevice),
+          leftDevices: state.config.leftDevices.map(updateDevice),
+          rightDevices: state.config.rightDevices.map(updateDevice),
+        },
+      };
+    }),
+
+  updateDevicesBackStyle: (ids, backStyle) =>
+    set((state) => {
+      const updateDevice = (d: PlacedDevice) =>
+        ids.includes(d.id) ? { ...d, backStyle } : d;
+      return {
+        config: {
+          ...state.config,
+          devices: state.config.devices.map(updateDevice),
+          leftDevices: state.config.leftDevices.map(updateDevice),
+          rightDevices: state.config.rightDevices.map(updateDevice),
+        },
+      };
+    }),
+
   updateDeviceDimensions: (id, width, height, depth) =>
     set((state) => ({
       config: {
@@ -633,6 +991,38 @@ export const useRackStore = create<RackStore>((set, get) => ({
       },
     })),
 
+  updateDeviceWeight: (id, weight) =>
+    set((state) => ({
+      config: {
+        ...state.config,
+        devices: state.config.devices.map((d) =>
+          d.id === id ? { ...d, customWeight: weight } : d
+        ),
+        leftDevices: state.config.leftDevices.map((d) =>
+          d.id === id ? { ...d, customWeight: weight } : d
+        ),
+        rightDevices: state.config.rightDevices.map((d) =>
+          d.id === id ? { ...d, customWeight: weight } : d
+        ),
+      },
+    })),
+
+  updateDevicePower: (id, power) =>
+    set((state) => ({
+      config: {
+        ...state.config,
+        devices: state.config.devices.map((d) =>
+          d.id === id ? { ...d, customPower: power } : d
+        ),
+        leftDevices: state.config.leftDevices.map((d) =>
+          d.id === id ? { ...d, customPower: power } : d
+        ),
+        rightDevices: state.config.rightDevices.map((d) =>
+          d.id === id ? { ...d, customPower: power } : d
+        ),
+      },
+    })),
+
   // Shelf-specific updates
   updateDeviceShelfHoneycomb: (id, useHoneycomb) =>
     set((state) => ({
@@ -746,6 +1136,55 @@ export const useRackStore = create<RackStore>((set, get) => ({
       },
     })),
 
+  // Drive sled updates
+  updateDeviceDriveSize: (id, driveSize) =>
+    set((state) => ({
+      config: {
+        ...state.config,
+        devices: state.config.devices.map((d) =>
+          d.id === id ? { ...d, driveSize: driveSize } : d
+        ),
+        leftDevices: state.config.leftDevices.map((d) =>
+          d.id === id ? { ...d, driveSize: driveSize } : d
+        ),
+        rightDevices: state.config.rightDevices.map((d) =>
+          d.id === id ? { ...d, driveSize: driveSize } : d
+        ),
+      },
+    })),
+
+  updateDeviceDriveScrewSide: (id, screwSide) =>
+    set((state) => ({
+      config: {
+        ...state.config,
+        devices: state.config.devices.map((d) =>
+          d.id === id ? { ...d, driveScrewSide: screwSide } : d
+        ),
+        leftDevices: state.config.leftDevices.map((d) =>
+          d.id === id ? { ...d, driveScrewSide: screwSide } : d
+        ),
+        rightDevices: state.config.rightDevices.map((d) =>
+          d.id === id ? { ...d, driveScrewSide: screwSide } : d
+        ),
+      },
+    })),
+
+  updateDeviceDriveCount: (id, count) =>
+    set((state) => ({
+      config: {
+        ...state.config,
+        devices: state.config.devices.map((d) =>
+          d.id === id ? { ...d, driveCount: count } : d
+        ),
+        leftDevices: state.config.leftDevices.map((d) =>
+          d.id === id ? { ...d, driveCount: count } : d
+        ),
+        rightDevices: state.config.rightDevices.map((d) =>
+          d.id === id ? { ...d, driveCount: count } : d
+        ),
+      },
+    })),
+
   // Standoff updates
   updateDeviceStandoffs: (id, standoffs) =>
     set((state) => ({
@@ -875,7 +1314,35 @@ export const useRackStore = create<RackStore>((set, get) => ({
       };
     }),
 
-  selectDevice: (id) => set({ selectedDeviceId: id }),
+  selectDevice: (id) => set({ selectedDeviceId: id, selectedDeviceIds: id ? [id] : [] }),
+
+  toggleDeviceSelection: (id) =>
+    set((state) => {
+      if (state.selectedDeviceIds.includes(id)) {
+        const selectedDeviceIds = state.selectedDeviceIds.filter((sid) => sid !== id);
+        return {
+          selectedDeviceIds,
+          selectedDeviceId: state.selectedDeviceId === id
+            ? selectedDeviceIds[selectedDeviceIds.length - 1] ?? null
+            : state.selectedDeviceId,
+        };
+      }
+      return {
+        selectedDeviceIds: [...state.selectedDeviceIds, id],
+        selectedDeviceId: id,
+      };
+    }),
+
+  selectDevices: (ids, additive = false) =>
+    set((state) => {
+      const selectedDeviceIds = additive
+        ? [...state.selectedDeviceIds, ...ids.filter((id) => !state.selectedDeviceIds.includes(id))]
+        : ids;
+      return {
+        selectedDeviceIds,
+        selectedDeviceId: selectedDeviceIds[selectedDeviceIds.length - 1] ?? null,
+      };
+    }),
 
   clearDevices: () =>
     set((state) => ({
@@ -886,6 +1353,7 @@ export const useRackStore = create<RackStore>((set, get) => ({
         rightDevices: [],
       },
       selectedDeviceId: null,
+      selectedDeviceIds: [],
     })),
 
   // View controls
@@ -909,17 +1377,21 @@ export const useRackStore = create<RackStore>((set, get) => ({
   setLastRenderTime: (lastRenderTime) => set({ lastRenderTime }),
 
   // Configuration
-  loadConfig: (config) => {
+  loadConfig: (config, project = null) => {
     // Migrate old configs that don't have toollessHookPattern or toollessHookTrimPattern
     const hookCount = getToollessHookCount(config.rackU);
     const migratedConfig = {
       ...config,
+      schemaVersion: CONFIG_SCHEMA_VERSION,
       toollessHookPattern: config.toollessHookPattern || Array(hookCount).fill(true),
       toollessHookTrimPattern: config.toollessHookTrimPattern || Array(hookCount).fill(false),
     };
     set({
       config: migratedConfig,
       selectedDeviceId: null,
+      selectedDeviceIds: [],
+      currentProject: project,
+      comparison: null,
     });
   },
 
@@ -927,5 +1399,62 @@ export const useRackStore = create<RackStore>((set, get) => ({
     set({
       config: { ...DEFAULT_RACK_CONFIG },
       selectedDeviceId: null,
+      selectedDeviceIds: [],
+      currentProject: null,
+      comparison: null,
+    }),
+
+  setImportErrors: (importErrors) => set({ importErrors }),
+
+  setCurrentProject: (currentProject) => set({ currentProject }),
+
+  setComparison: (comparison) => set({ comparison }),
+
+  // My Devices
+  setUserDevices: (userDevices) => {
+    registerUserDevices(userDevices);
+    set({ userDevices });
+  },
+
+  setDevicePacks: (devicePacks) => {
+    registerPackDevices(getEnabledPackDevices(devicePacks));
+    set({ devicePacks });
+  },
+
+  setLibraryPrefs: (libraryPrefs) => set({ libraryPrefs }),
+
+  toggleFavoriteDevice: (deviceId) =>
+    set((state) => {
+      const { favorites } = state.libraryPrefs;
+      return {
+        libraryPrefs: {
+          ...state.libraryPrefs,
+          favorites: favorites.includes(deviceId)
+            ? favorites.filter((id) => id !== deviceId)
+            : [...favorites, deviceId],
+        },
+      };
+    }),
+
+  // Turn placements of catalog devices into standalone custom devices (before deleting them)
+  detachCatalogDevices: (catalogDevices) =>
+    set((state) => {
+      const byId = new Map(catalogDevices.map((device) => [device.id, device]));
+      const isPlaced = (d: PlacedDevice) => byId.has(d.deviceId);
+      if (![...state.config.devices, ...state.config.leftDevices, ...state.config.rightDevices].some(isPlaced)) {
+        return {};
+      }
+      const detach = (d: PlacedDevice): PlacedDevice => {
+        const device = byId.get(d.deviceId);
+        return device ? detachFromCatalog(d, device) : d;
+      };
+      return {
+        config: {
+          ...state.config,
+          devices: state.config.devices.map(detach),
+          leftDevices: state.config.leftDevices.map(detach),
+          rightDevices: state.config.rightDevices.map(detach),
+        },
+      };
     }),
-}));
+})));
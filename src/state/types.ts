@@ -13,6 +13,7 @@ export type MountType =
   | 'storage'        // Deep tray with walls
   | 'patch_panel'    // Keystone patch panel with configurable ports
   | 'pi5_case'       // Raspberry Pi 5 case mount (attaches behind faceplate cutout)
+  | 'drive_sled'     // Stacked 2.5"/3.5"/M.2 drive sled using the drive screw patterns
   | 'none';          // Cutout only, no mount
 
 export const MOUNT_TYPE_LABELS: Record<MountType, string> = {
@@ -28,9 +29,28 @@ export const MOUNT_TYPE_LABELS: Record<MountType, string> = {
   storage: 'Storage',
   patch_panel: 'Patch Panel',
   pi5_case: 'Raspberry Pi 5 Case',
+  drive_sled: 'Drive Sled',
   none: 'None (Cutout)',
 };
 
+// Colors for mount types in the 2D editor and thumbnails
+export const MOUNT_TYPE_COLORS: Record<MountType, string> = {
+  cage: '#3b82f6',      // blue
+  cage_rect: '#6366f1', // indigo
+  cage_open: '#8b5cf6', // violet
+  enclosed: '#10b981',  // emerald
+  angle: '#f59e0b',     // amber
+  simple: '#6b7280',    // gray
+  passthrough: '#ec4899', // pink
+  tray: '#14b8a6',      // teal
+  shelf: '#84cc16',     // lime
+  storage: '#f97316',   // orange
+  patch_panel: '#06b6d4', // cyan
+  pi5_case: '#c026d3',  // fuchsia
+  drive_sled: '#0ea5e9', // sky
+  none: '#ef4444',      // red
+};
+
 export type EarStyle = 'toolless' | 'fusion' | 'simple' | 'none';
 
 export const EAR_STYLE_LABELS: Record<EarStyle, string> = {
@@ -69,6 +89,18 @@ export const BACK_STYLE_LABELS: Record<BackStyle, string> = {
 
 export type VentType = 'honeycomb' | 'rectangular';
 
+// Device rotation about the depth axis, in degrees counter-clockwise seen from the front
+export type DeviceRotation = 0 | 90 | 180 | 270;
+
+export const DEVICE_ROTATIONS: DeviceRotation[] = [0, 90, 180, 270];
+
+export const DEVICE_ROTATION_LABELS: Record<DeviceRotation, string> = {
+  0: 'Upright',
+  90: '90° (On Edge)',
+  180: '180° (Upside Down)',
+  270: '270° (On Edge)',
+};
+
 // Shelf notch position options
 export type ShelfNotch = 'none' | 'left' | 'right' | 'center';
 
@@ -79,6 +111,26 @@ export const SHELF_NOTCH_LABELS: Record<ShelfNotch, string> = {
   center: 'Center',
 };
 
+// Drive sled options (screw patterns are in data/devices.ts DRIVE_MOUNT_PATTERNS)
+export type DriveSize = 'hdd_25' | 'hdd_35' | 'm2_2280' | 'm2_2242';
+
+export const DRIVE_SIZE_LABELS: Record<DriveSize, string> = {
+  hdd_25: '2.5" Drive',
+  hdd_35: '3.5" Drive',
+  m2_2280: 'M.2 2280 SSD',
+  m2_2242: 'M.2 2242 SSD',
+};
+
+export type DriveScrewSide = 'bottom' | 'side';
+
+export const DRIVE_SCREW_SIDE_LABELS: Record<DriveScrewSide, string> = {
+  bottom: 'Bottom Screws',
+  side: 'Side Screws',
+};
+
+// Most drives one sled stacks
+export const MAX_DRIVE_COUNT = 4;
+
 // Split render modes
 export type RenderMode = 'single' | 'both' | 'left' | 'right' | 'left_print' | 'right_print';
 
@@ -91,6 +143,17 @@ export const RENDER_MODE_LABELS: Record<RenderMode, string> = {
   right_print: 'Split - Right (Print)',
 };
 
+// Render quality profiles, from fast live previews to final exports
+export type RenderQuality = 'draft' | 'standard' | 'high';
+
+export const RENDER_QUALITIES: RenderQuality[] = ['draft', 'standard', 'high'];
+
+export const RENDER_QUALITY_LABELS: Record<RenderQuality, string> = {
+  draft: 'Draft',
+  standard: 'Standard',
+  high: 'High',
+};
+
 // Joiner nut side options
 export type JoinerNutSide = 'left' | 'right';
 
@@ -129,12 +192,18 @@ export interface PlacedDevice {
   offsetX: number;     // mm from center (negative = left)
   offsetY: number;     // mm from center (negative = down)
   mountType: MountType;
+  rotation?: DeviceRotation; // Turn about the depth axis (default 0); 90/270 stand the device on edge
   backStyle?: BackStyle; // Per-device back style (defaults to global if not set)
+  frontBezel?: boolean;  // Cut only the catalog device's front features instead of the full rectangle
   // For custom devices only:
   customWidth?: number;
   customHeight?: number;
   customDepth?: number;
   customName?: string;
+  proxyMeshId?: string;      // Imported STL shown in the 3D view (stored in IndexedDB)
+  // Weight and power draw (override the catalog values; required for custom devices to count)
+  customWeight?: number;     // g
+  customPower?: number;      // W
   // For patch panel mount type:
   patchPanelPorts?: number;  // Number of keystone ports (default: 6)
   // For shelf mount type:
@@ -146,6 +215,10 @@ export interface PlacedDevice {
   shelfCableHolesLeft?: number;     // Left cable routing holes (0-5, default: 0)
   shelfCableHolesRight?: number;    // Right cable routing holes (0-5, default: 0)
   shelfPullHandle?: boolean;        // Add pull handle at front (default: false)
+  // For drive sled mount type:
+  driveSize?: DriveSize;            // Drive form factor (default: 'hdd_35')
+  driveScrewSide?: DriveScrewSide;  // Which screw pattern holds the drives (default: 'bottom')
+  driveCount?: number;              // Drives stacked in the sled (1-4, default: 1)
   // Mounting points/standoffs (can be used on multiple mount types)
   standoffs?: StandoffConfig[];     // Array of standoff configurations
   standoffCountersink?: boolean;    // Countersunk screw holes (default: false)
@@ -175,8 +248,12 @@ export interface PCBPresetConfig {
   holeDia: number;        // Hole diameter (mm)
 }
 
+// Current version of the saved config format (see utils/config-schema.ts)
+export const CONFIG_SCHEMA_VERSION = 2;
+
 // Full rack configuration
 export interface RackConfig {
+  schemaVersion: number;  // Saved config format version (CONFIG_SCHEMA_VERSION)
   rackU: 1 | 2 | 3 | 4 | 5 | 6;
   panelWidth: number; // Custom panel width in mm (default: 450.85 for 19" rack)
   earStyle: EarStyle;
@@ -199,6 +276,11 @@ export interface RackConfig {
   clearance: number;
   heavyDevice: 0 | 1 | 2;
 
+  // Load and power budget (optional, see utils/load-budget.ts for defaults)
+  maxPanelLoad?: number;   // Max device weight per panel (g)
+  powerSourceId?: string;  // Power-category device whose capacity is the power budget
+  maxPower?: number;       // Power budget (W) when no power source is chosen
+
   // Preview options
   showPreview: boolean;
   showLabels: boolean;
@@ -246,6 +328,7 @@ export function getRackHeight(rackU: number): number {
 
 // Default configuration
 export const DEFAULT_RACK_CONFIG: RackConfig = {
+  schemaVersion: CONFIG_SCHEMA_VERSION,
   rackU: 2,
   panelWidth: RACK_CONSTANTS.PANEL_WIDTH, // 450.85mm (standard 19" rack)
   earStyle: 'toolless',
@@ -278,3 +361,15 @@ export const DEFAULT_RACK_CONFIG: RackConfig = {
   leftDevices: [],
   rightDevices: [],
 };
+
+// Project library entry the current config belongs to
+export interface ProjectRef {
+  id: string;
+  name: string;
+}
+
+// Earlier layout shown as an overlay for comparison (e.g. a saved revision)
+export interface RackComparison {
+  config: RackConfig;
+  label: string;
+}
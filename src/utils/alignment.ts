@@ -0,0 +1,205 @@
+import type { PlacedDevice } from '../state/types';
+import { getPlacedDeviceDimensions } from './scad-generator';
+import { clampToRackBounds } from './coordinates';
+
+/**
+ * Alignment and distribution helpers for multi-device selections
+ *
+ * All positions use rack coordinates (origin at faceplate center, Y up).
+ * Functions return new center positions keyed by device instance ID and
+ * never mutate the input devices.
+ */
+
+export type AlignMode = 'left' | 'right' | 'top' | 'bottom' | 'centerX' | 'centerY';
+
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export const ALIGN_MODE_LABELS: Record<AlignMode, string> = {
+  left: 'Align Left',
+  right: 'Align Right',
+  top: 'Align Top',
+  bottom: 'Align Bottom',
+  centerX: 'Align Centers (Horizontal)',
+  centerY: 'Align Middles (Vertical)',
+};
+
+export type DevicePositions = Record<string, { x: number; y: number }>;
+
+interface DeviceBounds {
+  device: PlacedDevice;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  width: number;
+  height: number;
+}
+
+function getBounds(device: PlacedDevice): DeviceBounds {
+  const dims = getPlacedDeviceDimensions(device);
+  return {
+    device,
+    left: device.offsetX - dims.width / 2,
+    right: device.offsetX + dims.width / 2,
+    top: device.offsetY + dims.height / 2,
+    bottom: device.offsetY - dims.height / 2,
+    width: dims.width,
+    height: dims.height,
+  };
+}
+
+/**
+ * Align devices to the outermost edge (or shared center) of the selection
+ */
+export function alignDevices(devices: PlacedDevice[], mode: AlignMode): DevicePositions {
+  const positions: DevicePositions = {};
+  if (devices.length < 2) return positions;
+
+  const bounds = devices.map(getBounds);
+  const minLeft = Math.min(...bounds.map((b) => b.left));
+  const maxRight = Math.max(...bounds.map((b) => b.right));
+  const maxTop = Math.max(...bounds.map((b) => b.top));
+  const minBottom = Math.min(...bounds.map((b) => b.bottom));
+
+  for (const b of bounds) {
+    let x = b.device.offsetX;
+    let y = b.device.offsetY;
+
+    switch (mode) {
+      case 'left':
+        x = minLeft + b.width / 2;
+        break;
+      case 'right':
+        x = maxRight - b.width / 2;
+        break;
+      case 'top':
+        y = maxTop - b.height / 2;
+        break;
+      case 'bottom':
+        y = minBottom + b.height / 2;
+        break;
+      case 'centerX':
+        x = (minLeft + maxRight) / 2;
+        break;
+      case 'centerY':
+        y = (maxTop + minBottom) / 2;
+        break;
+    }
+
+    positions[b.device.id] = { x, y };
+  }
+
+  return positions;
+}
+
+/**
+ * Distribute devices so the gaps between neighbours are equal.
+ * The two outermost devices stay in place; needs at least three devices.
+ */
+export function distributeDevices(devices: PlacedDevice[], axis: DistributeAxis): DevicePositions {
+  const positions: DevicePositions = {};
+  if (devices.length < 3) return positions;
+
+  const bounds = devices.map(getBounds);
+
+  if (axis === 'horizontal') {
+    bounds.sort((a, b) => a.left - b.left);
+    // A wide device can reach further right than the one starting last
+    const span = Math.max(...bounds.map((b) => b.right)) - bounds[0].left;
+    const totalWidth = bounds.reduce((sum, b) => sum + b.width, 0);
+    const gap = (span - totalWidth) / (bounds.length - 1);
+
+    let cursor = bounds[0].left;
+    for (const b of bounds) {
+      positions[b.device.id] = { x: cursor + b.width / 2, y: b.device.offsetY };
+      cursor += b.width + gap;
+    }
+  } else {
+    bounds.sort((a, b) => a.bottom - b.bottom);
+    const span = Math.max(...bounds.map((b) => b.top)) - bounds[0].bottom;
+    const totalHeight = bounds.reduce((sum, b) => sum + b.height, 0);
+    const gap = (span - totalHeight) / (bounds.length - 1);
+
+    let cursor = bounds[0].bottom;
+    for (const b of bounds) {
+      positions[b.device.id] = { x: b.device.offsetX, y: cursor + b.height / 2 };
+      cursor += b.height + gap;
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Find devices whose outline intersects a rectangle given in rack coordinates
+ */
+export function getDevicesInRect(
+  devices: PlacedDevice[],
+  rect: { left: number; right: number; top: number; bottom: number }
+): string[] {
+  return devices
+    .map(getBounds)
+    .filter((b) => b.right > rect.left && b.left < rect.right && b.top > rect.bottom && b.bottom < rect.top)
+    .map((b) => b.device.id);
+}
+
+/**
+ * Limit a group move so the selection's bounding box stays on the rack.
+ * Every device moves by the returned offset, so the group keeps its shape.
+ */
+export function clampGroupMove(
+  devices: PlacedDevice[],
+  moveX: number,
+  moveY: number,
+  rackU: number
+): { x: number; y: number } {
+  if (devices.length === 0) return { x: moveX, y: moveY };
+  const bounds = devices.map(getBounds);
+  const left = Math.min(...bounds.map((b) => b.left));
+  const right = Math.max(...bounds.map((b) => b.right));
+  const bottom = Math.min(...bounds.map((b) => b.bottom));
+  const top = Math.max(...bounds.map((b) => b.top));
+  const centerX = (left + right) / 2;
+  const centerY = (bottom + top) / 2;
+
+  const clamped = clampToRackBounds(centerX + moveX, centerY + moveY, right - left, top - bottom, rackU);
+  return { x: clamped.x - centerX, y: clamped.y - centerY };
+}
+
+export type ArraySpacing =
+  | { mode: 'pitch'; pitch: number }  // Fixed center-to-center distance (mm)
+  | { mode: 'spread' };               // Even gaps across the whole panel width
+
+/**
+ * Positions for an array of copies of a device.
+ *
+ * 'pitch' places `count` copies to the right of the original, one pitch apart.
+ * 'spread' lays the original plus `count` copies across the panel with equal
+ * gaps (including the panel edges); the original moves to the first slot.
+ * The first entry is always the original's position.
+ */
+export function getArrayPositions(
+  device: PlacedDevice,
+  count: number,
+  spacing: ArraySpacing,
+  panelWidth: number
+): { x: number; y: number }[] {
+  const positions: { x: number; y: number }[] = [];
+  const total = Math.max(0, Math.floor(count)) + 1;
+
+  if (spacing.mode === 'pitch') {
+    for (let i = 0; i < total; i++) {
+      positions.push({ x: device.offsetX + i * spacing.pitch, y: device.offsetY });
+    }
+    return positions;
+  }
+
+  const { width } = getPlacedDeviceDimensions(device);
+  const gap = Math.max(0, (panelWidth - total * width) / (total + 1));
+  let cursor = -panelWidth / 2 + gap;
+  for (let i = 0; i < total; i++) {
+    positions.push({ x: cursor + width / 2, y: device.offsetY });
+    cursor += width + gap;
+  }
+  return positions;
+}
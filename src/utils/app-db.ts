@@ -0,0 +1,176 @@
+import type { RackConfig } from '../state/types';
+import { renderRackThumbnail } from './rack-thumbnail';
+import { parseRackConfig } from './config-schema';
+
+/**
+ * Shared IndexedDB database for everything the app keeps in the browser.
+ * Each feature module owns one object store; schema upgrades live here so
+ * the version number only has to be bumped in one place.
+ */
+
+const DB_NAME = 'rack-configurator';
+const DB_VERSION = 11;
+
+export const PROJECTS_STORE = 'projects';
+export const AUTOSAVE_STORE = 'autosave';
+export const REVISIONS_STORE = 'revisions';
+export const TEMPLATES_STORE = 'templates';
+export const USER_DEVICES_STORE = 'user-devices';
+export const DEVICE_PACKS_STORE = 'device-packs';
+export const LIBRARY_PREFS_STORE = 'library-prefs';
+export const DEVICE_MESHES_STORE = 'device-meshes';
+export const RENDER_CACHE_STORE = 'render-cache';
+export const EXPORT_PREFS_STORE = 'export-prefs';
+const LEGACY_RECENT_STORE = 'recent-racks';
+
+// Entries from the old three-slot recent racks list
+interface LegacyRecentRack {
+  id: string;
+  name: string;
+  config: RackConfig;
+  timestamp: number;
+  deviceCount: number;
+}
+
+// Revision record for a project saved before revisions were kept
+function createInitialRevision(project: { id: string; config: RackConfig; deviceCount: number; updatedAt: number }) {
+  return {
+    id: `${project.id}-initial`,
+    projectId: project.id,
+    config: project.config,
+    deviceCount: project.deviceCount,
+    savedAt: project.updatedAt,
+  };
+}
+
+// One connection per page, reopened after another tab upgrades the schema
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = openConnection();
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+function openConnection(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+      console.warn('Database upgrade is waiting for other tabs of the app to close');
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade; the next call reopens
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      db.onclose = () => {
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      const transaction = (event.target as IDBOpenDBRequest).transaction!;
+
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        const store = db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) {
+        db.createObjectStore(AUTOSAVE_STORE, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+        const store = db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(USER_DEVICES_STORE)) {
+        db.createObjectStore(USER_DEVICES_STORE, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(DEVICE_PACKS_STORE)) {
+        const store = db.createObjectStore(DEVICE_PACKS_STORE, { keyPath: 'id' });
+        store.createIndex('importedAt', 'importedAt', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(LIBRARY_PREFS_STORE)) {
+        db.createObjectStore(LIBRARY_PREFS_STORE, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(DEVICE_MESHES_STORE)) {
+        db.createObjectStore(DEVICE_MESHES_STORE, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(RENDER_CACHE_STORE)) {
+        const store = db.createObjectStore(RENDER_CACHE_STORE, { keyPath: 'key' });
+        store.createIndex('lastUsed', 'lastUsed', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(EXPORT_PREFS_STORE)) {
+        db.createObjectStore(EXPORT_PREFS_STORE, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(REVISIONS_STORE)) {
+        const store = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+        store.createIndex('projectId', 'projectId', { unique: false });
+
+        // v2/v3 databases: the current state of each project becomes its first revision
+        if (event.oldVersion >= 2) {
+          const cursorRequest = transaction.objectStore(PROJECTS_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (cursor) {
+              store.put(createInitialRevision(cursor.value));
+              cursor.continue();
+            }
+          };
+        }
+      }
+
+      // v1 databases: move recent racks into the project library
+      if (db.objectStoreNames.contains(LEGACY_RECENT_STORE)) {
+        const projects = transaction.objectStore(PROJECTS_STORE);
+        const cursorRequest = transaction.objectStore(LEGACY_RECENT_STORE).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor) {
+            const rack = cursor.value as LegacyRecentRack;
+            // Unreadable racks keep their raw config; opening one reports the errors
+            const parsed = parseRackConfig(rack.config);
+            if (!parsed.ok) {
+              console.warn(`Recent rack "${rack.name}" could not be migrated:`, parsed.errors);
+            }
+            const config = parsed.ok ? parsed.config : rack.config;
+            const project = {
+              id: rack.id,
+              name: rack.name,
+              tags: [],
+              notes: '',
+              config,
+              thumbnail: renderRackThumbnail(config),
+              deviceCount: parsed.ok ? config.devices.length : rack.deviceCount,
+              createdAt: rack.timestamp,
+              updatedAt: rack.timestamp,
+            };
+            projects.put(project);
+            transaction.objectStore(REVISIONS_STORE).put(createInitialRevision(project));
+            cursor.continue();
+          } else {
+            db.deleteObjectStore(LEGACY_RECENT_STORE);
+          }
+        };
+      }
+    };
+  });
+}
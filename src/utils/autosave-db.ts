@@ -0,0 +1,58 @@
+import type { RackConfig, ProjectRef } from '../state/types';
+import { openDatabase, AUTOSAVE_STORE } from './app-db';
+
+// Only the current working session is kept
+const SESSION_ID = 'session';
+
+export interface AutosavedSession {
+  id: typeof SESSION_ID;
+  config: RackConfig;
+  project: ProjectRef | null;   // Library project the session was based on
+  savedAt: number;
+}
+
+/**
+ * Store the working config, replacing the previous autosave
+ */
+export async function writeAutosave(config: RackConfig, project: ProjectRef | null): Promise<void> {
+  const db = await openDatabase();
+
+  const session: AutosavedSession = {
+    id: SESSION_ID,
+    config: JSON.parse(JSON.stringify(config)), // Deep clone
+    project,
+    savedAt: Date.now(),
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(AUTOSAVE_STORE, 'readwrite');
+    transaction.objectStore(AUTOSAVE_STORE).put(session);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function readAutosave(): Promise<AutosavedSession | null> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(AUTOSAVE_STORE, 'readonly');
+    const request = transaction.objectStore(AUTOSAVE_STORE).get(SESSION_ID);
+    request.onsuccess = () => resolve((request.result as AutosavedSession | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Drop the autosave, e.g. after the config was explicitly saved
+ */
+export async function clearAutosave(): Promise<void> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(AUTOSAVE_STORE, 'readwrite');
+    const request = transaction.objectStore(AUTOSAVE_STORE).delete(SESSION_ID);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
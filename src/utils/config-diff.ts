@@ -0,0 +1,171 @@
+import type { RackConfig, PlacedDevice } from '../state/types';
+import { getPlacedDeviceDimensions } from './scad-generator';
+
+/**
+ * Compare two rack configs
+ *
+ * Devices are matched by instance ID, which stays the same across saves of a
+ * project. A matched device counts as moved when its position or split side
+ * changed and as changed when any other per-device setting differs.
+ */
+
+export type DeviceSide = 'main' | 'left' | 'right';
+
+export interface DiffDevice {
+  device: PlacedDevice;
+  side: DeviceSide;
+}
+
+export interface MovedDevice {
+  before: DiffDevice;
+  after: DiffDevice;
+}
+
+export interface ChangedDevice {
+  before: DiffDevice;
+  after: DiffDevice;
+  fields: string[];   // Names of the PlacedDevice fields that differ
+}
+
+export interface SettingChange {
+  key: keyof RackConfig;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ConfigDiff {
+  added: DiffDevice[];
+  removed: DiffDevice[];
+  moved: MovedDevice[];
+  changed: ChangedDevice[];
+  settings: SettingChange[];
+}
+
+// Global settings shown in the diff, in display order
+const SETTING_LABELS: Partial<Record<keyof RackConfig, string>> = {
+  rackU: 'Rack height (U)',
+  panelWidth: 'Panel width',
+  earStyle: 'Ear style',
+  earPosition: 'Ear position',
+  earThickness: 'Ear thickness',
+  toollessHookPattern: 'Hook pattern',
+  toollessHookTrimPattern: 'Hook trim pattern',
+  backStyle: 'Back style',
+  ventType: 'Vent type',
+  hexDiameter: 'Hex diameter',
+  hexWall: 'Hex wall',
+  cutoutEdge: 'Cutout edge',
+  cutoutRadius: 'Cutout radius',
+  plateThickness: 'Plate thickness',
+  cornerRadius: 'Corner radius',
+  clearance: 'Clearance',
+  heavyDevice: 'Heavy device',
+  maxPanelLoad: 'Panel load limit',
+  powerSourceId: 'Power source',
+  maxPower: 'Power budget',
+  showPreview: 'Show preview',
+  showLabels: 'Show labels',
+  isSplit: 'Split panel',
+  splitPosition: 'Split position',
+  splitLocked: 'Split locked',
+  renderMode: 'Render mode',
+  joinerType: 'Joiner type',
+  joinerNutSide: 'Joiner nut side',
+  joinerNutDepth: 'Joiner nut depth',
+  joinerScrewType: 'Joiner screw type',
+  joinerNutFloor: 'Joiner nut floor',
+};
+
+// Position changes smaller than this are rounding noise (mm)
+const MOVE_TOLERANCE = 0.01;
+
+function collectDevices(config: RackConfig): Map<string, DiffDevice> {
+  const devices = new Map<string, DiffDevice>();
+  config.devices.forEach((device) => devices.set(device.id, { device, side: 'main' }));
+  config.leftDevices.forEach((device) => devices.set(device.id, { device, side: 'left' }));
+  config.rightDevices.forEach((device) => devices.set(device.id, { device, side: 'right' }));
+  return devices;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function getChangedFields(before: PlacedDevice, after: PlacedDevice): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof PlacedDevice>;
+  return [...keys].filter(
+    (key) => key !== 'id' && key !== 'offsetX' && key !== 'offsetY' && !isSameValue(before[key], after[key])
+  );
+}
+
+/**
+ * List what changed going from `before` to `after`
+ */
+export function diffConfigs(before: RackConfig, after: RackConfig): ConfigDiff {
+  const beforeDevices = collectDevices(before);
+  const afterDevices = collectDevices(after);
+  const diff: ConfigDiff = { added: [], removed: [], moved: [], changed: [], settings: [] };
+
+  for (const [id, entry] of afterDevices) {
+    const previous = beforeDevices.get(id);
+    if (!previous) {
+      diff.added.push(entry);
+      continue;
+    }
+
+    const hasMoved =
+      previous.side !== entry.side ||
+      Math.abs(previous.device.offsetX - entry.device.offsetX) > MOVE_TOLERANCE ||
+      Math.abs(previous.device.offsetY - entry.device.offsetY) > MOVE_TOLERANCE;
+    if (hasMoved) {
+      diff.moved.push({ before: previous, after: entry });
+    }
+
+    const fields = getChangedFields(previous.device, entry.device);
+    if (fields.length > 0) {
+      diff.changed.push({ before: previous, after: entry, fields });
+    }
+  }
+
+  for (const [id, entry] of beforeDevices) {
+    if (!afterDevices.has(id)) {
+      diff.removed.push(entry);
+    }
+  }
+
+  for (const [key, label] of Object.entries(SETTING_LABELS) as [keyof RackConfig, string][]) {
+    if (!isSameValue(before[key], after[key])) {
+      diff.settings.push({ key, label, before: before[key], after: after[key] });
+    }
+  }
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: ConfigDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.moved.length === 0 &&
+    diff.changed.length === 0 &&
+    diff.settings.length === 0
+  );
+}
+
+/**
+ * Display name of a device in the diff list
+ */
+export function getDiffDeviceName(entry: DiffDevice): string {
+  const name = getPlacedDeviceDimensions(entry.device).name;
+  return entry.side === 'main' ? name : `${name} (${entry.side})`;
+}
+
+/**
+ * Format a setting value for display
+ */
+export function formatSettingValue(value: unknown): string {
+  if (Array.isArray(value)) return value.map((v) => (v ? '1' : '0')).join('');
+  if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+  return String(value);
+}
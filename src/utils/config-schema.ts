@@ -0,0 +1,447 @@
+import type { RackConfig, PlacedDevice } from '../state/types';
+import {
+  CONFIG_SCHEMA_VERSION,
+  DEFAULT_RACK_CONFIG,
+  MOUNT_TYPE_LABELS,
+  DEVICE_ROTATIONS,
+  EAR_STYLE_LABELS,
+  BACK_STYLE_LABELS,
+  SHELF_NOTCH_LABELS,
+  DRIVE_SIZE_LABELS,
+  DRIVE_SCREW_SIDE_LABELS,
+  MAX_DRIVE_COUNT,
+  RENDER_MODE_LABELS,
+  JOINER_NUT_SIDE_LABELS,
+  JOINER_SCREW_TYPE_LABELS,
+  JOINER_TYPE_LABELS,
+  getToollessHookCount,
+} from '../state/types';
+import type { RackDevice } from '../data/devices';
+import {
+  getDevice,
+  isBuiltInDevice,
+  isUserDeviceId,
+  detachFromCatalog,
+  CATEGORY_LABELS,
+  FRONT_FEATURE_KIND_LABELS,
+  FRONT_FEATURE_SHAPE_LABELS,
+} from '../data/devices';
+
+/**
+ * Rack config schema versioning, migration and import validation
+ *
+ * Saved configs carry a `schemaVersion`. Files written before the field
+ * existed are treated as version 1. On import a config is first migrated step
+ * by step to CONFIG_SCHEMA_VERSION, then every field is checked so malformed
+ * files are rejected with readable errors instead of crashing the UI or
+ * producing broken SCAD.
+ */
+
+// Longest accepted user string (device names end up in SCAD and the UI)
+const MAX_NAME_LENGTH = 100;
+
+type RawConfig = Record<string, unknown>;
+
+export type ConfigParseResult =
+  | { ok: true; config: RackConfig; migratedFrom: number | null }
+  | { ok: false; errors: string[] };
+
+// Each migration upgrades a raw config from version N to N + 1
+const MIGRATIONS: Record<number, (raw: RawConfig) => RawConfig> = {
+  // v1 -> v2: unversioned configs from before split panels, joiners and
+  // toolless hook patterns; fill every missing setting with its default
+  1: (raw) => {
+    const rackU = typeof raw.rackU === 'number' ? raw.rackU : DEFAULT_RACK_CONFIG.rackU;
+    const hookCount = getToollessHookCount(rackU);
+    const migrated: RawConfig = { ...DEFAULT_RACK_CONFIG };
+    for (const [key, value] of Object.entries(raw)) {
+      if (value !== undefined && value !== null) migrated[key] = value;
+    }
+    if (!Array.isArray(raw.toollessHookPattern)) {
+      migrated.toollessHookPattern = Array(hookCount).fill(true);
+    }
+    if (!Array.isArray(raw.toollessHookTrimPattern)) {
+      migrated.toollessHookTrimPattern = Array(hookCount).fill(false);
+    }
+    return migrated;
+  },
+};
+
+/**
+ * Upgrade a raw config to the current schema version
+ */
+export function migrateConfig(raw: RawConfig): { config: RawConfig; fromVersion: number } {
+  const fromVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1;
+  let config = raw;
+  for (let version = fromVersion; version < CONFIG_SCHEMA_VERSION; version++) {
+    config = MIGRATIONS[version](config);
+  }
+  return { config: { ...config, schemaVersion: CONFIG_SCHEMA_VERSION }, fromVersion };
+}
+
+// Field checkers collect readable errors keyed by path (e.g. "devices[2].offsetX")
+
+function isObject(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNumber(
+  errors: string[],
+  path: string,
+  value: unknown,
+  opts: { min?: number; max?: number; integer?: boolean; optional?: boolean } = {}
+): void {
+  if (value === undefined && opts.optional) return;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path}: expected a number, got ${JSON.stringify(value) ?? 'nothing'}`);
+    return;
+  }
+  if (opts.integer && !Number.isInteger(value)) {
+    errors.push(`${path}: expected a whole number, got ${value}`);
+  }
+  if (opts.min !== undefined && value < opts.min) {
+    errors.push(`${path}: must be at least ${opts.min}, got ${value}`);
+  }
+  if (opts.max !== undefined && value > opts.max) {
+    errors.push(`${path}: must be at most ${opts.max}, got ${value}`);
+  }
+}
+
+function checkBoolean(errors: string[], path: string, value: unknown, optional = false): void {
+  if (value === undefined && optional) return;
+  if (typeof value !== 'boolean') {
+    errors.push(`${path}: expected true or false, got ${JSON.stringify(value) ?? 'nothing'}`);
+  }
+}
+
+function checkEnum(
+  errors: string[],
+  path: string,
+  value: unknown,
+  labels: Record<string, string>,
+  optional = false
+): void {
+  if (value === undefined && optional) return;
+  if (typeof value !== 'string' || !(value in labels)) {
+    errors.push(`${path}: must be one of ${Object.keys(labels).join(', ')}, got ${JSON.stringify(value) ?? 'nothing'}`);
+  }
+}
+
+function checkBooleanArray(errors: string[], path: string, value: unknown): void {
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'boolean')) {
+    errors.push(`${path}: expected a list of true/false values`);
+  }
+}
+
+function validateDevice(errors: string[], path: string, device: unknown): void {
+  if (!isObject(device)) {
+    errors.push(`${path}: expected a device object`);
+    return;
+  }
+
+  if (typeof device.id !== 'string' || device.id.length === 0) {
+    errors.push(`${path}.id: expected a non-empty string`);
+  }
+  if (typeof device.deviceId !== 'string') {
+    errors.push(`${path}.deviceId: expected a string`);
+  } else if (device.deviceId !== 'custom' && !getDevice(device.deviceId)) {
+    const hint = isUserDeviceId(device.deviceId) ? ' (not in My Devices on this browser)' : '';
+    errors.push(`${path}.deviceId: unknown device "${device.deviceId}"${hint}`);
+  }
+  checkNumber(errors, `${path}.offsetX`, device.offsetX);
+  checkNumber(errors, `${path}.offsetY`, device.offsetY);
+  checkEnum(errors, `${path}.mountType`, device.mountType, MOUNT_TYPE_LABELS);
+  if (device.rotation !== undefined && !(DEVICE_ROTATIONS as unknown[]).includes(device.rotation)) {
+    errors.push(`${path}.rotation: must be one of ${DEVICE_ROTATIONS.join(', ')}, got ${JSON.stringify(device.rotation)}`);
+  }
+  checkEnum(errors, `${path}.backStyle`, device.backStyle, BACK_STYLE_LABELS, true);
+  checkBoolean(errors, `${path}.frontBezel`, device.frontBezel, true);
+
+  if (device.deviceId === 'custom') {
+    checkNumber(errors, `${path}.customWidth`, device.customWidth, { min: 1, max: 1000, optional: true });
+    checkNumber(errors, `${path}.customHeight`, device.customHeight, { min: 1, max: 1000, optional: true });
+    checkNumber(errors, `${path}.customDepth`, device.customDepth, { min: 1, max: 1000, optional: true });
+  }
+  if (device.customName !== undefined) {
+    if (typeof device.customName !== 'string') {
+      errors.push(`${path}.customName: expected a string`);
+    } else if (device.customName.length > MAX_NAME_LENGTH) {
+      errors.push(`${path}.customName: longer than ${MAX_NAME_LENGTH} characters`);
+    }
+  }
+  if (device.proxyMeshId !== undefined && typeof device.proxyMeshId !== 'string') {
+    errors.push(`${path}.proxyMeshId: expected a string`);
+  }
+
+  checkNumber(errors, `${path}.customWeight`, device.customWeight, { min: 0, optional: true });
+  checkNumber(errors, `${path}.customPower`, device.customPower, { min: 0, optional: true });
+
+  checkNumber(errors, `${path}.patchPanelPorts`, device.patchPanelPorts, { min: 1, max: 24, integer: true, optional: true });
+
+  // Shelf settings
+  checkBoolean(errors, `${path}.shelfUseHoneycomb`, device.shelfUseHoneycomb, true);
+  checkBoolean(errors, `${path}.shelfSolidBottom`, device.shelfSolidBottom, true);
+  checkEnum(errors, `${path}.shelfNotch`, device.shelfNotch, SHELF_NOTCH_LABELS, true);
+  checkNumber(errors, `${path}.shelfNotchWidth`, device.shelfNotchWidth, { min: 0, optional: true });
+  checkNumber(errors, `${path}.shelfScrewHoles`, device.shelfScrewHoles, { min: 0, max: 5, integer: true, optional: true });
+  checkNumber(errors, `${path}.shelfCableHolesLeft`, device.shelfCableHolesLeft, { min: 0, max: 5, integer: true, optional: true });
+  checkNumber(errors, `${path}.shelfCableHolesRight`, device.shelfCableHolesRight, { min: 0, max: 5, integer: true, optional: true });
+  checkBoolean(errors, `${path}.shelfPullHandle`, device.shelfPullHandle, true);
+
+  // Drive sled settings
+  checkEnum(errors, `${path}.driveSize`, device.driveSize, DRIVE_SIZE_LABELS, true);
+  checkEnum(errors, `${path}.driveScrewSide`, device.driveScrewSide, DRIVE_SCREW_SIDE_LABELS, true);
+  checkNumber(errors, `${path}.driveCount`, device.driveCount, { min: 1, max: MAX_DRIVE_COUNT, integer: true, optional: true });
+
+  // Standoffs
+  if (device.standoffs !== undefined) {
+    if (!Array.isArray(device.standoffs)) {
+      errors.push(`${path}.standoffs: expected a list`);
+    } else {
+      device.standoffs.forEach((standoff, i) => {
+        const standoffPath = `${path}.standoffs[${i}]`;
+        if (!isObject(standoff)) {
+          errors.push(`${standoffPath}: expected a standoff object`);
+          return;
+        }
+        checkNumber(errors, `${standoffPath}.x`, standoff.x);
+        checkNumber(errors, `${standoffPath}.y`, standoff.y);
+        checkNumber(errors, `${standoffPath}.height`, standoff.height, { min: 0 });
+        checkNumber(errors, `${standoffPath}.outerDia`, standoff.outerDia, { min: 0 });
+        checkNumber(errors, `${standoffPath}.holeDia`, standoff.holeDia, { min: 0 });
+      });
+    }
+  }
+  checkBoolean(errors, `${path}.standoffCountersink`, device.standoffCountersink, true);
+  checkBoolean(errors, `${path}.standoffReinforced`, device.standoffReinforced, true);
+
+  // PCB preset
+  if (device.pcbPreset !== undefined) {
+    const preset = device.pcbPreset;
+    if (!isObject(preset)) {
+      errors.push(`${path}.pcbPreset: expected an object`);
+    } else {
+      checkBoolean(errors, `${path}.pcbPreset.enabled`, preset.enabled);
+      for (const key of ['pcbWidth', 'pcbLength', 'offsetX', 'offsetY', 'height', 'outerDia', 'holeDia']) {
+        checkNumber(errors, `${path}.pcbPreset.${key}`, preset[key]);
+      }
+    }
+  }
+}
+
+function validateDeviceList(errors: string[], path: string, value: unknown): void {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected a list of devices`);
+    return;
+  }
+  value.forEach((device, i) => validateDevice(errors, `${path}[${i}]`, device));
+}
+
+/**
+ * Check a catalog device definition (RackDevice) from an imported device pack
+ */
+export function validateCatalogDevice(errors: string[], path: string, device: unknown): void {
+  if (!isObject(device)) {
+    errors.push(`${path}: expected a device object`);
+    return;
+  }
+  if (typeof device.id !== 'string' || device.id.trim() === '') {
+    errors.push(`${path}.id: expected a non-empty string`);
+  } else if (device.id === 'custom') {
+    errors.push(`${path}.id: "custom" is reserved`);
+  }
+  if (typeof device.name !== 'string' || device.name.trim() === '') {
+    errors.push(`${path}.name: expected a non-empty string`);
+  } else if (device.name.length > MAX_NAME_LENGTH) {
+    errors.push(`${path}.name: longer than ${MAX_NAME_LENGTH} characters`);
+  }
+  checkEnum(errors, `${path}.category`, device.category, CATEGORY_LABELS);
+  checkNumber(errors, `${path}.width`, device.width, { min: 1, max: 1000 });
+  checkNumber(errors, `${path}.height`, device.height, { min: 1, max: 1000 });
+  checkNumber(errors, `${path}.depth`, device.depth, { min: 1, max: 1000 });
+  checkNumber(errors, `${path}.weight`, device.weight, { min: 0, optional: true });
+  checkNumber(errors, `${path}.power`, device.power, { min: 0, optional: true });
+  checkNumber(errors, `${path}.powerCapacity`, device.powerCapacity, { min: 0, optional: true });
+  if (device.allowedMountTypes !== undefined) {
+    if (!Array.isArray(device.allowedMountTypes)) {
+      errors.push(`${path}.allowedMountTypes: expected a list of mount types`);
+    } else {
+      device.allowedMountTypes.forEach((mountType, i) =>
+        checkEnum(errors, `${path}.allowedMountTypes[${i}]`, mountType, MOUNT_TYPE_LABELS)
+      );
+    }
+  }
+  if (device.notes !== undefined && typeof device.notes !== 'string') {
+    errors.push(`${path}.notes: expected a string`);
+  }
+  if (device.frontFeatures !== undefined) {
+    if (!Array.isArray(device.frontFeatures)) {
+      errors.push(`${path}.frontFeatures: expected a list`);
+    } else {
+      device.frontFeatures.forEach((feature, i) => {
+        const featurePath = `${path}.frontFeatures[${i}]`;
+        if (!isObject(feature)) {
+          errors.push(`${featurePath}: expected a feature object`);
+          return;
+        }
+        checkEnum(errors, `${featurePath}.kind`, feature.kind, FRONT_FEATURE_KIND_LABELS);
+        checkEnum(errors, `${featurePath}.shape`, feature.shape, FRONT_FEATURE_SHAPE_LABELS);
+        checkNumber(errors, `${featurePath}.x`, feature.x);
+        checkNumber(errors, `${featurePath}.y`, feature.y);
+        checkNumber(errors, `${featurePath}.width`, feature.width, { min: 0.5, max: 1000 });
+        checkNumber(errors, `${featurePath}.height`, feature.height, { min: 0.5, max: 1000 });
+        if (feature.label !== undefined && typeof feature.label !== 'string') {
+          errors.push(`${featurePath}.label: expected a string`);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Check every field of a (migrated) config. Returns readable error messages.
+ */
+export function validateConfigFields(config: RawConfig): string[] {
+  const errors: string[] = [];
+
+  checkNumber(errors, 'rackU', config.rackU, { min: 1, max: 6, integer: true });
+  checkNumber(errors, 'panelWidth', config.panelWidth, { min: 50, max: 1000 });
+  checkEnum(errors, 'earStyle', config.earStyle, EAR_STYLE_LABELS);
+  checkEnum(errors, 'earPosition', config.earPosition, { bottom: '', top: '', center: '' });
+  checkNumber(errors, 'earThickness', config.earThickness, { min: 0 });
+  checkBooleanArray(errors, 'toollessHookPattern', config.toollessHookPattern);
+  checkBooleanArray(errors, 'toollessHookTrimPattern', config.toollessHookTrimPattern);
+  checkEnum(errors, 'backStyle', config.backStyle, BACK_STYLE_LABELS);
+
+  checkEnum(errors, 'ventType', config.ventType, { honeycomb: '', rectangular: '' });
+  checkNumber(errors, 'hexDiameter', config.hexDiameter, { min: 0 });
+  checkNumber(errors, 'hexWall', config.hexWall, { min: 0 });
+  checkNumber(errors, 'cutoutEdge', config.cutoutEdge, { min: 0 });
+  checkNumber(errors, 'cutoutRadius', config.cutoutRadius, { min: 0 });
+
+  checkNumber(errors, 'plateThickness', config.plateThickness, { min: 0.5, max: 20 });
+  checkNumber(errors, 'cornerRadius', config.cornerRadius, { min: 0 });
+  checkNumber(errors, 'clearance', config.clearance, { min: 0, max: 10 });
+  checkNumber(errors, 'heavyDevice', config.heavyDevice, { min: 0, max: 2, integer: true });
+  checkNumber(errors, 'maxPanelLoad', config.maxPanelLoad, { min: 0, optional: true });
+  checkNumber(errors, 'maxPower', config.maxPower, { min: 0, optional: true });
+  if (config.powerSourceId !== undefined && typeof config.powerSourceId !== 'string') {
+    errors.push('powerSourceId: expected a string');
+  }
+
+  checkBoolean(errors, 'showPreview', config.showPreview);
+  checkBoolean(errors, 'showLabels', config.showLabels);
+
+  checkBoolean(errors, 'isSplit', config.isSplit);
+  checkNumber(errors, 'splitPosition', config.splitPosition);
+  checkBoolean(errors, 'splitLocked', config.splitLocked);
+  checkEnum(errors, 'renderMode', config.renderMode, RENDER_MODE_LABELS);
+
+  checkEnum(errors, 'joinerType', config.joinerType, JOINER_TYPE_LABELS);
+  checkEnum(errors, 'joinerNutSide', config.joinerNutSide, JOINER_NUT_SIDE_LABELS);
+  checkNumber(errors, 'joinerNutDepth', config.joinerNutDepth, { min: 0 });
+  checkEnum(errors, 'joinerScrewType', config.joinerScrewType, JOINER_SCREW_TYPE_LABELS);
+  checkNumber(errors, 'joinerNutFloor', config.joinerNutFloor, { min: 0 });
+
+  validateDeviceList(errors, 'devices', config.devices);
+  validateDeviceList(errors, 'leftDevices', config.leftDevices);
+  validateDeviceList(errors, 'rightDevices', config.rightDevices);
+
+  return errors;
+}
+
+// My Devices and pack entries only exist in the browser that has them, so
+// exported configs carry the definitions of the ones they place
+const EMBEDDED_DEVICES_KEY = 'catalogDevices';
+
+/**
+ * Add the definitions of placed non-built-in catalog devices to an exported
+ * config object (JSON file or share link)
+ */
+export function embedCatalogDevices(exported: Record<string, unknown>, config: RackConfig): Record<string, unknown> {
+  const placed = [...config.devices, ...config.leftDevices, ...config.rightDevices];
+  const embedded = [...new Set(placed.map((d) => d.deviceId))]
+    .filter((id) => id !== 'custom' && !isBuiltInDevice(id))
+    .map((id) => getDevice(id))
+    .filter((device): device is RackDevice => device !== undefined);
+  return embedded.length > 0 ? { ...exported, [EMBEDDED_DEVICES_KEY]: embedded } : exported;
+}
+
+/**
+ * Strip embedded device definitions from an imported config. Placements of
+ * devices missing from this browser's catalog become custom devices built
+ * from the embedded definition.
+ */
+function resolveEmbeddedDevices(config: RawConfig): { config: RawConfig; errors: string[] } {
+  const { [EMBEDDED_DEVICES_KEY]: embedded, ...rest } = config;
+  const errors: string[] = [];
+  if (embedded === undefined) return { config: rest, errors };
+  if (!Array.isArray(embedded)) {
+    errors.push(`${EMBEDDED_DEVICES_KEY}: expected a list of devices`);
+    return { config: rest, errors };
+  }
+  embedded.forEach((device, i) => validateCatalogDevice(errors, `${EMBEDDED_DEVICES_KEY}[${i}]`, device));
+  if (errors.length > 0) return { config: rest, errors };
+
+  const byId = new Map((embedded as RackDevice[]).map((device) => [device.id, device]));
+  const resolve = (list: unknown) => {
+    if (!Array.isArray(list)) return list;
+    return list.map((placed) => {
+      if (!isObject(placed) || typeof placed.deviceId !== 'string' || getDevice(placed.deviceId)) return placed;
+      const device = byId.get(placed.deviceId);
+      return device ? detachFromCatalog(placed as unknown as PlacedDevice, device) : placed;
+    });
+  };
+  return {
+    config: {
+      ...rest,
+      devices: resolve(rest.devices),
+      leftDevices: resolve(rest.leftDevices),
+      rightDevices: resolve(rest.rightDevices),
+    },
+    errors,
+  };
+}
+
+/**
+ * Migrate and validate an untrusted config object (parsed JSON, share link,
+ * stored project)
+ */
+export function parseRackConfig(raw: unknown): ConfigParseResult {
+  if (!isObject(raw)) {
+    return { ok: false, errors: ['File does not contain a rack configuration object'] };
+  }
+
+  const version = raw.schemaVersion;
+  if (version !== undefined && (typeof version !== 'number' || !Number.isInteger(version) || version < 1)) {
+    return { ok: false, errors: [`schemaVersion: expected a whole number, got ${JSON.stringify(version)}`] };
+  }
+  if (typeof version === 'number' && version > CONFIG_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      errors: [`Config uses schema version ${version}, this app only understands up to version ${CONFIG_SCHEMA_VERSION}. Update the app to open it.`],
+    };
+  }
+
+  const { config: migrated, fromVersion } = migrateConfig(raw);
+  const { config, errors: embeddedErrors } = resolveEmbeddedDevices(migrated);
+  const errors = [...embeddedErrors, ...validateConfigFields(config)];
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    config: config as unknown as RackConfig,
+    migratedFrom: fromVersion < CONFIG_SCHEMA_VERSION ? fromVersion : null,
+  };
+}
+
+/**
+ * Check a single placed device from an untrusted source (e.g. clipboard)
+ */
+export function isValidPlacedDevice(device: unknown): device is PlacedDevice {
+  const errors: string[] = [];
+  validateDevice(errors, 'device', device);
+  return errors.length === 0;
+}
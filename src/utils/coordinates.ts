@@ -1,4 +1,5 @@
 import { RACK_CONSTANTS, getRackHeight } from '../state/types';
+import type { DeviceRotation } from '../state/types';
 
 /**
  * Coordinate transformation utilities
@@ -142,6 +143,18 @@ export function getRackBoundsSvg(view: ViewConfig): {
   };
 }
 
+/**
+ * Footprint of a device face turned about the depth axis (90 and 270 swap the sides).
+ * Bounds and overlap checks take the rotated footprint.
+ */
+export function getRotatedSize(
+  width: number,
+  height: number,
+  rotation: DeviceRotation = 0
+): { width: number; height: number } {
+  return rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+}
+
 /**
  * Clamp a device position to stay within rack bounds
  */
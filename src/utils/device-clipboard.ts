@@ -0,0 +1,71 @@
+import type { PlacedDevice } from '../state/types';
+import { getPlacedDeviceDimensions } from './scad-generator';
+import { isValidPlacedDevice } from './config-schema';
+
+/**
+ * Clipboard format for placed devices
+ *
+ * Devices are copied as JSON text so they can be pasted into another browser
+ * tab (or another split side) through the system clipboard. Every per-device
+ * setting is kept; instance IDs are replaced on paste.
+ */
+
+const CLIPBOARD_FORMAT = 'rack-configurator/devices';
+const CLIPBOARD_VERSION = 1;
+
+// Gap between the copied group and its pasted duplicate (mm)
+const PASTE_GAP = 5;
+
+interface DeviceClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  devices: PlacedDevice[];
+}
+
+/**
+ * Serialize devices to clipboard text
+ */
+export function serializeDeviceClipboard(devices: PlacedDevice[]): string {
+  const payload: DeviceClipboardPayload = {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    devices,
+  };
+  return JSON.stringify(payload);
+}
+
+/**
+ * Parse clipboard text back into devices. Returns null for anything that is
+ * not a device clipboard payload (e.g. plain text copied elsewhere).
+ */
+export function parseDeviceClipboard(text: string): PlacedDevice[] | null {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (!payload || typeof payload !== 'object') return null;
+  const { format, version, devices } = payload as Partial<DeviceClipboardPayload>;
+  if (format !== CLIPBOARD_FORMAT || typeof version !== 'number' || version > CLIPBOARD_VERSION) return null;
+  if (!Array.isArray(devices)) return null;
+
+  const valid = devices.filter(isValidPlacedDevice);
+  return valid.length > 0 ? valid : null;
+}
+
+/**
+ * Offset for pasting devices. When the originals are still on the panel the
+ * copies go right next to them; otherwise they keep their original position.
+ */
+export function getPasteOffset(devices: PlacedDevice[], existing: PlacedDevice[]): { x: number; y: number } {
+  const existingIds = new Set(existing.map((d) => d.id));
+  if (!devices.some((d) => existingIds.has(d.id))) {
+    return { x: 0, y: 0 };
+  }
+
+  const lefts = devices.map((d) => d.offsetX - getPlacedDeviceDimensions(d).width / 2);
+  const rights = devices.map((d) => d.offsetX + getPlacedDeviceDimensions(d).width / 2);
+  return { x: Math.max(...rights) - Math.min(...lefts) + PASTE_GAP, y: 0 };
+}
@@ -0,0 +1,115 @@
+import type { RackConfig } from '../state/types';
+import { openDatabase, DEVICE_MESHES_STORE, PROJECTS_STORE, REVISIONS_STORE, TEMPLATES_STORE, AUTOSAVE_STORE } from './app-db';
+import type { StlFrontAxis } from './stl-proxy';
+
+/**
+ * STL models imported for custom devices
+ *
+ * Placed devices only carry the mesh ID (PlacedDevice.proxyMeshId), so
+ * configs, share links and undo history stay small. A config opened on
+ * another machine simply shows no proxy. Meshes no saved layout places any
+ * more are deleted on startup.
+ */
+
+export interface DeviceMesh {
+  id: string;
+  name: string;              // Source file name
+  stl: ArrayBuffer;          // File contents as imported
+  frontAxis: StlFrontAxis;   // Model axis that faces out of the rack
+  createdAt: number;
+}
+
+// Stores whose records keep a RackConfig in `config`
+const CONFIG_STORES = [PROJECTS_STORE, REVISIONS_STORE, TEMPLATES_STORE, AUTOSAVE_STORE];
+
+// Unused meshes younger than this are kept, so a layout still open in
+// another tab doesn't lose its model
+const MIN_UNUSED_MESH_AGE = 24 * 60 * 60 * 1000;
+
+function getMeshIds(config: RackConfig): string[] {
+  return [...config.devices, ...config.leftDevices, ...config.rightDevices]
+    .map((device) => device.proxyMeshId)
+    .filter((id): id is string => id !== undefined);
+}
+
+function generateId(): string {
+  return `mesh-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export async function saveDeviceMesh(name: string, stl: ArrayBuffer, frontAxis: StlFrontAxis): Promise<string> {
+  const db = await openDatabase();
+  const mesh: DeviceMesh = { id: generateId(), name, stl, frontAxis, createdAt: Date.now() };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DEVICE_MESHES_STORE, 'readwrite');
+    transaction.objectStore(DEVICE_MESHES_STORE).put(mesh);
+    transaction.oncomplete = () => resolve(mesh.id);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function readDeviceMesh(id: string): Promise<DeviceMesh | undefined> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DEVICE_MESHES_STORE, 'readonly');
+    const request = transaction.objectStore(DEVICE_MESHES_STORE).get(id);
+    request.onsuccess = () => resolve(request.result as DeviceMesh | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function deleteDeviceMesh(id: string): Promise<void> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DEVICE_MESHES_STORE, 'readwrite');
+    transaction.objectStore(DEVICE_MESHES_STORE).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Delete meshes that no project, revision, template or autosave places, nor
+ * any of `inUse` (the working config and its undo history). Resolves to the
+ * number of meshes deleted.
+ */
+export async function deleteUnusedDeviceMeshes(inUse: RackConfig[]): Promise<number> {
+  const db = await openDatabase();
+  const referenced = new Set(inUse.flatMap(getMeshIds));
+
+  const stored = await Promise.all(
+    CONFIG_STORES.map(
+      (storeName) =>
+        new Promise<{ config?: RackConfig }[]>((resolve, reject) => {
+          const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        })
+    )
+  );
+  for (const record of stored.flat()) {
+    if (record.config) getMeshIds(record.config).forEach((id) => referenced.add(id));
+  }
+
+  const cutoff = Date.now() - MIN_UNUSED_MESH_AGE;
+  const unused = await new Promise<string[]>((resolve, reject) => {
+    const ids: string[] = [];
+    const request = db.transaction(DEVICE_MESHES_STORE, 'readonly').objectStore(DEVICE_MESHES_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(ids);
+        return;
+      }
+      const mesh = cursor.value as DeviceMesh;
+      if (!referenced.has(mesh.id) && mesh.createdAt < cutoff) ids.push(mesh.id);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  await Promise.all(unused.map(deleteDeviceMesh));
+  return unused.length;
+}
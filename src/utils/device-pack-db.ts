@@ -0,0 +1,292 @@
+import type { RackDevice } from '../data/devices';
+import { getAllDevices, registerPackDevices } from '../data/devices';
+import { openDatabase, DEVICE_PACKS_STORE } from './app-db';
+import { validateCatalogDevice } from './config-schema';
+
+/**
+ * Device packs
+ *
+ * Versioned JSON files of RackDevice definitions that teams pass around to
+ * share gear dimensions without rebuilding the app. Imported packs are kept
+ * in IndexedDB and can be switched on and off; devices of enabled packs are
+ * merged into the catalog after the built-in and "My Devices" entries.
+ */
+
+const DEVICE_PACK_FORMAT = 'rack-configurator/device-pack';
+const DEVICE_PACK_VERSION = 1;
+
+export interface DevicePack {
+  id: string;
+  name: string;
+  description: string;
+  devices: RackDevice[];
+  enabled: boolean;
+  importedAt: number;
+}
+
+interface DevicePackFile {
+  format: typeof DEVICE_PACK_FORMAT;
+  version: number;
+  name: string;
+  description: string;
+  devices: RackDevice[];
+}
+
+export type DevicePackParseResult =
+  | { ok: true; name: string; description: string; devices: RackDevice[] }
+  | { ok: false; errors: string[] };
+
+// A pack device whose ID is already used by the catalog
+export interface DeviceIdCollision {
+  id: string;
+  name: string;           // Name of the device in the pack
+  existingName: string;   // Name of the catalog device that has the ID
+  suggestedId: string;    // Free ID to rename the pack device to
+}
+
+export type CollisionResolution = { action: 'rename'; newId: string } | { action: 'skip' };
+
+let loadPromise: Promise<DevicePack[]> | null = null;
+
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Devices of the enabled packs, tagged with the pack they came from
+ */
+export function getEnabledPackDevices(packs: DevicePack[]): RackDevice[] {
+  return packs
+    .filter((pack) => pack.enabled)
+    .flatMap((pack) => pack.devices.map((device) => ({ ...device, packId: pack.id })));
+}
+
+export async function listDevicePacks(): Promise<DevicePack[]> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DEVICE_PACKS_STORE, 'readonly');
+    const request = transaction.objectStore(DEVICE_PACKS_STORE).index('importedAt').getAll();
+    request.onsuccess = () => resolve(request.result as DevicePack[]); // Import order
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Load the packs from IndexedDB and register the enabled ones (once per page load).
+ * Anything that resolves device IDs from stored configs awaits this first.
+ */
+export function loadDevicePacks(): Promise<DevicePack[]> {
+  if (!loadPromise) {
+    loadPromise = listDevicePacks()
+      .catch((error) => {
+        console.error('Failed to load device packs:', error);
+        return [];
+      })
+      .then((packs) => {
+        registerPackDevices(getEnabledPackDevices(packs));
+        return packs;
+      });
+  }
+  return loadPromise;
+}
+
+export async function createDevicePack(name: string, description: string, devices: RackDevice[]): Promise<DevicePack> {
+  const db = await openDatabase();
+
+  const pack: DevicePack = {
+    id: generateId(),
+    name,
+    description,
+    devices,
+    enabled: true,
+    importedAt: Date.now(),
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DEVICE_PACKS_STORE, 'readwrite');
+    transaction.objectStore(DEVICE_PACKS_STORE).add(pack);
+    transaction.oncomplete = () => resolve(pack);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function updateDevicePack(pack: DevicePack): Promise<DevicePack> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DEVICE_PACKS_STORE, 'readwrite');
+    transaction.objectStore(DEVICE_PACKS_STORE).put(pack);
+    transaction.oncomplete = () => resolve(pack);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deleteDevicePack(id: string): Promise<void> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DEVICE_PACKS_STORE, 'readwrite');
+    const request = transaction.objectStore(DEVICE_PACKS_STORE).delete(id);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getFreeDeviceId(id: string, taken: Set<string>): string {
+  let n = 2;
+  while (taken.has(`${id}_${n}`)) n++;
+  return `${id}_${n}`;
+}
+
+/**
+ * Find pack devices whose IDs are already in the catalog. Devices of the pack
+ * itself (`packId`, when re-enabling) don't count.
+ */
+export function findIdCollisions(devices: RackDevice[], packId?: string): DeviceIdCollision[] {
+  const catalog = getAllDevices().filter((d) => !packId || d.packId !== packId);
+  const existing = new Map(catalog.map((d) => [d.id, d]));
+  const taken = new Set([...existing.keys(), ...devices.map((d) => d.id)]);
+
+  const collisions: DeviceIdCollision[] = [];
+  for (const device of devices) {
+    const match = existing.get(device.id);
+    if (!match) continue;
+    const suggestedId = getFreeDeviceId(device.id, taken);
+    taken.add(suggestedId);
+    collisions.push({ id: device.id, name: device.name, existingName: match.name, suggestedId });
+  }
+  return collisions;
+}
+
+/**
+ * Rename or drop colliding devices
+ */
+export function applyCollisionResolutions(
+  devices: RackDevice[],
+  resolutions: Record<string, CollisionResolution>
+): RackDevice[] {
+  return devices.flatMap((device) => {
+    const resolution = resolutions[device.id];
+    if (!resolution) return [device];
+    if (resolution.action === 'skip') return [];
+    return [{ ...device, id: resolution.newId.trim() }];
+  });
+}
+
+/**
+ * Problems left after applying the resolutions (empty when the pack can be added)
+ */
+export function getResolutionErrors(
+  devices: RackDevice[],
+  resolutions: Record<string, CollisionResolution>,
+  packId?: string
+): string[] {
+  const resolved = applyCollisionResolutions(devices, resolutions);
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const device of resolved) {
+    if (device.id === '' || device.id === 'custom') {
+      errors.push(`"${device.name}" needs a valid ID`);
+    } else if (seen.has(device.id)) {
+      errors.push(`ID "${device.id}" is used more than once`);
+    }
+    seen.add(device.id);
+  }
+  for (const collision of findIdCollisions(resolved, packId)) {
+    errors.push(`ID "${collision.id}" is already used by ${collision.existingName}`);
+  }
+  return errors;
+}
+
+// Catalog fields only; origin markers are set again on import
+function toPackDevice(device: RackDevice): RackDevice {
+  const { id, name, category, width, height, depth, weight, power, powerCapacity, allowedMountTypes, notes, frontFeatures } = device;
+  return {
+    id,
+    name,
+    category,
+    width,
+    height,
+    depth,
+    ...(weight !== undefined && { weight }),
+    ...(power !== undefined && { power }),
+    ...(powerCapacity !== undefined && { powerCapacity }),
+    ...(allowedMountTypes && { allowedMountTypes }),
+    ...(notes && { notes }),
+    ...(frontFeatures && frontFeatures.length > 0 && { frontFeatures }),
+  };
+}
+
+/**
+ * Download devices as a device pack file
+ */
+export function downloadDevicePack(name: string, description: string, devices: RackDevice[]): void {
+  const file: DevicePackFile = {
+    format: DEVICE_PACK_FORMAT,
+    version: DEVICE_PACK_VERSION,
+    name,
+    description,
+    devices: devices.map(toPackDevice),
+  };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${name.replace(/[^a-z0-9-_]+/gi, '_')}.devices.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse a device pack file, checking every device definition
+ */
+export function parseDevicePackFile(json: string): DevicePackParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    return { ok: false, errors: [`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+
+  if (!raw || typeof raw !== 'object') {
+    return { ok: false, errors: ['Not a device pack'] };
+  }
+  const { format, version, name, description, devices } = raw as Partial<DevicePackFile>;
+  if (format !== DEVICE_PACK_FORMAT) {
+    return { ok: false, errors: ['Not a device pack (missing "format": "rack-configurator/device-pack")'] };
+  }
+  if (typeof version !== 'number' || version > DEVICE_PACK_VERSION) {
+    return { ok: false, errors: ['Device pack was made by a newer version of the app'] };
+  }
+  if (typeof name !== 'string' || name.trim() === '') {
+    return { ok: false, errors: ['name: expected a non-empty string'] };
+  }
+  if (!Array.isArray(devices) || devices.length === 0) {
+    return { ok: false, errors: ['devices: expected a non-empty list of devices'] };
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  devices.forEach((device, i) => {
+    validateCatalogDevice(errors, `devices[${i}]`, device);
+    if (typeof device?.id === 'string') {
+      if (seen.has(device.id)) errors.push(`devices[${i}].id: "${device.id}" is used more than once`);
+      seen.add(device.id);
+    }
+  });
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    name: name.trim(),
+    description: typeof description === 'string' ? description : '',
+    devices: devices.map(toPackDevice),
+  };
+}
@@ -0,0 +1,139 @@
+import type { RackDevice, DeviceCategory } from '../data/devices';
+import { CATEGORY_LABELS } from '../data/devices';
+import type { MountType } from '../state/types';
+import { getRackHeight } from '../state/types';
+
+/**
+ * Device library search and filters
+ *
+ * Query words match a device's name, ID and category loosely: an exact
+ * substring ranks highest, but letters may also be skipped as long as they
+ * stay in order ("dmse" finds "Dream Machine SE"). Terms like "130x28"
+ * match dimensions, best in width x height x depth order.
+ */
+
+export interface DeviceFilters {
+  category: DeviceCategory | 'all';
+  mountType: MountType | 'any';
+  fitsRack: boolean;   // Only devices whose face fits the current panel
+}
+
+export const DEFAULT_DEVICE_FILTERS: DeviceFilters = {
+  category: 'all',
+  mountType: 'any',
+  fitsRack: false,
+};
+
+// Mount types only offered to devices that list them in allowedMountTypes
+const DEVICE_SPECIFIC_MOUNT_TYPES: MountType[] = ['patch_panel', 'pi5_case', 'drive_sled'];
+
+// Dimension terms match within this many mm
+const DIMENSION_TOLERANCE = 2;
+
+// "130", "130x28", "130x28x110" (a trailing "x" while typing is fine)
+const DIMENSION_TERM = /^\d+(\.\d+)?(x(\d+(\.\d+)?)?){0,2}$/;
+
+export function hasActiveFilters(filters: DeviceFilters): boolean {
+  return filters.category !== 'all' || filters.mountType !== 'any' || filters.fitsRack;
+}
+
+export function matchesDeviceFilters(
+  device: RackDevice,
+  filters: DeviceFilters,
+  rackU: number,
+  panelWidth: number
+): boolean {
+  if (filters.category !== 'all' && device.category !== filters.category) return false;
+  if (filters.mountType !== 'any') {
+    const allowed = device.allowedMountTypes
+      ? device.allowedMountTypes.includes(filters.mountType)
+      : !DEVICE_SPECIFIC_MOUNT_TYPES.includes(filters.mountType);
+    if (!allowed) return false;
+  }
+  if (filters.fitsRack && (device.height > getRackHeight(rackU) || device.width > panelWidth)) return false;
+  return true;
+}
+
+// Lower-case, with separators turned into spaces
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[_\-/]+/g, ' ');
+}
+
+/**
+ * Score of a word against a text: substring matches beat skipped-letter matches,
+ * matches at a word start beat ones inside a word. Null when it doesn't match.
+ */
+function scoreText(term: string, text: string): number | null {
+  const index = text.indexOf(term);
+  if (index >= 0) {
+    const atWordStart = index === 0 || text[index - 1] === ' ';
+    return 100 + (atWordStart ? 20 : 0) - Math.min(index, 20);
+  }
+
+  // Letters in order with gaps
+  if (term.length < 2) return null;
+  let gaps = 0;
+  let position = text.indexOf(term[0]);
+  if (position < 0) return null;
+  for (const char of term.slice(1)) {
+    const next = text.indexOf(char, position + 1);
+    if (next < 0) return null;
+    gaps += next - position - 1;
+    position = next;
+  }
+  const score = 60 - gaps * 3;
+  return score > 0 ? score : null;
+}
+
+function scoreDimensions(term: string, device: RackDevice): number | null {
+  const values = term.split('x').filter(Boolean).map(parseFloat);
+  const dims = [device.width, device.height, device.depth];
+  const near = (a: number, b: number) => Math.abs(a - b) <= DIMENSION_TOLERANCE;
+
+  if (values.every((value, i) => near(value, dims[i]))) return 150;
+
+  // Any order, each dimension used once
+  const unused = [...dims];
+  for (const value of values) {
+    const i = unused.findIndex((dim) => near(value, dim));
+    if (i < 0) return null;
+    unused.splice(i, 1);
+  }
+  return 90;
+}
+
+function scoreTerm(term: string, device: RackDevice): number | null {
+  const scores = [
+    scoreText(term, normalize(device.name)),
+    scoreText(term, normalize(device.id)),
+    scoreText(term, normalize(CATEGORY_LABELS[device.category] ?? '')),
+    DIMENSION_TERM.test(term) ? scoreDimensions(term, device) : null,
+  ].filter((score): score is number => score !== null);
+  return scores.length > 0 ? Math.max(...scores) : null;
+}
+
+/**
+ * Devices matching every word of the query, best match first
+ */
+export function searchDevices(devices: RackDevice[], query: string): RackDevice[] {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return devices;
+
+  const scored: { device: RackDevice; score: number }[] = [];
+  for (const device of devices) {
+    let score = 0;
+    for (const term of terms) {
+      const termScore = scoreTerm(term, device);
+      if (termScore === null) {
+        score = -1;
+        break;
+      }
+      score += termScore;
+    }
+    if (score >= 0) scored.push({ device, score });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.device.name.localeCompare(b.device.name))
+    .map(({ device }) => device);
+}
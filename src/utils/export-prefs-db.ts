@@ -0,0 +1,44 @@
+import type { RenderQuality } from '../state/types';
+import { RENDER_QUALITIES } from '../state/types';
+import { openDatabase, EXPORT_PREFS_STORE } from './app-db';
+
+// Export settings are a single record
+const PREFS_ID = 'export';
+
+// Final exports default to the smoothest profile
+export const DEFAULT_EXPORT_QUALITY: RenderQuality = 'high';
+
+export interface ExportPrefs {
+  quality: RenderQuality;  // Quality profile last picked in the export menu
+}
+
+interface ExportPrefsRecord extends ExportPrefs {
+  id: typeof PREFS_ID;
+}
+
+export async function readExportPrefs(): Promise<ExportPrefs> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(EXPORT_PREFS_STORE, 'readonly');
+    const request = transaction.objectStore(EXPORT_PREFS_STORE).get(PREFS_ID);
+    request.onsuccess = () => {
+      const record = request.result as ExportPrefsRecord | undefined;
+      const quality = record && RENDER_QUALITIES.includes(record.quality) ? record.quality : DEFAULT_EXPORT_QUALITY;
+      resolve({ quality });
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function writeExportPrefs(prefs: ExportPrefs): Promise<void> {
+  const db = await openDatabase();
+  const record: ExportPrefsRecord = { id: PREFS_ID, quality: prefs.quality };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(EXPORT_PREFS_STORE, 'readwrite');
+    transaction.objectStore(EXPORT_PREFS_STORE).put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
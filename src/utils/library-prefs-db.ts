@@ -0,0 +1,49 @@
+import { openDatabase, LIBRARY_PREFS_STORE } from './app-db';
+
+// The device library keeps a single record
+const PREFS_ID = 'library';
+
+// Devices kept in the "Recently Placed" list
+export const MAX_RECENT_DEVICES = 8;
+
+export interface LibraryPrefs {
+  favorites: string[];  // Starred device IDs
+  recent: string[];     // Recently placed device IDs, newest first
+}
+
+interface LibraryPrefsRecord extends LibraryPrefs {
+  id: typeof PREFS_ID;
+}
+
+/**
+ * Move a device to the front of the recently placed list
+ */
+export function addRecentDevice(recent: string[], deviceId: string): string[] {
+  return [deviceId, ...recent.filter((id) => id !== deviceId)].slice(0, MAX_RECENT_DEVICES);
+}
+
+export async function readLibraryPrefs(): Promise<LibraryPrefs> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(LIBRARY_PREFS_STORE, 'readonly');
+    const request = transaction.objectStore(LIBRARY_PREFS_STORE).get(PREFS_ID);
+    request.onsuccess = () => {
+      const record = request.result as LibraryPrefsRecord | undefined;
+      resolve({ favorites: record?.favorites ?? [], recent: record?.recent ?? [] });
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function writeLibraryPrefs(prefs: LibraryPrefs): Promise<void> {
+  const db = await openDatabase();
+  const record: LibraryPrefsRecord = { id: PREFS_ID, favorites: prefs.favorites, recent: prefs.recent };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(LIBRARY_PREFS_STORE, 'readwrite');
+    transaction.objectStore(LIBRARY_PREFS_STORE).put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
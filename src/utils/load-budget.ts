@@ -0,0 +1,161 @@
+import type { RackConfig, PlacedDevice } from '../state/types';
+import { DRIVE_LOADS, getDevice } from '../data/devices';
+import { getDriveSledSettings, getPlacedDeviceDimensions } from './scad-generator';
+
+/**
+ * Load and power budget
+ *
+ * Sums device weight and power draw per panel, finds the center of mass on
+ * the faceplate and compares the totals with the configured limits. Weights
+ * are in grams, power in watts; positions use rack coordinates (origin at
+ * faceplate center, Y up).
+ */
+
+// Defaults when the config doesn't set its own limits
+export const DEFAULT_MAX_PANEL_LOAD = 5000;  // g
+export const DEFAULT_MAX_POWER = 300;        // W
+
+// Heaviest single device (g) from which heavy_device 1 and 2 are recommended
+const HEAVY_DEVICE_THRESHOLDS = [800, 2000] as const;
+
+export interface PanelLoad {
+  label: string;
+  deviceCount: number;
+  weight: number;                              // g, devices with a known weight only
+  power: number;                               // W, devices with a known draw only
+  unknownWeight: number;                       // Devices without a weight
+  unknownPower: number;                        // Devices without a power draw
+  centerOfMass: { x: number; y: number } | null;
+  heaviest: { name: string; weight: number } | null;
+}
+
+export interface LoadBudget {
+  panels: PanelLoad[];
+  totalWeight: number;
+  totalPower: number;
+  maxPanelLoad: number;
+  maxPower: number;
+  powerSourceName: string | null;              // UPS the power budget comes from
+  recommendedHeavyDevice: 0 | 1 | 2;
+  warnings: string[];
+}
+
+// Typical load of the drives in a drive sled, from its drive size and count
+function getDriveSledLoad(device: PlacedDevice): { weight: number; power: number } | undefined {
+  if (device.mountType !== 'drive_sled') return undefined;
+  const { size, count } = getDriveSledSettings(device);
+  return { weight: DRIVE_LOADS[size].weight * count, power: DRIVE_LOADS[size].power * count };
+}
+
+// Weight of a placed device: its own value, else its drives' or the catalog's
+export function getPlacedDeviceWeight(device: PlacedDevice): number | undefined {
+  return device.customWeight ?? getDriveSledLoad(device)?.weight ?? getDevice(device.deviceId)?.weight;
+}
+
+// Power draw of a placed device: its own value, else its drives' or the catalog's
+export function getPlacedDevicePower(device: PlacedDevice): number | undefined {
+  return device.customPower ?? getDriveSledLoad(device)?.power ?? getDevice(device.deviceId)?.power;
+}
+
+/**
+ * Format a weight in grams for display
+ */
+export function formatWeight(grams: number): string {
+  return grams >= 1000 ? `${(grams / 1000).toFixed(2)} kg` : `${Math.round(grams)} g`;
+}
+
+function getPanelLoad(label: string, devices: PlacedDevice[]): PanelLoad {
+  let weight = 0;
+  let power = 0;
+  let unknownWeight = 0;
+  let unknownPower = 0;
+  let momentX = 0;
+  let momentY = 0;
+  let heaviest: PanelLoad['heaviest'] = null;
+
+  for (const device of devices) {
+    const deviceWeight = getPlacedDeviceWeight(device);
+    if (deviceWeight === undefined) {
+      unknownWeight++;
+    } else {
+      weight += deviceWeight;
+      momentX += deviceWeight * device.offsetX;
+      momentY += deviceWeight * device.offsetY;
+      if (!heaviest || deviceWeight > heaviest.weight) {
+        heaviest = { name: getPlacedDeviceDimensions(device).name, weight: deviceWeight };
+      }
+    }
+
+    const devicePower = getPlacedDevicePower(device);
+    if (devicePower === undefined) {
+      unknownPower++;
+    } else {
+      power += devicePower;
+    }
+  }
+
+  return {
+    label,
+    deviceCount: devices.length,
+    weight,
+    power,
+    unknownWeight,
+    unknownPower,
+    centerOfMass: weight > 0 ? { x: momentX / weight, y: momentY / weight } : null,
+    heaviest,
+  };
+}
+
+/**
+ * heavy_device level for the heaviest device on the rack
+ */
+export function getRecommendedHeavyDevice(panels: PanelLoad[]): 0 | 1 | 2 {
+  const heaviest = Math.max(0, ...panels.map((p) => p.heaviest?.weight ?? 0));
+  if (heaviest >= HEAVY_DEVICE_THRESHOLDS[1]) return 2;
+  if (heaviest >= HEAVY_DEVICE_THRESHOLDS[0]) return 1;
+  return 0;
+}
+
+/**
+ * Totals, center of mass and limit warnings for a configuration
+ */
+export function computeLoadBudget(config: RackConfig): LoadBudget {
+  const panels = config.isSplit
+    ? [getPanelLoad('Left panel', config.leftDevices), getPanelLoad('Right panel', config.rightDevices)]
+    : [getPanelLoad('Faceplate', config.devices)];
+
+  const powerSource = config.powerSourceId ? getDevice(config.powerSourceId) : undefined;
+  const maxPanelLoad = config.maxPanelLoad ?? DEFAULT_MAX_PANEL_LOAD;
+  const maxPower = powerSource?.powerCapacity ?? config.maxPower ?? DEFAULT_MAX_POWER;
+  const totalWeight = panels.reduce((sum, p) => sum + p.weight, 0);
+  const totalPower = panels.reduce((sum, p) => sum + p.power, 0);
+  const recommendedHeavyDevice = getRecommendedHeavyDevice(panels);
+
+  const warnings: string[] = [];
+  for (const panel of panels) {
+    if (panel.weight > maxPanelLoad) {
+      warnings.push(`${panel.label} carries ${formatWeight(panel.weight)}, over the ${formatWeight(maxPanelLoad)} limit`);
+    }
+  }
+  if (totalPower > maxPower) {
+    const source = powerSource ? powerSource.name : 'the power budget';
+    warnings.push(`Devices draw ${totalPower} W, more than ${source} supplies (${maxPower} W)`);
+  }
+  if (config.powerSourceId && !powerSource) {
+    warnings.push(`Power source "${config.powerSourceId}" is not in the device catalog`);
+  }
+  if (config.heavyDevice < recommendedHeavyDevice) {
+    warnings.push(`Heavy device support is ${config.heavyDevice}, level ${recommendedHeavyDevice} is recommended for this load`);
+  }
+
+  return {
+    panels,
+    totalWeight,
+    totalPower,
+    maxPanelLoad,
+    maxPower,
+    powerSourceName: powerSource?.name ?? null,
+    recommendedHeavyDevice,
+    warnings,
+  };
+}
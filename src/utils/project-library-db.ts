@@ -0,0 +1,272 @@
+import type { RackConfig } from '../state/types';
+import { getDevice } from '../data/devices';
+import { renderRackThumbnail } from './rack-thumbnail';
+import { openDatabase, PROJECTS_STORE, REVISIONS_STORE } from './app-db';
+
+const STORE_NAME = PROJECTS_STORE;
+
+export interface LibraryProject {
+  id: string;
+  name: string;
+  tags: string[];
+  notes: string;
+  config: RackConfig;
+  thumbnail: string;    // SVG data URL of the front view
+  deviceCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Immutable snapshot written on every save of a project's config
+export interface ProjectRevision {
+  id: string;
+  projectId: string;
+  config: RackConfig;
+  deviceCount: number;
+  savedAt: number;
+}
+
+export interface ProjectDetails {
+  name: string;
+  tags: string[];
+  notes: string;
+}
+
+export type ProjectSort = 'updated' | 'created' | 'name' | 'devices';
+
+export const PROJECT_SORT_LABELS: Record<ProjectSort, string> = {
+  updated: 'Last modified',
+  created: 'Date created',
+  name: 'Name',
+  devices: 'Device count',
+};
+
+function countDevices(config: RackConfig): number {
+  return config.devices.length + config.leftDevices.length + config.rightDevices.length;
+}
+
+function createProjectRecord(id: string, details: ProjectDetails, config: RackConfig, createdAt: number): LibraryProject {
+  return {
+    id,
+    ...details,
+    config: JSON.parse(JSON.stringify(config)), // Deep clone
+    thumbnail: renderRackThumbnail(config),
+    deviceCount: countDevices(config),
+    createdAt,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Suggest a project name from the rack size and its first device
+ */
+export function generateProjectName(config: RackConfig): string {
+  const allDevices = [
+    ...config.devices,
+    ...config.leftDevices,
+    ...config.rightDevices,
+  ];
+
+  const deviceCount = allDevices.length;
+  const splitLabel = config.isSplit ? ' Split' : '';
+
+  if (deviceCount === 0) {
+    return `${config.rackU}U${splitLabel} Rack (Empty)`;
+  }
+
+  // Get the first device name for context
+  const firstDevice = allDevices[0];
+  let deviceName = 'Custom Device';
+  if (firstDevice.deviceId !== 'custom') {
+    const device = getDevice(firstDevice.deviceId);
+    if (device) {
+      deviceName = device.name;
+    }
+  } else if (firstDevice.customName) {
+    deviceName = firstDevice.customName;
+  }
+
+  if (deviceCount === 1) {
+    return `${config.rackU}U${splitLabel} - ${deviceName}`;
+  }
+
+  return `${config.rackU}U${splitLabel} - ${deviceName} +${deviceCount - 1}`;
+}
+
+/**
+ * Parse a comma separated tag list, dropping blanks and duplicates
+ */
+export function parseTags(text: string): string[] {
+  const tags = text.split(',').map((t) => t.trim()).filter((t) => t.length > 0);
+  return [...new Set(tags)];
+}
+
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// Write a project, adding a revision when its config was saved
+function putProject(project: LibraryProject, addRevision: boolean): Promise<LibraryProject> {
+  return openDatabase().then((db) => new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, REVISIONS_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).put(project);
+    if (addRevision) {
+      const revision: ProjectRevision = {
+        id: generateId(),
+        projectId: project.id,
+        config: project.config,
+        deviceCount: project.deviceCount,
+        savedAt: project.updatedAt,
+      };
+      transaction.objectStore(REVISIONS_STORE).add(revision);
+    }
+    transaction.oncomplete = () => resolve(project);
+    transaction.onerror = () => reject(transaction.error);
+  }));
+}
+
+export async function getProject(id: string): Promise<LibraryProject | null> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).get(id);
+    request.onsuccess = () => resolve((request.result as LibraryProject | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function listProjects(): Promise<LibraryProject[]> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const index = transaction.objectStore(STORE_NAME).index('updatedAt');
+
+    const projects: LibraryProject[] = [];
+    const request = index.openCursor(null, 'prev'); // Newest first
+
+    request.onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+
+      if (cursor) {
+        projects.push(cursor.value);
+        cursor.continue();
+      } else {
+        resolve(projects);
+      }
+    };
+
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Save a config as a new project
+ */
+export async function createProject(config: RackConfig, details: ProjectDetails): Promise<LibraryProject> {
+  return putProject(createProjectRecord(generateId(), details, config, Date.now()), true);
+}
+
+/**
+ * Overwrite the config of an existing project, keeping its details
+ */
+export async function saveProjectConfig(id: string, config: RackConfig): Promise<LibraryProject> {
+  const existing = await getProject(id);
+  if (!existing) {
+    throw new Error('Project no longer exists in the library');
+  }
+  const { name, tags, notes } = existing;
+  return putProject(createProjectRecord(id, { name, tags, notes }, config, existing.createdAt), true);
+}
+
+/**
+ * Update name, tags or notes without touching the config
+ */
+export async function updateProjectDetails(id: string, details: Partial<ProjectDetails>): Promise<LibraryProject> {
+  const existing = await getProject(id);
+  if (!existing) {
+    throw new Error('Project no longer exists in the library');
+  }
+  return putProject({ ...existing, ...details, updatedAt: Date.now() }, false);
+}
+
+export async function renameProject(id: string, name: string): Promise<LibraryProject> {
+  return updateProjectDetails(id, { name });
+}
+
+export async function duplicateProject(id: string): Promise<LibraryProject> {
+  const existing = await getProject(id);
+  if (!existing) {
+    throw new Error('Project no longer exists in the library');
+  }
+  const { name, tags, notes, config } = existing;
+  return createProject(config, { name: `${name} (copy)`, tags, notes });
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, REVISIONS_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+
+    // Revisions go with the project
+    const request = transaction.objectStore(REVISIONS_STORE).index('projectId').openCursor(IDBKeyRange.only(id));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * All revisions of a project, newest first
+ */
+export async function listRevisions(projectId: string): Promise<ProjectRevision[]> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(REVISIONS_STORE, 'readonly');
+    const request = transaction.objectStore(REVISIONS_STORE).index('projectId').getAll(IDBKeyRange.only(projectId));
+    request.onsuccess = () => {
+      const revisions = request.result as ProjectRevision[];
+      resolve(revisions.sort((a, b) => b.savedAt - a.savedAt));
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Filter projects by a search query. Every word must appear in the name,
+ * a tag or the notes (case-insensitive).
+ */
+export function searchProjects(projects: LibraryProject[], query: string): LibraryProject[] {
+  const words = query.toLowerCase().split(/\s+/).filter((w) => w.length > 0);
+  if (words.length === 0) return projects;
+
+  return projects.filter((project) => {
+    const haystack = [project.name, ...project.tags, project.notes].join('\n').toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+}
+
+export function sortProjects(projects: LibraryProject[], sort: ProjectSort): LibraryProject[] {
+  const sorted = [...projects];
+  switch (sort) {
+    case 'updated':
+      return sorted.sort((a, b) => b.updatedAt - a.updatedAt);
+    case 'created':
+      return sorted.sort((a, b) => b.createdAt - a.createdAt);
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    case 'devices':
+      return sorted.sort((a, b) => b.deviceCount - a.deviceCount);
+  }
+}
@@ -0,0 +1,45 @@
+import type { RackConfig } from '../state/types';
+import { MOUNT_TYPE_COLORS } from '../state/types';
+import { getRackDimensions } from './coordinates';
+import { getPlacedDeviceDimensions } from './scad-generator';
+
+// Thumbnail width in px, height follows the panel aspect ratio
+const THUMBNAIL_WIDTH = 240;
+
+/**
+ * Render a front view of the rack panel as an SVG data URL for the project
+ * library. Devices are drawn as colored boxes, like in the 2D editor.
+ */
+export function renderRackThumbnail(config: RackConfig): string {
+  const panel = getRackDimensions(config.rackU, config.panelWidth);
+  const scale = THUMBNAIL_WIDTH / panel.width;
+  const height = Math.round(panel.height * scale);
+
+  const allDevices = [
+    ...(config.devices ?? []),
+    ...(config.leftDevices ?? []),
+    ...(config.rightDevices ?? []),
+  ];
+
+  const deviceRects = allDevices.map((device) => {
+    const dims = getPlacedDeviceDimensions(device);
+    const x = (device.offsetX - dims.width / 2 + panel.width / 2) * scale;
+    const y = (panel.height / 2 - device.offsetY - dims.height / 2) * scale;
+    const color = MOUNT_TYPE_COLORS[device.mountType] || '#3b82f6';
+    return `<rect x="${x.toFixed(1)}" y="${y.toFixed(1)}" width="${(dims.width * scale).toFixed(1)}" height="${(dims.height * scale).toFixed(1)}" rx="1" fill="${color}" fill-opacity="0.8"/>`;
+  });
+
+  const splitLine = config.isSplit
+    ? `<line x1="${((config.splitPosition + panel.width / 2) * scale).toFixed(1)}" y1="0" x2="${((config.splitPosition + panel.width / 2) * scale).toFixed(1)}" y2="${height}" stroke="#f59e0b" stroke-dasharray="3 2"/>`
+    : '';
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${THUMBNAIL_WIDTH}" height="${height}" viewBox="0 0 ${THUMBNAIL_WIDTH} ${height}">`,
+    `<rect width="${THUMBNAIL_WIDTH}" height="${height}" rx="3" fill="#374151" stroke="#4b5563"/>`,
+    ...deviceRects,
+    splitLine,
+    '</svg>',
+  ].join('');
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
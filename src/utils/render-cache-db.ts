@@ -0,0 +1,124 @@
+import { openDatabase, RENDER_CACHE_STORE } from './app-db';
+import type { OpenSCADInvocation, OpenSCADOutputLine } from '../worker/types';
+
+/**
+ * Rendered STLs, keyed by a hash of everything that goes into a render:
+ * the generated SCAD, its variables, generated library files (the device
+ * table) and the shipped SCAD library itself. Least recently used entries
+ * are dropped once the cache grows past its size cap.
+ */
+
+export const MAX_RENDER_CACHE_BYTES = 100 * 1024 * 1024;
+
+export interface CachedRender {
+  stl: ArrayBuffer;
+  stdout: string;
+  stderr: string;
+  log?: OpenSCADOutputLine[];
+}
+
+interface RenderCacheRecord {
+  key: string;
+  stl: Blob;         // Blobs aren't read into memory when eviction walks the store
+  size: number;      // bytes
+  stdout: string;
+  stderr: string;
+  log?: OpenSCADOutputLine[];   // Missing on entries cached before the log was kept
+  lastUsed: number;
+}
+
+let libraryVersionPromise: Promise<string> | null = null;
+
+async function sha256(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Hash of the shipped SCAD library, so a new release never serves old geometry
+function getLibraryVersion(): Promise<string> {
+  if (!libraryVersionPromise) {
+    libraryVersionPromise = fetch(`${import.meta.env.BASE_URL}rack-scad.zip`)
+      .then((response) => {
+        if (!response.ok) throw new Error('Failed to load rack-scad.zip');
+        return response.arrayBuffer();
+      })
+      .then(sha256);
+    libraryVersionPromise.catch(() => {
+      libraryVersionPromise = null;
+    });
+  }
+  return libraryVersionPromise;
+}
+
+// The header's generation time changes on every call but not the geometry
+const GENERATED_AT_LINE = /^ \* Generated by .* on .*$/m;
+
+export async function getRenderCacheKey(invocation: OpenSCADInvocation): Promise<string> {
+  const library = await getLibraryVersion();
+  const { outputFormat, variables, files } = invocation;
+  const scadCode = invocation.scadCode.replace(GENERATED_AT_LINE, '');
+  return sha256(new TextEncoder().encode(JSON.stringify({ library, scadCode, outputFormat, variables, files })));
+}
+
+/**
+ * The cached render for a key, marking it as recently used
+ */
+export async function readCachedRender(key: string): Promise<CachedRender | null> {
+  const db = await openDatabase();
+
+  const record = await new Promise<RenderCacheRecord | undefined>((resolve, reject) => {
+    const transaction = db.transaction(RENDER_CACHE_STORE, 'readwrite');
+    const store = transaction.objectStore(RENDER_CACHE_STORE);
+    const request = store.get(key);
+    request.onsuccess = () => {
+      const found = request.result as RenderCacheRecord | undefined;
+      if (found) store.put({ ...found, lastUsed: Date.now() });
+      resolve(found);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  if (!record) return null;
+  return { stl: await record.stl.arrayBuffer(), stdout: record.stdout, stderr: record.stderr, log: record.log };
+}
+
+/**
+ * Store a render, then evict least recently used entries over the size cap
+ */
+export async function writeCachedRender(key: string, render: CachedRender): Promise<void> {
+  const size = render.stl.byteLength;
+  if (size > MAX_RENDER_CACHE_BYTES) return;
+
+  const db = await openDatabase();
+  const record: RenderCacheRecord = {
+    key,
+    stl: new Blob([render.stl]),
+    size,
+    stdout: render.stdout,
+    stderr: render.stderr,
+    log: render.log,
+    lastUsed: Date.now(),
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(RENDER_CACHE_STORE, 'readwrite');
+    const store = transaction.objectStore(RENDER_CACHE_STORE);
+    store.put(record);
+
+    // Newest first: keep entries while they fit, delete the rest
+    let total = 0;
+    const cursorRequest = store.index('lastUsed').openCursor(null, 'prev');
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      total += (cursor.value as RenderCacheRecord).size;
+      if (total > MAX_RENDER_CACHE_BYTES) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
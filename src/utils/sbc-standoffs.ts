@@ -0,0 +1,47 @@
+import type { MountType, PlacedDevice, StandoffConfig } from '../state/types';
+import { getDevice, getSbcMountPattern } from '../data/devices';
+
+/**
+ * Standoffs generated from a board's screw hole pattern
+ *
+ * Boards listed in SBC_MOUNT_PATTERNS get one standoff per screw hole when
+ * they go on a shelf or tray, so nobody has to type the positions in by
+ * hand. Standoff positions are relative to the shelf/tray center: X across
+ * the device, Y from front to back.
+ */
+
+// Mount types that carry standoffs
+export const STANDOFF_MOUNT_TYPES: MountType[] = ['shelf', 'tray'];
+
+// Patterns with a flush height (VESA-style) still get a small screw boss (mm)
+const MIN_PATTERN_STANDOFF_HEIGHT = 2;
+
+/**
+ * Standoffs matching a device's screw hole pattern, or null when it has none
+ */
+export function getPatternStandoffs(deviceId: string): StandoffConfig[] | null {
+  const pattern = getSbcMountPattern(deviceId);
+  const device = getDevice(deviceId);
+  if (!pattern || !device) return null;
+
+  return pattern.holes.map(([x, y]) => ({
+    x: x - device.width / 2,
+    y: y - device.depth / 2,
+    height: Math.max(pattern.standoffHeight, MIN_PATTERN_STANDOFF_HEIGHT),
+    // Same sizing as sbc_mount in mount_screw.scad
+    outerDia: pattern.screwSize * 2 + 2,
+    holeDia: pattern.screwSize + 0.2,
+  }));
+}
+
+/**
+ * Fill in pattern standoffs for a device that was just put on a shelf or
+ * tray. Devices whose standoffs were already set (even to none) are kept.
+ */
+export function withPatternStandoffs(device: PlacedDevice): PlacedDevice {
+  if (!STANDOFF_MOUNT_TYPES.includes(device.mountType) || device.standoffs !== undefined) {
+    return device;
+  }
+  const standoffs = getPatternStandoffs(device.deviceId);
+  return standoffs ? { ...device, standoffs } : device;
+}
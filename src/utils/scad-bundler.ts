@@ -5,7 +5,18 @@
  * so the output works without needing the components folder.
  */
 
-import type { RackConfig, PlacedDevice } from '../state/types';
+import type { RackConfig, PlacedDevice, RenderQuality } from '../state/types';
+import {
+  scadString,
+  getCustomDeviceSpec,
+  generateEntryTail,
+  generateFrontFeatures,
+  generateDriveParams,
+  generateQualitySettings,
+  QUALITY_PROFILES,
+} from './scad-generator';
+import { injectScadDeviceTable, generateScadDeviceTable } from './scad-device-table';
+import { getAllDevices } from '../data/devices';
 
 // Component file contents will be embedded at build time or fetched at runtime
 // Cache is cleared on page reload to pick up file changes
@@ -60,6 +71,7 @@ async function fetchComponents(): Promise<Map<string, string>> {
  * Generate devices array in OpenSCAD syntax
  * Device format: ["device_id", offsetX, offsetY, mountType, backStyle]
  * Custom device format: ["custom", offsetX, offsetY, mountType, [w, h, d], "name", backStyle]
+ * Optional trailing slots: extraParams, [frontFeatures], rotation (see generateEntryTail)
  * backStyle can be "default" to use global setting, or "solid"/"vent"/"none" for override
  */
 function generateDevicesArray(devices: PlacedDevice[]): string {
@@ -71,10 +83,17 @@ function generateDevicesArray(devices: PlacedDevice[]): string {
     // Use "default" if no per-device backStyle is set, otherwise use the specific style
     const backStyle = device.backStyle || 'default';
 
-    if (device.deviceId === 'custom') {
-      return `    ["custom", ${device.offsetX}, ${device.offsetY}, "${device.mountType}", [${device.customWidth}, ${device.customHeight}, ${device.customDepth}], "${device.customName || 'Custom Device'}", "${backStyle}"]`;
+    // Extra params: port count for patch panels, [driveParams] for drive sleds
+    const extraParams = device.mountType === 'patch_panel'
+      ? String(device.patchPanelPorts || 6)
+      : device.mountType === 'drive_sled' ? generateDriveParams(device) : null;
+    const tail = generateEntryTail(extraParams, generateFrontFeatures(device), device.rotation);
+
+    const custom = getCustomDeviceSpec(device);
+    if (custom) {
+      return `    ["custom", ${device.offsetX}, ${device.offsetY}, ${scadString(device.mountType)}, [${custom.width}, ${custom.height}, ${custom.depth}], ${scadString(custom.name)}, ${scadString(backStyle)}${tail}]`;
     } else {
-      return `    ["${device.deviceId}", ${device.offsetX}, ${device.offsetY}, "${device.mountType}", "${backStyle}"]`;
+      return `    [${scadString(device.deviceId)}, ${device.offsetX}, ${device.offsetY}, ${scadString(device.mountType)}, ${scadString(backStyle)}${tail}]`;
     }
   });
 
@@ -84,8 +103,11 @@ function generateDevicesArray(devices: PlacedDevice[]): string {
 /**
  * Generate the main render call
  */
-function generateRenderCall(config: RackConfig): string {
+function generateRenderCall(config: RackConfig, quality: RenderQuality): string {
   const lines: string[] = [];
+  const previewFeatures = QUALITY_PROFILES[quality].previewFeatures;
+  const showPreview = previewFeatures ? config.showPreview : false;
+  const showLabels = previewFeatures ? config.showLabels : false;
 
   if (config.isSplit) {
     const leftDevicesCode = generateDevicesArray(config.leftDevices);
@@ -98,23 +120,23 @@ function generateRenderCall(config: RackConfig): string {
     lines.push(`    split_x = ${config.splitPosition},`);
     lines.push(`    plate_thick = ${config.plateThickness},`);
     lines.push(`    corner_radius = ${config.cornerRadius},`);
-    lines.push(`    ear_style = "${config.earStyle}",`);
+    lines.push(`    ear_style = ${scadString(config.earStyle)},`);
     lines.push(`    ear_thickness = ${config.earThickness},`);
-    lines.push(`    ear_position = "${config.earPosition}",`);
+    lines.push(`    ear_position = ${scadString(config.earPosition)},`);
     lines.push(`    hook_pattern = ${JSON.stringify(config.toollessHookPattern || [true])},`);
     lines.push(`    clearance = ${config.clearance},`);
     lines.push(`    hex_diameter = ${config.hexDiameter},`);
     lines.push(`    hex_wall = ${config.hexWall},`);
-    lines.push(`    back_style = "${config.backStyle}",`);
+    lines.push(`    back_style = ${scadString(config.backStyle)},`);
     lines.push(`    cutout_edge = ${config.cutoutEdge},`);
     lines.push(`    cutout_radius = ${config.cutoutRadius},`);
-    lines.push(`    show_preview = ${config.showPreview},`);
-    lines.push(`    show_labels = ${config.showLabels},`);
-    lines.push(`    render_part = "${config.renderMode}",`);
-    lines.push(`    joiner_type = "${config.joinerType || 'screw'}",`);
-    lines.push(`    joiner_nut_side = "${config.joinerNutSide || 'right'}",`);
+    lines.push(`    show_preview = ${showPreview},`);
+    lines.push(`    show_labels = ${showLabels},`);
+    lines.push(`    render_part = ${scadString(config.renderMode)},`);
+    lines.push(`    joiner_type = ${scadString(config.joinerType || 'screw')},`);
+    lines.push(`    joiner_nut_side = ${scadString(config.joinerNutSide || 'right')},`);
     lines.push(`    joiner_nut_depth = ${config.joinerNutDepth || 4.5},`);
-    lines.push(`    joiner_screw_type = "${config.joinerScrewType || 'M5'}",`);
+    lines.push(`    joiner_screw_type = ${scadString(config.joinerScrewType || 'M5')},`);
     lines.push(`    joiner_nut_floor = ${config.joinerNutFloor ?? 0}`);
     lines.push(');');
   } else {
@@ -125,19 +147,19 @@ function generateRenderCall(config: RackConfig): string {
     lines.push(`    devices = ${devicesCode},`);
     lines.push(`    plate_thick = ${config.plateThickness},`);
     lines.push(`    corner_radius = ${config.cornerRadius},`);
-    lines.push(`    ear_style = "${config.earStyle}",`);
+    lines.push(`    ear_style = ${scadString(config.earStyle)},`);
     lines.push(`    ear_thickness = ${config.earThickness},`);
-    lines.push(`    ear_position = "${config.earPosition}",`);
+    lines.push(`    ear_position = ${scadString(config.earPosition)},`);
     lines.push(`    hook_pattern = ${JSON.stringify(config.toollessHookPattern || [true])},`);
     lines.push(`    clearance = ${config.clearance},`);
     lines.push(`    hex_diameter = ${config.hexDiameter},`);
     lines.push(`    hex_wall = ${config.hexWall},`);
-    lines.push(`    back_style = "${config.backStyle}",`);
+    lines.push(`    back_style = ${scadString(config.backStyle)},`);
     lines.push(`    cutout_edge = ${config.cutoutEdge},`);
     lines.push(`    cutout_radius = ${config.cutoutRadius},`);
     lines.push(`    heavy_device = ${config.heavyDevice},`);
-    lines.push(`    show_preview = ${config.showPreview},`);
-    lines.push(`    show_labels = ${config.showLabels}`);
+    lines.push(`    show_preview = ${showPreview},`);
+    lines.push(`    show_labels = ${showLabels}`);
     lines.push(');');
   }
 
@@ -147,7 +169,10 @@ function generateRenderCall(config: RackConfig): string {
 /**
  * Generate a self-contained SCAD file with all components inlined
  */
-export async function generateBundledScadCode(config: RackConfig): Promise<string> {
+export async function generateBundledScadCode(
+  config: RackConfig,
+  quality: RenderQuality = 'standard'
+): Promise<string> {
   const components = await fetchComponents();
   const lines: string[] = [];
 
@@ -168,12 +193,16 @@ export async function generateBundledScadCode(config: RackConfig): Promise<strin
   lines.push(' * This file is self-contained - no external dependencies needed.');
   lines.push(' */');
   lines.push('');
-  lines.push('$fn = 32;');
+  lines.push(...generateQualitySettings(quality));
   lines.push('');
 
   // Add all component files
   for (const filename of COMPONENT_FILES) {
-    const content = components.get(filename);
+    let content = components.get(filename);
+    if (content && filename === 'devices.scad') {
+      // Same device table the live render uses, generated from the catalog
+      content = injectScadDeviceTable(content, generateScadDeviceTable(getAllDevices()));
+    }
     if (content) {
       lines.push(`// ============================================================================`);
       lines.push(`// ${filename.toUpperCase()}`);
@@ -189,7 +218,7 @@ export async function generateBundledScadCode(config: RackConfig): Promise<strin
   lines.push('// RENDER');
   lines.push('// ============================================================================');
   lines.push('');
-  lines.push(generateRenderCall(config));
+  lines.push(generateRenderCall(config, quality));
 
   return lines.join('\n');
 }
@@ -220,8 +249,11 @@ export function generateBundledFilename(config: RackConfig): string {
 /**
  * Download the bundled SCAD file
  */
-export async function downloadBundledScadFile(config: RackConfig): Promise<void> {
-  const code = await generateBundledScadCode(config);
+export async function downloadBundledScadFile(
+  config: RackConfig,
+  quality: RenderQuality = 'standard'
+): Promise<void> {
+  const code = await generateBundledScadCode(config, quality);
   const blob = new Blob([code], { type: 'text/plain' });
   const url = URL.createObjectURL(blob);
 
@@ -0,0 +1,146 @@
+import type { RackDevice } from '../data/devices';
+import { CATEGORY_LABELS, getAllCategories } from '../data/devices';
+import { scadString } from './scad-generator';
+
+/**
+ * SCAD device table generated from the TypeScript catalog
+ *
+ * src/data/devices.ts is the single source of truth for device dimensions.
+ * The `DEVICES = [...]` table in components/devices.scad is regenerated from
+ * it (built-in, "My Devices" and enabled pack devices) and written into the
+ * worker filesystem before every render, so the two can't drift at render
+ * time. `checkScadDeviceTable` flags the shipped table when it disagrees.
+ */
+
+// One row of the SCAD table: ["device_id", [width, height, depth], "Display Name", "Category"]
+export interface ScadDeviceEntry {
+  id: string;
+  width: number;
+  height: number;
+  depth: number;
+  name: string;
+  category: string;
+}
+
+export interface DeviceTableMismatch {
+  id: string;
+  kind: 'dimensions' | 'missing_in_scad' | 'missing_in_catalog';
+  message: string;
+}
+
+// The whole `DEVICES = [ ... ];` assignment, up to the closing bracket at column 0
+const DEVICES_TABLE_PATTERN = /^DEVICES\s*=\s*\[[\s\S]*?^\];/m;
+
+const DEVICE_ROW_PATTERN = /\[\s*"([^"]+)"\s*,\s*\[\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*\]\s*,\s*"((?:[^"\\]|\\.)*)"\s*,\s*"([^"]*)"\s*\]/g;
+
+// Dimensions closer than this are the same (mm)
+const DIMENSION_TOLERANCE = 0.01;
+
+let devicesScadSource: Promise<string> | null = null;
+
+/**
+ * Generate the `DEVICES = [...]` table, grouped by category
+ */
+export function generateScadDeviceTable(devices: RackDevice[]): string {
+  const lines = ['DEVICES = ['];
+
+  for (const category of getAllCategories()) {
+    const inCategory = devices.filter((d) => d.category === category);
+    if (inCategory.length === 0) continue;
+
+    lines.push(`    // ${CATEGORY_LABELS[category]}`);
+    for (const d of inCategory) {
+      lines.push(`    [${scadString(d.id)}, [${d.width}, ${d.height}, ${d.depth}], ${scadString(d.name)}, ${scadString(d.category)}],`);
+    }
+  }
+
+  lines.push('];');
+  return lines.join('\n');
+}
+
+/**
+ * Replace the device table of a devices.scad source, keeping its helper
+ * functions and mounting patterns
+ */
+export function injectScadDeviceTable(devicesScad: string, table: string): string {
+  if (!DEVICES_TABLE_PATTERN.test(devicesScad)) {
+    throw new Error('devices.scad has no DEVICES table');
+  }
+  return devicesScad.replace(DEVICES_TABLE_PATTERN, () => table);
+}
+
+/**
+ * Read the rows of the device table in a devices.scad source
+ */
+export function parseScadDeviceTable(devicesScad: string): ScadDeviceEntry[] {
+  const table = devicesScad.match(DEVICES_TABLE_PATTERN)?.[0] ?? '';
+  return [...table.matchAll(DEVICE_ROW_PATTERN)].map((match) => ({
+    id: match[1],
+    width: parseFloat(match[2]),
+    height: parseFloat(match[3]),
+    depth: parseFloat(match[4]),
+    name: match[5],
+    category: match[6],
+  }));
+}
+
+/**
+ * Compare a devices.scad table against the catalog
+ */
+export function checkScadDeviceTable(devicesScad: string, devices: RackDevice[]): DeviceTableMismatch[] {
+  const scadEntries = new Map(parseScadDeviceTable(devicesScad).map((entry) => [entry.id, entry]));
+  const mismatches: DeviceTableMismatch[] = [];
+
+  for (const device of devices) {
+    const entry = scadEntries.get(device.id);
+    if (!entry) {
+      mismatches.push({ id: device.id, kind: 'missing_in_scad', message: `${device.name} (${device.id}) is not in devices.scad` });
+      continue;
+    }
+    const differs = (['width', 'height', 'depth'] as const).filter(
+      (key) => Math.abs(device[key] - entry[key]) > DIMENSION_TOLERANCE
+    );
+    if (differs.length > 0) {
+      mismatches.push({
+        id: device.id,
+        kind: 'dimensions',
+        message: `${device.name} (${device.id}): catalog ${device.width}x${device.height}x${device.depth}, devices.scad ${entry.width}x${entry.height}x${entry.depth}`,
+      });
+    }
+  }
+
+  const catalogIds = new Set(devices.map((d) => d.id));
+  for (const entry of scadEntries.values()) {
+    if (!catalogIds.has(entry.id)) {
+      mismatches.push({ id: entry.id, kind: 'missing_in_catalog', message: `${entry.name} (${entry.id}) is only in devices.scad` });
+    }
+  }
+
+  return mismatches;
+}
+
+/**
+ * Fetch the shipped components/devices.scad (once per page load)
+ */
+export function fetchDevicesScadSource(): Promise<string> {
+  if (!devicesScadSource) {
+    devicesScadSource = fetch(`${import.meta.env.BASE_URL}components/devices.scad`)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to fetch devices.scad (${response.status})`);
+        return response.text();
+      })
+      .catch((error) => {
+        devicesScadSource = null;  // Retry on the next render
+        throw error;
+      });
+  }
+  return devicesScadSource;
+}
+
+/**
+ * devices.scad with its table generated from the given catalog
+ */
+export async function generateDevicesScad(devices: RackDevice[]): Promise<string> {
+  const source = await fetchDevicesScadSource();
+  return injectScadDeviceTable(source, generateScadDeviceTable(devices));
+}
@@ -1,11 +1,68 @@
-import type { RackConfig, PlacedDevice } from '../state/types';
-import { getDevice } from '../data/devices';
+import type { RackConfig, PlacedDevice, StandoffConfig, DriveSize, DriveScrewSide, DeviceRotation, RenderQuality } from '../state/types';
+import { CONFIG_SCHEMA_VERSION, DRIVE_SIZE_LABELS, MAX_DRIVE_COUNT, RENDER_QUALITY_LABELS } from '../state/types';
+import { DRIVE_MOUNT_PATTERNS, getDevice, getFrontFeatures, isBuiltInDevice } from '../data/devices';
+import { parseRackConfig, embedCatalogDevices } from './config-schema';
+import { getRotatedSize } from './coordinates';
+import type { ConfigParseResult } from './config-schema';
 import JSZip from 'jszip';
 
+// Drive sled layout, must match drive_sled_positioned in components/mount_screw.scad
+const DRIVE_SLED_WALL = 3;  // Floor thickness between stacked drives
+const DRIVE_SLED_GAP = 2;   // Screw head room above each drive
+
+/**
+ * Quote a value as an OpenSCAD string literal, escaping backslashes, quotes
+ * and control characters so user text can never break out of the literal
+ */
+export function scadString(value: string): string {
+  let escaped = '';
+  for (const ch of value) {
+    if (ch === '\\') escaped += '\\\\';
+    else if (ch === '"') escaped += '\\"';
+    else if (ch === '\n') escaped += '\\n';
+    else if (ch === '\r') escaped += '\\r';
+    else if (ch === '\t') escaped += '\\t';
+    else if (ch.charCodeAt(0) >= 0x20 && ch.charCodeAt(0) !== 0x7f) escaped += ch;
+    // Other control characters are dropped
+  }
+  return `"${escaped}"`;
+}
+
+export interface QualityProfile {
+  fa: number;                // $fa, largest angle per facet in degrees (bounds big circles)
+  fs: number;                // $fs, shortest facet in mm (bounds small holes and standoffs)
+  previewFeatures: boolean;  // Draw device preview boxes and labels when the config shows them
+  description: string;
+}
+
+export const QUALITY_PROFILES: Record<RenderQuality, QualityProfile> = {
+  draft: { fa: 12, fs: 1, previewFeatures: false, description: 'Coarse curves, fastest' },
+  standard: { fa: 6, fs: 0.5, previewFeatures: true, description: 'Balanced detail and speed' },
+  high: { fa: 2, fs: 0.2, previewFeatures: true, description: 'Smooth holes and standoffs, slowest' },
+};
+
+/**
+ * Facet settings for a quality profile. $fn stays 0, otherwise it would
+ * override $fa and $fs.
+ */
+export function generateQualitySettings(quality: RenderQuality): string[] {
+  const profile = QUALITY_PROFILES[quality];
+  return [
+    `// Quality: ${RENDER_QUALITY_LABELS[quality]}`,
+    '$fn = 0;',
+    `$fa = ${profile.fa};`,
+    `$fs = ${profile.fs};`,
+  ];
+}
+
 /**
  * Generate OpenSCAD code from a rack configuration
  */
-export function generateScadCode(config: RackConfig, useConfigPreview = true): string {
+export function generateScadCode(
+  config: RackConfig,
+  useConfigPreview = true,
+  quality: RenderQuality = 'standard'
+): string {
   const lines: string[] = [];
 
   // Header with timestamp
@@ -30,13 +87,13 @@ export function generateScadCode(config: RackConfig, useConfigPreview = true): s
   lines.push('include <components/constants.scad>');
   lines.push('');
 
-  // Quality setting
-  lines.push('$fn = 32;');
+  lines.push(...generateQualitySettings(quality));
   lines.push('');
 
   // Determine preview settings
-  const showPreview = useConfigPreview ? config.showPreview : false;
-  const showLabels = useConfigPreview ? config.showLabels : false;
+  const previewFeatures = useConfigPreview && QUALITY_PROFILES[quality].previewFeatures;
+  const showPreview = previewFeatures ? config.showPreview : false;
+  const showLabels = previewFeatures ? config.showLabels : false;
 
   if (config.isSplit) {
     // Split panel mode
@@ -52,24 +109,24 @@ export function generateScadCode(config: RackConfig, useConfigPreview = true): s
     lines.push(`    split_x = ${config.splitPosition},`);
     lines.push(`    plate_thick = ${config.plateThickness},`);
     lines.push(`    corner_radius = ${config.cornerRadius},`);
-    lines.push(`    ear_style = "${config.earStyle}",`);
+    lines.push(`    ear_style = ${scadString(config.earStyle)},`);
     lines.push(`    ear_thickness = ${config.earThickness},`);
-    lines.push(`    ear_position = "${config.earPosition}",`);
+    lines.push(`    ear_position = ${scadString(config.earPosition)},`);
     lines.push(`    hook_pattern = ${JSON.stringify(config.toollessHookPattern || [true])},`);
     lines.push(`    trim_pattern = ${JSON.stringify(config.toollessHookTrimPattern || [])},`);
     lines.push(`    clearance = ${config.clearance},`);
     lines.push(`    hex_diameter = ${config.hexDiameter},`);
     lines.push(`    hex_wall = ${config.hexWall},`);
-    lines.push(`    back_style = "${config.backStyle}",`);
+    lines.push(`    back_style = ${scadString(config.backStyle)},`);
     lines.push(`    cutout_edge = ${config.cutoutEdge},`);
     lines.push(`    cutout_radius = ${config.cutoutRadius},`);
     lines.push(`    show_preview = ${showPreview},`);
     lines.push(`    show_labels = ${showLabels},`);
-    lines.push(`    render_part = "${config.renderMode}",`);
-    lines.push(`    joiner_type = "${config.joinerType || 'screw'}",`);
-    lines.push(`    joiner_nut_side = "${config.joinerNutSide || 'right'}",`);
+    lines.push(`    render_part = ${scadString(config.renderMode)},`);
+    lines.push(`    joiner_type = ${scadString(config.joinerType || 'screw')},`);
+    lines.push(`    joiner_nut_side = ${scadString(config.joinerNutSide || 'right')},`);
     lines.push(`    joiner_nut_depth = ${config.joinerNutDepth || 4.5},`);
-    lines.push(`    joiner_screw_type = "${config.joinerScrewType || 'M5'}",`);
+    lines.push(`    joiner_screw_type = ${scadString(config.joinerScrewType || 'M5')},`);
     lines.push(`    joiner_nut_floor = ${config.joinerNutFloor ?? 0}`);
     lines.push(');');
   } else {
@@ -83,15 +140,15 @@ export function generateScadCode(config: RackConfig, useConfigPreview = true): s
     lines.push(`    devices = ${devicesCode},`);
     lines.push(`    plate_thick = ${config.plateThickness},`);
     lines.push(`    corner_radius = ${config.cornerRadius},`);
-    lines.push(`    ear_style = "${config.earStyle}",`);
+    lines.push(`    ear_style = ${scadString(config.earStyle)},`);
     lines.push(`    ear_thickness = ${config.earThickness},`);
-    lines.push(`    ear_position = "${config.earPosition}",`);
+    lines.push(`    ear_position = ${scadString(config.earPosition)},`);
     lines.push(`    hook_pattern = ${JSON.stringify(config.toollessHookPattern || [true])},`);
     lines.push(`    trim_pattern = ${JSON.stringify(config.toollessHookTrimPattern || [])},`);
     lines.push(`    clearance = ${config.clearance},`);
     lines.push(`    hex_diameter = ${config.hexDiameter},`);
     lines.push(`    hex_wall = ${config.hexWall},`);
-    lines.push(`    back_style = "${config.backStyle}",`);
+    lines.push(`    back_style = ${scadString(config.backStyle)},`);
     lines.push(`    cutout_edge = ${config.cutoutEdge},`);
     lines.push(`    cutout_radius = ${config.cutoutRadius},`);
     lines.push(`    heavy_device = ${config.heavyDevice},`);
@@ -103,6 +160,55 @@ export function generateScadCode(config: RackConfig, useConfigPreview = true): s
   return lines.join('\n');
 }
 
+/**
+ * Dimensions and name to emit in the "custom" entry format, or null for devices
+ * the SCAD library knows by ID
+ */
+export function getCustomDeviceSpec(device: PlacedDevice): { width: number; height: number; depth: number; name: string } | null {
+  // The sled envelope depends on the drive options, not the device table
+  if (device.mountType === 'drive_sled') {
+    return getUnrotatedDeviceDimensions(device);
+  }
+  if (device.deviceId === 'custom') {
+    return {
+      width: device.customWidth || 50,
+      height: device.customHeight || 30,
+      depth: device.customDepth || 50,
+      name: device.customName || 'Custom Device',
+    };
+  }
+  if (!isBuiltInDevice(device.deviceId)) {
+    const catalogDevice = getDevice(device.deviceId);
+    if (catalogDevice) {
+      return { width: catalogDevice.width, height: catalogDevice.height, depth: catalogDevice.depth, name: catalogDevice.name };
+    }
+  }
+  return null;
+}
+
+/**
+ * Bezel openings for a device placed with `frontBezel`, or null to cut the full rectangle
+ * Format: [[shape, x, y, width, height], ...] relative to the device face center
+ */
+export function generateFrontFeatures(device: PlacedDevice): string | null {
+  if (!device.frontBezel || device.deviceId === 'custom' || device.mountType === 'drive_sled') return null;
+  const features = getFrontFeatures(device.deviceId);
+  if (features.length === 0) return null;
+  return '[' + features.map((f) => `[${scadString(f.shape)}, ${f.x}, ${f.y}, ${f.width}, ${f.height}]`).join(', ') + ']';
+}
+
+/**
+ * Optional trailing slots of a device entry: extraParams, [frontFeatures], rotation.
+ * Slots before the last one in use get [] placeholders.
+ */
+export function generateEntryTail(extraParams: string | null, frontFeatures: string | null, rotation: DeviceRotation = 0): string {
+  const used = rotation !== 0 ? 3 : frontFeatures ? 2 : extraParams ? 1 : 0;
+  return [extraParams ?? '[]', frontFeatures ?? '[]', String(rotation)]
+    .slice(0, used)
+    .map((slot) => `, ${slot}`)
+    .join('');
+}
+
 /**
  * Generate the devices array in OpenSCAD syntax
  * Device format: ["device_id", offsetX, offsetY, mountType, backStyle]
@@ -111,6 +217,11 @@ export function generateScadCode(config: RackConfig, useConfigPreview = true): s
  * Custom device format: ["custom", offsetX, offsetY, mountType, [w, h, d], "name", backStyle]
  * Custom device with patch panel: ["custom", offsetX, offsetY, mountType, [w, h, d], "name", backStyle, patchPanelPorts]
  * Custom device with shelf: ["custom", offsetX, offsetY, "shelf", [w, h, d], "name", backStyle, [shelfParams]]
+ * Devices on a tray with standoffs put [trayParams] in the same slot as shelfParams
+ * Drive sleds always use the custom format, with [driveParams] in the same slot
+ * Devices with a front bezel append [frontFeatures] after the extra params ([] when there are none)
+ * Rotated devices append their rotation after [frontFeatures]; dimensions stay unrotated
+ * "My Devices" and device pack entries use the custom format since the SCAD device table doesn't know them
  * backStyle can be "default" to use global setting, or "solid"/"vent"/"none" for override
  * shelfParams = [useHoneycomb, notch, notchWidth, screwHoles, cableHolesLeft, cableHolesRight]
  */
@@ -127,30 +238,71 @@ function generateDevicesArray(devices: PlacedDevice[]): string {
     // Generate shelf params array if this is a shelf mount
     const shelfParams = device.mountType === 'shelf' ? generateShelfParams(device) : null;
 
-    if (device.deviceId === 'custom') {
-      // Custom device: ["custom", offsetX, offsetY, mountType, [w, h, d], "name", backStyle, extraParams?]
-      if (device.mountType === 'patch_panel') {
-        return `        ["custom", ${device.offsetX}, ${device.offsetY}, "${device.mountType}", [${device.customWidth}, ${device.customHeight}, ${device.customDepth}], "${device.customName || 'Custom Device'}", "${backStyle}", ${patchPanelPorts}]`;
-      }
-      if (device.mountType === 'shelf' && shelfParams) {
-        return `        ["custom", ${device.offsetX}, ${device.offsetY}, "${device.mountType}", [${device.customWidth}, ${device.customHeight}, ${device.customDepth}], "${device.customName || 'Custom Device'}", "${backStyle}", ${shelfParams}]`;
-      }
-      return `        ["custom", ${device.offsetX}, ${device.offsetY}, "${device.mountType}", [${device.customWidth}, ${device.customHeight}, ${device.customDepth}], "${device.customName || 'Custom Device'}", "${backStyle}"]`;
+    // Extra params: patch panel port count, shelf params or tray params
+    let extraParams: string | null = null;
+    if (device.mountType === 'patch_panel') {
+      extraParams = String(patchPanelPorts);
+    } else if (device.mountType === 'shelf' && shelfParams) {
+      extraParams = shelfParams;
+    } else if (device.mountType === 'tray' && (device.standoffs || []).length > 0) {
+      extraParams = generateTrayParams(device);
+    } else if (device.mountType === 'drive_sled') {
+      extraParams = generateDriveParams(device);
+    }
+
+    const tail = generateEntryTail(extraParams, generateFrontFeatures(device), device.rotation);
+
+    const custom = getCustomDeviceSpec(device);
+    if (custom) {
+      // Custom device: ["custom", offsetX, offsetY, mountType, [w, h, d], "name", backStyle, extraParams?, frontFeatures?, rotation?]
+      const dims = `[${custom.width}, ${custom.height}, ${custom.depth}]`;
+      return `        ["custom", ${device.offsetX}, ${device.offsetY}, ${scadString(device.mountType)}, ${dims}, ${scadString(custom.name)}, ${scadString(backStyle)}${tail}]`;
     } else {
-      // Standard device: ["device_id", offsetX, offsetY, mountType, backStyle, extraParams?]
-      if (device.mountType === 'patch_panel') {
-        return `        ["${device.deviceId}", ${device.offsetX}, ${device.offsetY}, "${device.mountType}", "${backStyle}", ${patchPanelPorts}]`;
-      }
-      if (device.mountType === 'shelf' && shelfParams) {
-        return `        ["${device.deviceId}", ${device.offsetX}, ${device.offsetY}, "${device.mountType}", "${backStyle}", ${shelfParams}]`;
-      }
-      return `        ["${device.deviceId}", ${device.offsetX}, ${device.offsetY}, "${device.mountType}", "${backStyle}"]`;
+      // Standard device: ["device_id", offsetX, offsetY, mountType, backStyle, extraParams?, frontFeatures?, rotation?]
+      return `        [${scadString(device.deviceId)}, ${device.offsetX}, ${device.offsetY}, ${scadString(device.mountType)}, ${scadString(backStyle)}${tail}]`;
     }
   });
 
   return '[\n' + deviceStrings.join(',\n') + '\n    ]';
 }
 
+/**
+ * Standoffs in OpenSCAD syntax: [[x, y, height, outerDia, holeDia], ...]
+ */
+function generateStandoffs(standoffs: StandoffConfig[]): string {
+  return standoffs.length > 0
+    ? `[${standoffs.map(s => `[${s.x}, ${s.y}, ${s.height}, ${s.outerDia}, ${s.holeDia}]`).join(', ')}]`
+    : '[]';
+}
+
+/**
+ * Generate tray parameters array for OpenSCAD
+ * Returns: [standoffs, standoffCountersink, standoffReinforced]
+ */
+function generateTrayParams(device: PlacedDevice): string {
+  return `[${generateStandoffs(device.standoffs || [])}, ${device.standoffCountersink === true}, ${device.standoffReinforced === true}]`;
+}
+
+/**
+ * Generate drive sled parameters array for OpenSCAD
+ * Returns: [driveSize, screwSide, count]
+ */
+export function generateDriveParams(device: PlacedDevice): string {
+  const { size, screwSide, count } = getDriveSledSettings(device);
+  return `[${scadString(size)}, ${scadString(screwSide)}, ${count}]`;
+}
+
+/**
+ * Drive sled options of a placed device with their defaults filled in
+ */
+export function getDriveSledSettings(device: PlacedDevice): { size: DriveSize; screwSide: DriveScrewSide; count: number } {
+  const size = device.driveSize || 'hdd_35';
+  // M.2 sticks have no side holes
+  const screwSide = DRIVE_MOUNT_PATTERNS[size].sideHoles.length > 0 ? device.driveScrewSide || 'bottom' : 'bottom';
+  const count = Math.min(MAX_DRIVE_COUNT, Math.max(1, Math.round(device.driveCount || 1)));
+  return { size, screwSide, count };
+}
+
 /**
  * Generate shelf parameters array for OpenSCAD
  * Returns: [useHoneycomb, notch, notchWidth, screwHoles, cableHolesLeft, cableHolesRight,
@@ -167,9 +319,7 @@ function generateShelfParams(device: PlacedDevice): string {
 
   // Generate standoffs array: [[x, y, height, outerDia, holeDia], ...]
   const standoffs = device.standoffs || [];
-  const standoffsStr = standoffs.length > 0
-    ? `[${standoffs.map(s => `[${s.x}, ${s.y}, ${s.height}, ${s.outerDia}, ${s.holeDia}]`).join(', ')}]`
-    : '[]';
+  const standoffsStr = generateStandoffs(standoffs);
 
   // Standoff options
   const standoffCountersink = device.standoffCountersink === true;
@@ -184,11 +334,12 @@ function generateShelfParams(device: PlacedDevice): string {
     ? `[true, ${pcbPreset.pcbWidth}, ${pcbPreset.pcbLength}, ${pcbPreset.offsetX}, ${pcbPreset.offsetY}, ${pcbPreset.height}, ${pcbPreset.outerDia}, ${pcbPreset.holeDia}]`
     : '[]';
 
-  return `[${useHoneycomb}, "${notch}", ${notchWidth}, ${screwHoles}, ${cableHolesLeft}, ${cableHolesRight}, ${solidBottom}, ${standoffsStr}, ${standoffCountersink}, ${standoffReinforced}, ${pullHandle}, ${pcbPresetStr}]`;
+  return `[${useHoneycomb}, ${scadString(notch)}, ${notchWidth}, ${screwHoles}, ${cableHolesLeft}, ${cableHolesRight}, ${solidBottom}, ${standoffsStr}, ${standoffCountersink}, ${standoffReinforced}, ${pullHandle}, ${pcbPresetStr}]`;
 }
 
 /**
- * Get the effective dimensions of a placed device
+ * Get the effective dimensions of a placed device, with width and height of its
+ * rotated footprint on the panel
  */
 export function getPlacedDeviceDimensions(device: PlacedDevice): {
   width: number;
@@ -196,6 +347,34 @@ export function getPlacedDeviceDimensions(device: PlacedDevice): {
   depth: number;
   name: string;
 } {
+  const dims = getUnrotatedDeviceDimensions(device);
+  return { ...dims, ...getRotatedSize(dims.width, dims.height, device.rotation) };
+}
+
+/**
+ * Get the dimensions of a placed device as it stands upright (before its rotation)
+ */
+export function getUnrotatedDeviceDimensions(device: PlacedDevice): {
+  width: number;
+  height: number;
+  depth: number;
+  name: string;
+} {
+  // Drive sled - the stack of drives behind the cutout
+  if (device.mountType === 'drive_sled') {
+    const { size, count } = getDriveSledSettings(device);
+    const pattern = DRIVE_MOUNT_PATTERNS[size];
+    const baseName = device.deviceId === 'custom'
+      ? device.customName || 'Custom Device'
+      : getDevice(device.deviceId)?.name ?? device.deviceId;
+    return {
+      width: pattern.width,
+      height: count * pattern.height + (count - 1) * (DRIVE_SLED_WALL + DRIVE_SLED_GAP),
+      depth: pattern.depth,
+      name: `${baseName} (${count > 1 ? `${count}x ` : ''}${DRIVE_SIZE_LABELS[size]})`,
+    };
+  }
+
   if (device.deviceId === 'custom') {
     return {
       width: device.customWidth || 50,
@@ -277,8 +456,8 @@ export function generateFilename(config: RackConfig, extension: string, side?: '
 /**
  * Download SCAD code as a file
  */
-export function downloadScadFile(config: RackConfig, filename?: string): void {
-  const code = generateScadCode(config, false);
+export function downloadScadFile(config: RackConfig, quality: RenderQuality = 'standard', filename?: string): void {
+  const code = generateScadCode(config, false, quality);
   const blob = new Blob([code], { type: 'text/plain' });
   const url = URL.createObjectURL(blob);
 
@@ -292,10 +471,11 @@ export function downloadScadFile(config: RackConfig, filename?: string): void {
 }
 
 /**
- * Export configuration as JSON
+ * Export configuration as JSON, with the definitions of any My Devices or
+ * pack devices it places so it opens in other browsers
  */
 export function exportConfigJson(config: RackConfig): string {
-  return JSON.stringify(config, null, 2);
+  return JSON.stringify(embedCatalogDevices({ ...config, schemaVersion: CONFIG_SCHEMA_VERSION }, config), null, 2);
 }
 
 /**
@@ -316,19 +496,17 @@ export function downloadConfigJson(config: RackConfig, filename = 'rack_config.j
 }
 
 /**
- * Parse configuration from JSON
+ * Parse configuration from JSON, migrating older schema versions and
+ * validating every field
  */
-export function parseConfigJson(json: string): RackConfig | null {
+export function parseConfigJson(json: string): ConfigParseResult {
+  let raw: unknown;
   try {
-    const config = JSON.parse(json);
-    // Basic validation
-    if (typeof config.rackU === 'number' && Array.isArray(config.devices)) {
-      return config as RackConfig;
-    }
-    return null;
-  } catch {
-    return null;
+    raw = JSON.parse(json);
+  } catch (e) {
+    return { ok: false, errors: [`Not valid JSON: ${e instanceof Error ? e.message : 'parse error'}`] };
   }
+  return parseRackConfig(raw);
 }
 
 /**
@@ -358,9 +536,13 @@ export function downloadStl(data: ArrayBuffer, config: RackConfig, side?: 'left'
 /**
  * Generate SCAD code for a specific side of a split panel
  */
-export function generateScadCodeForSide(config: RackConfig, side: 'left' | 'right'): string {
+export function generateScadCodeForSide(
+  config: RackConfig,
+  side: 'left' | 'right',
+  quality: RenderQuality = 'standard'
+): string {
   const renderMode = side === 'left' ? 'left_print' : 'right_print';
-  return generateScadCode({ ...config, renderMode }, false);
+  return generateScadCode({ ...config, renderMode }, false, quality);
 }
 
 /**
@@ -0,0 +1,109 @@
+import type { RackConfig, PlacedDevice } from '../state/types';
+import { DEFAULT_RACK_CONFIG, CONFIG_SCHEMA_VERSION } from '../state/types';
+import { parseRackConfig, embedCatalogDevices } from './config-schema';
+import type { ConfigParseResult } from './config-schema';
+
+/**
+ * Shareable links
+ *
+ * The config is packed into the URL hash as `#config=<payload>`, where the
+ * payload is deflate-compressed JSON in base64url. Settings equal to their
+ * defaults are left out and short device IDs are used so large layouts still
+ * fit in a reasonable URL. Definitions of placed My Devices and pack devices
+ * are included. Decoding runs through the normal schema checks.
+ */
+
+const HASH_KEY = 'config';
+
+// Links longer than this may be cut off by chat apps and some browsers
+export const SHARE_LINK_WARN_LENGTH = 8000;
+
+async function compress(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(data: Uint8Array): Promise<string> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function toBase64Url(data: Uint8Array): string {
+  let binary = '';
+  for (const byte of data) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+// Drop top-level settings that match the defaults (devices are always kept)
+function minimizeConfig(config: RackConfig): Record<string, unknown> {
+  const minimal: Record<string, unknown> = { schemaVersion: CONFIG_SCHEMA_VERSION };
+  const defaults = DEFAULT_RACK_CONFIG as unknown as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(config)) {
+    if (key === 'schemaVersion') continue;
+    if (JSON.stringify(value) !== JSON.stringify(defaults[key])) {
+      minimal[key] = value;
+    }
+  }
+
+  // Instance IDs only need to be unique within the config
+  const renumber = (devices: PlacedDevice[], prefix: string) =>
+    devices.map((d, i) => ({ ...d, id: `${prefix}${i}` }));
+  if (minimal.devices) minimal.devices = renumber(config.devices, 'd');
+  if (minimal.leftDevices) minimal.leftDevices = renumber(config.leftDevices, 'l');
+  if (minimal.rightDevices) minimal.rightDevices = renumber(config.rightDevices, 'r');
+
+  return embedCatalogDevices(minimal, config);
+}
+
+/**
+ * Encode a config into a share link for the current page
+ */
+export async function createShareLink(config: RackConfig): Promise<string> {
+  const payload = toBase64Url(await compress(JSON.stringify(minimizeConfig(config))));
+  const url = new URL(window.location.href);
+  url.hash = `${HASH_KEY}=${payload}`;
+  return url.toString();
+}
+
+/**
+ * Get the encoded config payload from the current URL hash, if any
+ */
+export function getSharedConfigPayload(): string | null {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  return params.get(HASH_KEY);
+}
+
+/**
+ * Remove the shared config from the URL so a reload does not load it again
+ */
+export function clearSharedConfigFromUrl(): void {
+  const url = new URL(window.location.href);
+  url.hash = '';
+  window.history.replaceState(null, '', url.toString());
+}
+
+/**
+ * Decode a share link payload and run it through the schema checks
+ */
+export async function decodeSharedConfig(payload: string): Promise<ConfigParseResult> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await decompress(fromBase64Url(payload)));
+  } catch {
+    return { ok: false, errors: ['Share link is damaged or incomplete (could not decode the configuration)'] };
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ok: false, errors: ['Share link does not contain a rack configuration'] };
+  }
+
+  // Settings left out of the link take their default values
+  return parseRackConfig({ ...DEFAULT_RACK_CONFIG, ...raw });
+}
@@ -0,0 +1,133 @@
+import * as THREE from 'three';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import type { PlacedDevice, RackConfig } from '../state/types';
+import { readDeviceMesh } from './device-mesh-db';
+
+/**
+ * Vendor STL models as device proxies
+ *
+ * Meshes are turned into the rack frame used by the SCAD generator:
+ * x to the right, y into the rack (depth) and z up, with the device's
+ * front face at y = 0 and its face centered on x and z.
+ */
+
+// Model axis that faces out of the front of the rack
+export type StlFrontAxis = '+x' | '-x' | '+y' | '-y' | '+z' | '-z';
+
+export const STL_FRONT_AXIS_LABELS: Record<StlFrontAxis, string> = {
+  '-y': '-Y (CAD default)',
+  '+y': '+Y',
+  '-x': '-X',
+  '+x': '+X',
+  '-z': '-Z (top view)',
+  '+z': '+Z (top view)',
+};
+
+export interface StlDimensions {
+  width: number;
+  height: number;
+  depth: number;
+}
+
+const AXIS_VECTORS: Record<StlFrontAxis, THREE.Vector3> = {
+  '+x': new THREE.Vector3(1, 0, 0),
+  '-x': new THREE.Vector3(-1, 0, 0),
+  '+y': new THREE.Vector3(0, 1, 0),
+  '-y': new THREE.Vector3(0, -1, 0),
+  '+z': new THREE.Vector3(0, 0, 1),
+  '-z': new THREE.Vector3(0, 0, -1),
+};
+
+export function parseStl(data: ArrayBuffer): THREE.BufferGeometry {
+  const geometry = new STLLoader().parse(data);
+  if (!geometry.getAttribute('position') || geometry.getAttribute('position').count === 0) {
+    throw new Error('The STL file contains no triangles');
+  }
+  return geometry;
+}
+
+/**
+ * Rotation from model to rack frame. The model's Z is up, except when Z is
+ * the front axis, in which case its Y is up.
+ */
+function getOrientationMatrix(frontAxis: StlFrontAxis): THREE.Matrix4 {
+  const front = AXIS_VECTORS[frontAxis];
+  const up = frontAxis.endsWith('z') ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(0, 0, 1);
+  const right = new THREE.Vector3().crossVectors(up, front);
+  const back = front.clone().negate();
+
+  return new THREE.Matrix4().set(
+    right.x, right.y, right.z, 0,
+    back.x, back.y, back.z, 0,
+    up.x, up.y, up.z, 0,
+    0, 0, 0, 1
+  );
+}
+
+/**
+ * Copy of the geometry in the rack frame, front face at y = 0
+ */
+export function orientProxyGeometry(geometry: THREE.BufferGeometry, frontAxis: StlFrontAxis): THREE.BufferGeometry {
+  const oriented = geometry.clone().applyMatrix4(getOrientationMatrix(frontAxis));
+  oriented.computeBoundingBox();
+  const box = oriented.boundingBox!;
+  oriented.translate(-(box.min.x + box.max.x) / 2, -box.min.y, -(box.min.z + box.max.z) / 2);
+  oriented.computeBoundingBox();
+  oriented.computeVertexNormals();
+  return oriented;
+}
+
+/**
+ * Bounding box size as device dimensions, rounded up to whole mm so the
+ * cutout never ends up smaller than the model
+ */
+export function measureStl(geometry: THREE.BufferGeometry, frontAxis: StlFrontAxis): StlDimensions {
+  const oriented = orientProxyGeometry(geometry, frontAxis);
+  const size = oriented.boundingBox!.getSize(new THREE.Vector3());
+  oriented.dispose();
+
+  // Ignore float noise like 120.00001
+  const roundUp = (value: number) => Math.max(1, Math.ceil(Math.round(value * 100) / 100));
+  return { width: roundUp(size.x), height: roundUp(size.z), depth: roundUp(size.y) };
+}
+
+// Proxies are shared by every placement of the same mesh
+const proxyCache = new Map<string, Promise<THREE.BufferGeometry | null>>();
+
+/**
+ * Oriented proxy geometry for a stored mesh, or null when it is missing
+ * (e.g. a config shared from another browser)
+ */
+export function loadProxyGeometry(meshId: string): Promise<THREE.BufferGeometry | null> {
+  let geometry = proxyCache.get(meshId);
+  if (!geometry) {
+    geometry = readDeviceMesh(meshId)
+      .then((mesh) => (mesh ? orientProxyGeometry(parseStl(mesh.stl), mesh.frontAxis) : null))
+      .catch((error) => {
+        console.error('Failed to load device model:', error);
+        return null;
+      });
+    proxyCache.set(meshId, geometry);
+  }
+  return geometry;
+}
+
+/**
+ * Devices with a proxy model in the parts the current render mode shows.
+ * The print layouts move the halves around, so they get no proxies.
+ */
+export function getProxyDevices(config: RackConfig): PlacedDevice[] {
+  let devices: PlacedDevice[];
+  if (!config.isSplit) {
+    devices = config.devices;
+  } else if (config.renderMode === 'left') {
+    devices = config.leftDevices;
+  } else if (config.renderMode === 'right') {
+    devices = config.rightDevices;
+  } else if (config.renderMode === 'both') {
+    devices = [...config.leftDevices, ...config.rightDevices];
+  } else {
+    devices = [];
+  }
+  return devices.filter((device) => device.proxyMeshId);
+}
@@ -0,0 +1,136 @@
+import type { RackConfig } from '../state/types';
+import { openDatabase, TEMPLATES_STORE } from './app-db';
+import { renderRackThumbnail } from './rack-thumbnail';
+import { parseRackConfig } from './config-schema';
+
+/**
+ * User templates
+ *
+ * Saved rack layouts that can be started from like the built-in templates.
+ * Templates can be exported as JSON files to share them with the team.
+ */
+
+const TEMPLATE_FILE_FORMAT = 'rack-configurator/template';
+const TEMPLATE_FILE_VERSION = 1;
+
+export interface UserTemplate {
+  id: string;
+  name: string;
+  description: string;
+  config: RackConfig;
+  thumbnail: string;    // SVG data URL of the front view
+  createdAt: number;
+}
+
+interface TemplateFile {
+  format: typeof TEMPLATE_FILE_FORMAT;
+  version: number;
+  name: string;
+  description: string;
+  config: RackConfig;
+}
+
+export type TemplateFileParseResult =
+  | { ok: true; name: string; description: string; config: RackConfig }
+  | { ok: false; errors: string[] };
+
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export async function listUserTemplates(): Promise<UserTemplate[]> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(TEMPLATES_STORE, 'readonly');
+    const request = transaction.objectStore(TEMPLATES_STORE).index('createdAt').getAll();
+    request.onsuccess = () => resolve((request.result as UserTemplate[]).reverse()); // Newest first
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function createUserTemplate(config: RackConfig, name: string, description: string): Promise<UserTemplate> {
+  const db = await openDatabase();
+
+  const template: UserTemplate = {
+    id: generateId(),
+    name,
+    description,
+    config: JSON.parse(JSON.stringify(config)), // Deep clone
+    thumbnail: renderRackThumbnail(config),
+    createdAt: Date.now(),
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(TEMPLATES_STORE, 'readwrite');
+    transaction.objectStore(TEMPLATES_STORE).add(template);
+    transaction.oncomplete = () => resolve(template);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deleteUserTemplate(id: string): Promise<void> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(TEMPLATES_STORE, 'readwrite');
+    const request = transaction.objectStore(TEMPLATES_STORE).delete(id);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Download a user template as a shareable JSON file
+ */
+export function downloadTemplateFile(template: UserTemplate): void {
+  const file: TemplateFile = {
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    name: template.name,
+    description: template.description,
+    config: template.config,
+  };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${template.name.replace(/[^a-z0-9-_]+/gi, '_')}.template.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse a template file, running the config through the schema checks
+ */
+export function parseTemplateFile(json: string): TemplateFileParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    return { ok: false, errors: [`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+
+  if (!raw || typeof raw !== 'object') {
+    return { ok: false, errors: ['Not a template file'] };
+  }
+  const { format, version, name, description, config } = raw as Partial<TemplateFile>;
+  if (format !== TEMPLATE_FILE_FORMAT) {
+    return { ok: false, errors: ['Not a template file (missing "format": "rack-configurator/template")'] };
+  }
+  if (typeof version !== 'number' || version > TEMPLATE_FILE_VERSION) {
+    return { ok: false, errors: ['Template file was made by a newer version of the app'] };
+  }
+  if (typeof name !== 'string' || name.trim() === '') {
+    return { ok: false, errors: ['name: expected a non-empty string'] };
+  }
+
+  const result = parseRackConfig(config);
+  if (!result.ok) {
+    return { ok: false, errors: result.errors.map((error) => `config.${error}`) };
+  }
+  return { ok: true, name: name.trim(), description: typeof description === 'string' ? description : '', config: result.config };
+}
@@ -0,0 +1,78 @@
+import type { RackDevice } from '../data/devices';
+import { USER_DEVICE_PREFIX, registerUserDevices } from '../data/devices';
+import { openDatabase, USER_DEVICES_STORE } from './app-db';
+
+/**
+ * "My Devices" catalog
+ *
+ * Devices the user measured once and wants to reuse. They are stored in
+ * IndexedDB and registered with the device catalog at startup, so placements
+ * reference them by ID like any built-in device.
+ */
+
+export type UserDeviceDetails = Omit<RackDevice, 'id' | 'userDefined'>;
+
+let loadPromise: Promise<RackDevice[]> | null = null;
+
+function generateId(): string {
+  return `${USER_DEVICE_PREFIX}${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export async function listUserDevices(): Promise<RackDevice[]> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(USER_DEVICES_STORE, 'readonly');
+    const request = transaction.objectStore(USER_DEVICES_STORE).getAll();
+    request.onsuccess = () => {
+      const devices = request.result as RackDevice[];
+      resolve(devices.sort((a, b) => a.name.localeCompare(b.name)));
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Load the catalog from IndexedDB and register it (once per page load).
+ * Anything that resolves device IDs from stored configs awaits this first.
+ */
+export function loadUserDevices(): Promise<RackDevice[]> {
+  if (!loadPromise) {
+    loadPromise = listUserDevices()
+      .catch((error) => {
+        console.error('Failed to load My Devices:', error);
+        return [];
+      })
+      .then((devices) => {
+        registerUserDevices(devices);
+        return devices;
+      });
+  }
+  return loadPromise;
+}
+
+/**
+ * Create a device, or update it when `id` is given
+ */
+export async function saveUserDevice(details: UserDeviceDetails, id?: string): Promise<RackDevice> {
+  const db = await openDatabase();
+  const device: RackDevice = { ...details, id: id ?? generateId(), userDefined: true };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(USER_DEVICES_STORE, 'readwrite');
+    transaction.objectStore(USER_DEVICES_STORE).put(device);
+    transaction.oncomplete = () => resolve(device);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deleteUserDevice(id: string): Promise<void> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(USER_DEVICES_STORE, 'readwrite');
+    const request = transaction.objectStore(USER_DEVICES_STORE).delete(id);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
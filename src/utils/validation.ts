@@ -0,0 +1,363 @@
+import type { RackConfig, PlacedDevice } from '../state/types';
+import { getRackHeight } from '../state/types';
+import { getAllowedMountTypes } from '../data/devices';
+import { getPlacedDeviceDimensions } from './scad-generator';
+
+/**
+ * Rack validation engine
+ *
+ * Checks a whole configuration before export, mirroring the safety checks in
+ * public/components/validation.scad (working bounds, cage offsets) plus the
+ * split and mount-type rules the web UI adds on top.
+ *
+ * All positions use rack coordinates (origin at faceplate center, Y up).
+ */
+
+// Split line exclusion zone - devices (including cage walls) must not overlap
+// Components:
+// - Joiner wall: 4mm (extends 2mm on each side)
+// - Cage wall thickness: 4-6mm (depending on heavy_device setting)
+// - Buffer: 2mm for tolerance
+// Total: ~10mm on each side of split line
+export const SPLIT_MARGIN = 10; // mm on each side of split line
+export const CAGE_WALL_THICKNESS = 6; // max cage wall thickness (heavy_device=2)
+
+// Simple ears extend 5mm into the panel (rack_generator_internal.scad: cube([ear_w + 5, ...]))
+const SIMPLE_EAR_OVERLAP = 5;
+
+// Keystone slot pitch for patch panels (mm)
+const KEYSTONE_SPACING = 19;
+
+export type ProblemKind =
+  | 'overlap'
+  | 'ear_zone'
+  | 'out_of_bounds'
+  | 'split_line'
+  | 'patch_panel_width'
+  | 'mount_type';
+
+export type ProblemSeverity = 'error' | 'warning';
+
+export const PROBLEM_KIND_LABELS: Record<ProblemKind, string> = {
+  overlap: 'Overlap',
+  ear_zone: 'Ear Zone',
+  out_of_bounds: 'Out of Bounds',
+  split_line: 'Split Line',
+  patch_panel_width: 'Patch Panel Width',
+  mount_type: 'Mount Type',
+};
+
+export interface RackProblem {
+  id: string;               // Stable key (kind + device IDs)
+  kind: ProblemKind;
+  severity: ProblemSeverity;
+  message: string;
+  deviceIds: string[];      // Devices involved, first one is the one auto-fix changes
+  fixLabel?: string;        // Set when an automatic fix is available
+}
+
+interface Box {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+function getAllDevices(config: RackConfig): PlacedDevice[] {
+  return config.isSplit ? [...config.leftDevices, ...config.rightDevices] : config.devices;
+}
+
+// Cage walls surround every mount type except "none"
+function getCageMargin(device: PlacedDevice): number {
+  return device.mountType === 'none' ? 0 : CAGE_WALL_THICKNESS;
+}
+
+// Device footprint on the faceplate, optionally grown by a margin on every side
+function getDeviceBox(device: PlacedDevice, margin = 0): Box {
+  const dims = getPlacedDeviceDimensions(device);
+  return {
+    left: device.offsetX - dims.width / 2 - margin,
+    right: device.offsetX + dims.width / 2 + margin,
+    top: device.offsetY + dims.height / 2 + margin,
+    bottom: device.offsetY - dims.height / 2 - margin,
+  };
+}
+
+// Footprint used for device-to-device checks: cutout clearance plus cage walls
+function getKeepOutBox(device: PlacedDevice, config: RackConfig): Box {
+  return getDeviceBox(device, config.clearance + getCageMargin(device));
+}
+
+function boxesOverlap(a: Box, b: Box): boolean {
+  return a.left < b.right && a.right > b.left && a.bottom < b.top && a.top > b.bottom;
+}
+
+/**
+ * Width reserved at each panel edge by the rack ears (mm)
+ */
+export function getEarZoneWidth(config: RackConfig): number {
+  switch (config.earStyle) {
+    case 'toolless':
+    case 'fusion':
+      // Hook/ear plates sit on the panel edge, earThickness deep
+      return config.earThickness;
+    case 'simple':
+      return SIMPLE_EAR_OVERLAP;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Horizontal working bounds for cages (mirrors calculate_working_bounds)
+ */
+export function getWorkingBounds(config: RackConfig): { left: number; right: number } {
+  const halfWidth = config.panelWidth / 2;
+  const earZone = getEarZoneWidth(config);
+  return { left: -halfWidth + earZone, right: halfWidth - earZone };
+}
+
+/**
+ * Run every check against a configuration
+ */
+export function validateRack(config: RackConfig): RackProblem[] {
+  const problems: RackProblem[] = [];
+  const devices = getAllDevices(config);
+  const bounds = getWorkingBounds(config);
+  const halfHeight = getRackHeight(config.rackU) / 2;
+  const halfWidth = config.panelWidth / 2;
+  const earZone = getEarZoneWidth(config);
+
+  for (const device of devices) {
+    const name = getPlacedDeviceDimensions(device).name;
+    const body = getDeviceBox(device);
+    const cage = getDeviceBox(device, getCageMargin(device));
+
+    // Mount type must be one the device supports
+    const allowed = device.deviceId !== 'custom' ? getAllowedMountTypes(device.deviceId) : undefined;
+    if (allowed && !allowed.includes(device.mountType)) {
+      problems.push({
+        id: `mount_type:${device.id}`,
+        kind: 'mount_type',
+        severity: 'error',
+        message: `${name} does not support the "${device.mountType}" mount`,
+        deviceIds: [device.id],
+        fixLabel: 'Use supported mount',
+      });
+    }
+
+    // Patch panels must fit between the ears
+    if (device.mountType === 'patch_panel' && body.right - body.left > bounds.right - bounds.left) {
+      problems.push({
+        id: `patch_panel_width:${device.id}`,
+        kind: 'patch_panel_width',
+        severity: 'error',
+        message: `${name} is ${Math.round(body.right - body.left)}mm wide, panel only has ${Math.round(bounds.right - bounds.left)}mm`,
+        deviceIds: [device.id],
+        fixLabel: 'Reduce ports',
+      });
+    }
+
+    // Device body must stay on the faceplate (mirrors validate_*_offset)
+    if (body.left < -halfWidth || body.right > halfWidth || body.bottom < -halfHeight || body.top > halfHeight) {
+      problems.push({
+        id: `out_of_bounds:${device.id}`,
+        kind: 'out_of_bounds',
+        severity: 'error',
+        message: `${name} extends past the edge of the panel`,
+        deviceIds: [device.id],
+        fixLabel: 'Move inside panel',
+      });
+    } else if (earZone > 0 && (cage.left < bounds.left || cage.right > bounds.right)) {
+      // Cage walls must not collide with the ears or toolless hooks
+      problems.push({
+        id: `ear_zone:${device.id}`,
+        kind: 'ear_zone',
+        severity: 'error',
+        message: `${name} intrudes into the ${config.earStyle === 'toolless' ? 'toolless hook' : 'ear'} zone`,
+        deviceIds: [device.id],
+        fixLabel: 'Move away from edge',
+      });
+    }
+
+    // Devices (with cage walls) must stay clear of the split joiner
+    if (config.isSplit) {
+      const splitLeft = config.splitPosition - SPLIT_MARGIN;
+      const splitRight = config.splitPosition + SPLIT_MARGIN;
+      if (cage.right > splitLeft && cage.left < splitRight) {
+        problems.push({
+          id: `split_line:${device.id}`,
+          kind: 'split_line',
+          severity: 'error',
+          message: `${name} crosses the split line`,
+          deviceIds: [device.id],
+          fixLabel: 'Move off split line',
+        });
+      }
+    }
+  }
+
+  // Pairwise overlap, counting clearance and cage walls
+  for (let i = 0; i < devices.length; i++) {
+    const a = getKeepOutBox(devices[i], config);
+    for (let j = i + 1; j < devices.length; j++) {
+      const b = getKeepOutBox(devices[j], config);
+      if (boxesOverlap(a, b)) {
+        const nameA = getPlacedDeviceDimensions(devices[i]).name;
+        const nameB = getPlacedDeviceDimensions(devices[j]).name;
+        problems.push({
+          id: `overlap:${devices[j].id}:${devices[i].id}`,
+          kind: 'overlap',
+          severity: 'error',
+          message: `${nameB} overlaps ${nameA} (including cage walls and clearance)`,
+          deviceIds: [devices[j].id, devices[i].id],
+          fixLabel: 'Move apart',
+        });
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * IDs of every device involved in at least one problem
+ */
+export function getProblemDeviceIds(problems: RackProblem[]): Set<string> {
+  return new Set(problems.flatMap((p) => p.deviceIds));
+}
+
+// Replace a device in whichever list holds it
+function updateDeviceInConfig(config: RackConfig, id: string, update: Partial<PlacedDevice>): RackConfig {
+  const apply = (d: PlacedDevice) => (d.id === id ? { ...d, ...update } : d);
+  return {
+    ...config,
+    devices: config.devices.map(apply),
+    leftDevices: config.leftDevices.map(apply),
+    rightDevices: config.rightDevices.map(apply),
+  };
+}
+
+// Clamp a device center so its box (grown by margin) stays within the given limits
+function clampCenter(device: PlacedDevice, margin: number, limits: Box): { x: number; y: number } {
+  const box = getDeviceBox(device, margin);
+  let x = device.offsetX;
+  let y = device.offsetY;
+  if (box.left < limits.left) x += limits.left - box.left;
+  else if (box.right > limits.right) x -= box.right - limits.right;
+  if (box.bottom < limits.bottom) y += limits.bottom - box.bottom;
+  else if (box.top > limits.top) y -= box.top - limits.top;
+  return { x, y };
+}
+
+/**
+ * Apply the automatic fix for a problem. Returns the config unchanged when the
+ * problem has no fix or its devices no longer exist.
+ */
+export function fixProblem(config: RackConfig, problem: RackProblem): RackConfig {
+  const devices = getAllDevices(config);
+  const device = devices.find((d) => d.id === problem.deviceIds[0]);
+  if (!device || !problem.fixLabel) return config;
+
+  const halfHeight = getRackHeight(config.rackU) / 2;
+  const halfWidth = config.panelWidth / 2;
+  const bounds = getWorkingBounds(config);
+
+  switch (problem.kind) {
+    case 'mount_type': {
+      const allowed = getAllowedMountTypes(device.deviceId);
+      return allowed ? updateDeviceInConfig(config, device.id, { mountType: allowed[0] }) : config;
+    }
+
+    case 'patch_panel_width': {
+      const ports = Math.max(1, Math.floor((bounds.right - bounds.left) / KEYSTONE_SPACING));
+      const resized = { ...device, patchPanelPorts: ports };
+      const pos = clampCenter(resized, 0, { left: bounds.left, right: bounds.right, top: halfHeight, bottom: -halfHeight });
+      return updateDeviceInConfig(config, device.id, { patchPanelPorts: ports, offsetX: pos.x, offsetY: pos.y });
+    }
+
+    case 'out_of_bounds': {
+      const pos = clampCenter(device, 0, { left: -halfWidth, right: halfWidth, top: halfHeight, bottom: -halfHeight });
+      return updateDeviceInConfig(config, device.id, { offsetX: pos.x, offsetY: pos.y });
+    }
+
+    case 'ear_zone': {
+      const pos = clampCenter(device, getCageMargin(device), {
+        left: bounds.left,
+        right: bounds.right,
+        top: Infinity,
+        bottom: -Infinity,
+      });
+      return updateDeviceInConfig(config, device.id, { offsetX: pos.x });
+    }
+
+    case 'split_line': {
+      // Push the device fully onto the half it belongs to
+      const box = getDeviceBox(device, getCageMargin(device));
+      const onLeft = config.leftDevices.some((d) => d.id === device.id);
+      const offsetX = onLeft
+        ? device.offsetX - (box.right - (config.splitPosition - SPLIT_MARGIN))
+        : device.offsetX + ((config.splitPosition + SPLIT_MARGIN) - box.left);
+      return updateDeviceInConfig(config, device.id, { offsetX });
+    }
+
+    case 'overlap': {
+      // Move the first device the shortest distance that clears the second,
+      // preferring spots that are free and inside the working bounds
+      const other = devices.find((d) => d.id === problem.deviceIds[1]);
+      if (!other) return config;
+      const a = getKeepOutBox(device, config);
+      const b = getKeepOutBox(other, config);
+      const moves = [
+        { dx: b.right - a.left, dy: 0 },
+        { dx: b.left - a.right, dy: 0 },
+        { dx: 0, dy: b.top - a.bottom },
+        { dx: 0, dy: b.bottom - a.top },
+      ]
+        .map(({ dx, dy }) => ({ ...device, offsetX: device.offsetX + dx, offsetY: device.offsetY + dy }))
+        .filter((moved) => {
+          const box = getDeviceBox(moved);
+          return box.left >= -halfWidth && box.right <= halfWidth && box.bottom >= -halfHeight && box.top <= halfHeight;
+        })
+        .sort((p, q) =>
+          Math.abs(p.offsetX - device.offsetX) + Math.abs(p.offsetY - device.offsetY) -
+          (Math.abs(q.offsetX - device.offsetX) + Math.abs(q.offsetY - device.offsetY))
+        );
+
+      const isFree = (moved: PlacedDevice) => {
+        const cage = getDeviceBox(moved, getCageMargin(moved));
+        const keepOut = getKeepOutBox(moved, config);
+        return (
+          cage.left >= bounds.left &&
+          cage.right <= bounds.right &&
+          devices.every((d) => d.id === moved.id || !boxesOverlap(keepOut, getKeepOutBox(d, config)))
+        );
+      };
+      // Fall back to scanning along the row for the nearest free spot
+      let target = moves.find(isFree);
+      for (let dx = 1; !target && dx <= config.panelWidth; dx++) {
+        target = [device.offsetX + dx, device.offsetX - dx]
+          .map((offsetX) => ({ ...device, offsetX }))
+          .find(isFree);
+      }
+      if (!target) return config;
+      return updateDeviceInConfig(config, device.id, { offsetX: target.offsetX, offsetY: target.offsetY });
+    }
+  }
+}
+
+/**
+ * Apply every available fix one at a time, re-validating in between since one
+ * fix can resolve (or create) another problem
+ */
+export function fixAllProblems(config: RackConfig, maxSteps = 50): RackConfig {
+  let current = config;
+  for (let step = 0; step < maxSteps; step++) {
+    const problem = validateRack(current).find((p) => p.fixLabel);
+    if (!problem) break;
+    const next = fixProblem(current, problem);
+    if (next === current) break;
+    current = next;
+  }
+  return current;
+}
@@ -0,0 +1,132 @@
+// Structured diagnostics from OpenSCAD's console output
+//
+// OpenSCAD prefixes messages with their kind ("WARNING: ...", "ECHO: ...")
+// and usually ends them with a location ("in file x.scad, line 12").
+
+import type { OpenSCADResult } from './types';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'echo';
+
+export const DIAGNOSTIC_SEVERITIES: DiagnosticSeverity[] = ['error', 'warning', 'echo'];
+
+export const DIAGNOSTIC_SEVERITY_LABELS: Record<DiagnosticSeverity, string> = {
+  error: 'Errors',
+  warning: 'Warnings',
+  echo: 'Echo',
+};
+
+export interface ScadDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  file?: string;
+  line?: number;
+  count: number;  // Identical messages in a row are merged
+}
+
+const MESSAGE_PATTERN = /^(ERROR|WARNING|DEPRECATED|ECHO):\s?(.*)$/;
+const LOCATION_PATTERN = /,?\s*in file "?([^",]+)"?,\s*line (\d+):?\s*/;
+
+// Banner that validation.scad's echo_warning() prints before its message lines
+const ECHO_WARNING_BANNER = '* * * WARNING! * * *';
+
+const SEVERITY_BY_PREFIX: Record<string, DiagnosticSeverity> = {
+  ERROR: 'error',
+  WARNING: 'warning',
+  DEPRECATED: 'warning',
+  ECHO: 'echo',
+};
+
+function parseLine(prefix: string, text: string): Omit<ScadDiagnostic, 'count'> {
+  const severity = SEVERITY_BY_PREFIX[prefix];
+  let message = text.trim();
+  let file: string | undefined;
+  let line: number | undefined;
+
+  const location = LOCATION_PATTERN.exec(message);
+  if (location) {
+    file = location[1].replace(/^(\.\.\/|\/)+/, '');
+    line = parseInt(location[2], 10);
+    // "Parser error in file x, line 3: syntax error" reads "Parser error: syntax error"
+    const before = message.slice(0, location.index).trim();
+    const after = message.slice(location.index + location[0].length).trim();
+    message = before && after ? `${before}: ${after}` : before || after;
+  }
+
+  // echo("text") prints the string quoted
+  if (severity === 'echo' && /^".*"$/.test(message)) {
+    message = message.slice(1, -1).trim();
+  }
+
+  return { severity, message, file, line };
+}
+
+/**
+ * Diagnostics in the order OpenSCAD printed them
+ */
+export function parseDiagnostics(output: string): ScadDiagnostic[] {
+  const diagnostics: ScadDiagnostic[] = [];
+  // Lines of an echo_warning() block, collected until its closing blank echo
+  let echoWarning: string[] | null = null;
+
+  const push = (diagnostic: Omit<ScadDiagnostic, 'count'>) => {
+    const last = diagnostics[diagnostics.length - 1];
+    if (
+      last &&
+      last.severity === diagnostic.severity &&
+      last.message === diagnostic.message &&
+      last.file === diagnostic.file &&
+      last.line === diagnostic.line
+    ) {
+      last.count += 1;
+    } else {
+      diagnostics.push({ ...diagnostic, count: 1 });
+    }
+  };
+
+  for (const rawLine of output.split('\n')) {
+    const match = MESSAGE_PATTERN.exec(rawLine.trim());
+    if (!match) continue;
+    const diagnostic = parseLine(match[1], match[2]);
+
+    if (diagnostic.severity === 'echo') {
+      if (diagnostic.message === ECHO_WARNING_BANNER) {
+        echoWarning = [];
+        continue;
+      }
+      if (echoWarning) {
+        if (diagnostic.message) {
+          echoWarning.push(diagnostic.message);
+        } else if (echoWarning.length > 0) {
+          push({ severity: 'warning', message: echoWarning.join(' ') });
+          echoWarning = null;
+        }
+        continue;
+      }
+      // Blank echo() lines only space out the console
+      if (!diagnostic.message) continue;
+    }
+
+    push(diagnostic);
+  }
+
+  if (echoWarning && echoWarning.length > 0) {
+    push({ severity: 'warning', message: echoWarning.join(' ') });
+  }
+  return diagnostics;
+}
+
+/**
+ * Diagnostics for a finished render. Failures OpenSCAD didn't print itself
+ * (timeouts, crashes) are added as errors.
+ */
+export function getRenderDiagnostics(result: OpenSCADResult): ScadDiagnostic[] {
+  // Renders cached before the log was kept only have the separate streams
+  const output = result.log
+    ? result.log.map((line) => line.text).join('\n')
+    : [result.stderr, result.stdout].filter(Boolean).join('\n');
+  const diagnostics = parseDiagnostics(output);
+  if (!result.success && !result.cancelled && result.error && !diagnostics.some((d) => d.severity === 'error')) {
+    diagnostics.push({ severity: 'error', message: result.error, count: 1 });
+  }
+  return diagnostics;
+}
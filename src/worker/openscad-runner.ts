@@ -1,132 +1,397 @@
-// OpenSCAD Runner - Manages the Web Worker from the main thread
+// OpenSCAD Runner - Manages a pool of Web Workers from the main thread
 
-import type { WorkerMessage, WorkerResponse, OpenSCADInvocation, OpenSCADResult } from './types';
+import type { WorkerMessage, WorkerResponse, OpenSCADInvocation, OpenSCADResult, OpenSCADOutputLine } from './types';
+import { DEVICES, getAllDevices } from '../data/devices';
+import { generateDevicesScad, fetchDevicesScadSource, checkScadDeviceTable } from '../utils/scad-device-table';
+import type { RenderProgress } from './render-progress';
+import { RENDER_STARTED, parseRenderProgress } from './render-progress';
+import { getRenderCacheKey, readCachedRender, writeCachedRender } from '../utils/render-cache-db';
 
 type StatusCallback = (status: string) => void;
 type ResultCallback = (result: OpenSCADResult) => void;
 
-let worker: Worker | null = null;
-let isInitialized = false;
-let initPromise: Promise<void> | null = null;
-let pendingRequests = new Map<string, { resolve: ResultCallback; reject: (e: Error) => void }>();
+// High priority renders (the live preview) run first and may stop normal
+// ones (exports) when every worker is busy; those are then run again. A
+// render is stopped at most once and not at all once it is well under way,
+// so a steady stream of previews can't hold an export back forever.
+export type RenderPriority = 'high' | 'normal';
+
+export interface RenderOptions {
+  signal?: AbortSignal;          // Aborting cancels the render
+  timeout?: number;              // ms before the render is abandoned
+  priority?: RenderPriority;     // Default 'normal'
+  onProgress?: (progress: RenderProgress) => void;
+}
+
+// A render waiting for, or running in, a worker. Each worker runs one render
+// at a time, so a cancelled or stuck one can be stopped by replacing its worker.
+interface RenderJob {
+  message: WorkerMessage;
+  resolve: ResultCallback;
+  options: RenderOptions;
+  progress: RenderProgress;
+  timer?: ReturnType<typeof setTimeout>;
+  preempted?: boolean;           // Already stopped once for a high priority render
+}
+
+interface PoolWorker {
+  worker: Worker;
+  isReady: boolean;
+  ready: Promise<void>;
+  job: RenderJob | null;
+}
+
+const DEFAULT_RENDER_TIMEOUT = 5 * 60 * 1000;
+
+// Progress (%) after which a running render is no longer stopped for a higher priority one
+const MAX_PREEMPT_PERCENT = 20;
+
+// Upper bound on workers, and the memory (GB) budgeted for each one's WASM heap
+const MAX_POOL_SIZE = 4;
+const WORKER_MEMORY_GB = 1;
+
+// Errors after which the WASM runtime can't be trusted with another render
+const RUNTIME_FAILURE = /out of memory|OOM|Aborted\(|memory access out of bounds|unreachable/i;
+
+const pool: PoolWorker[] = [];
 let statusCallback: StatusCallback | null = null;
+const queue: RenderJob[] = [];
+const restartListeners = new Set<(reason: string) => void>();
 
 // Generate a unique ID for each request
 function generateId(): string {
   return Math.random().toString(36).substring(2, 15);
 }
 
+function cancelledResult(): OpenSCADResult {
+  return { success: false, error: 'Render cancelled', cancelled: true };
+}
+
+/**
+ * Workers to run at most: one per core, as far as the device's memory allows
+ */
+export function getPoolSize(): number {
+  const cores = navigator.hardwareConcurrency || 2;
+  // Only reported by Chromium browsers
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  const byMemory = memory ? Math.floor(memory / WORKER_MEMORY_GB) : MAX_POOL_SIZE;
+  return Math.max(1, Math.min(cores, byMemory, MAX_POOL_SIZE));
+}
+
 // Set a callback for status updates
 export function setStatusCallback(callback: StatusCallback | null) {
   statusCallback = callback;
 }
 
-// Initialize the worker
-export async function initializeWorker(): Promise<void> {
-  if (isInitialized) return;
-  if (initPromise) return initPromise;
-
-  initPromise = new Promise((resolve, reject) => {
-    try {
-      // Create the worker from the public folder (plain JS, no bundling needed)
-      // Use import.meta.env.BASE_URL to support deployment to subdirectories (e.g., GitHub Pages)
-      worker = new Worker(`${import.meta.env.BASE_URL}openscad-worker.js`);
-
-      // Handle messages from the worker
-      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
-        const { type, id, payload } = event.data;
-
-        switch (type) {
-          case 'ready':
-            isInitialized = true;
-            resolve();
-            break;
-
-          case 'progress':
-            if (statusCallback && typeof payload === 'string') {
-              statusCallback(payload);
-            }
-            break;
-
-          case 'result':
-            if (id && pendingRequests.has(id)) {
-              const { resolve: resultResolve } = pendingRequests.get(id)!;
-              pendingRequests.delete(id);
-              resultResolve(payload as OpenSCADResult);
-            }
-            break;
-
-          case 'error':
-            if (!isInitialized) {
-              reject(new Error(typeof payload === 'string' ? payload : 'Worker initialization failed'));
-            }
-            break;
+/**
+ * Get told when a worker had to be restarted after a crash or timeout.
+ * Returns an unsubscribe function.
+ */
+export function onWorkerRestart(listener: (reason: string) => void): () => void {
+  restartListeners.add(listener);
+  return () => restartListeners.delete(listener);
+}
+
+function spawnWorker(): PoolWorker {
+  let resolveReady!: () => void;
+  let rejectReady!: (e: Error) => void;
+  const ready = new Promise<void>((resolve, reject) => {
+    resolveReady = resolve;
+    rejectReady = reject;
+  });
+
+  // Create the worker from the public folder (plain JS, no bundling needed)
+  // Use import.meta.env.BASE_URL to support deployment to subdirectories (e.g., GitHub Pages)
+  const entry: PoolWorker = {
+    worker: new Worker(`${import.meta.env.BASE_URL}openscad-worker.js`),
+    isReady: false,
+    ready,
+    job: null,
+  };
+  pool.push(entry);
+
+  // A worker that never started leaves the pool, so a later render can try again
+  const failStart = (error: Error) => {
+    removeWorker(entry);
+    rejectReady(error);
+  };
+  ready.catch(() => {
+    // Queued renders wait for a worker that won't come
+    if (pool.length === 0) {
+      const error = 'OpenSCAD could not be started';
+      [...queue].forEach((job) => finishJob(job, { success: false, error }));
+    }
+  });
+
+  // Handle messages from the worker
+  entry.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const { type, id, payload } = event.data;
+    const job = entry.job;
+
+    switch (type) {
+      case 'ready':
+        entry.isReady = true;
+        resolveReady();
+        dispatchJobs();
+        break;
+
+      case 'progress':
+        if (statusCallback && typeof payload === 'string') {
+          statusCallback(payload);
         }
-      };
+        break;
 
-      worker.onerror = (e) => {
-        console.error('Worker error:', e);
-        if (!isInitialized) {
-          reject(new Error('Worker failed to initialize'));
+      case 'output':
+        if (job && job.message.id === id) {
+          reportOutput(job, payload as OpenSCADOutputLine);
         }
-      };
+        break;
 
-      // Send init message
-      const initMessage: WorkerMessage = { type: 'init', id: 'init' };
-      worker.postMessage(initMessage);
-    } catch (e) {
-      reject(e);
+      case 'result':
+        if (job && job.message.id === id) {
+          const result = payload as OpenSCADResult;
+          finishJob(job, result);
+          if (!result.success && result.error && RUNTIME_FAILURE.test(result.error)) {
+            replaceWorker(entry, 'OpenSCAD ran out of memory and was restarted');
+          } else {
+            dispatchJobs();
+          }
+        }
+        break;
+
+      case 'error':
+        if (!entry.isReady) {
+          failStart(new Error(typeof payload === 'string' ? payload : 'Worker initialization failed'));
+        }
+        break;
     }
-  });
+  };
 
-  return initPromise;
+  entry.worker.onerror = (e) => {
+    console.error('Worker error:', e);
+    if (!entry.isReady) {
+      failStart(new Error('Worker failed to initialize'));
+      return;
+    }
+    if (entry.job) {
+      finishJob(entry.job, { success: false, error: `OpenSCAD crashed: ${e.message || 'unknown error'}` });
+    }
+    replaceWorker(entry, 'OpenSCAD crashed and was restarted');
+  };
+
+  // Send init message
+  const initMessage: WorkerMessage = { type: 'init', id: 'init' };
+  entry.worker.postMessage(initMessage);
+  return entry;
 }
 
-// Render SCAD code to STL
-export async function renderScad(invocation: OpenSCADInvocation): Promise<OpenSCADResult> {
-  if (!worker || !isInitialized) {
-    await initializeWorker();
-  }
+function removeWorker(entry: PoolWorker) {
+  entry.worker.terminate();
+  const index = pool.indexOf(entry);
+  if (index >= 0) pool.splice(index, 1);
+}
+
+/**
+ * Start the pool's first worker (more start on demand while renders queue up)
+ */
+export async function initializeWorker(): Promise<void> {
+  const starting = pool.find((entry) => entry.isReady) ?? pool[0] ?? spawnWorker();
+  return starting.ready;
+}
 
-  if (!worker) {
-    return { success: false, error: 'Worker not available' };
+function reportOutput(job: RenderJob, line: OpenSCADOutputLine) {
+  const progress = parseRenderProgress(line.text);
+  // Stages can repeat (e.g. one per top-level object), so progress never goes back
+  if (progress && progress.percent > job.progress.percent) {
+    job.progress = progress;
+    job.options.onProgress?.(progress);
   }
+}
 
-  return new Promise((resolve, reject) => {
-    const id = generateId();
+function priorityOf(job: RenderJob): number {
+  return job.options.priority === 'high' ? 1 : 0;
+}
 
-    pendingRequests.set(id, { resolve, reject });
+// Whether a running render may be stopped so `next` can have its worker
+function isPreemptable(running: RenderJob, next: RenderJob): boolean {
+  return priorityOf(running) < priorityOf(next) && !running.preempted && running.progress.percent < MAX_PREEMPT_PERCENT;
+}
 
-    const message: WorkerMessage = {
-      type: 'invoke',
-      id,
-      payload: invocation,
-    };
+// Queue a render behind others of the same or higher priority
+function enqueue(job: RenderJob, atFront = false) {
+  const priority = priorityOf(job);
+  const index = atFront
+    ? queue.findIndex((queued) => priorityOf(queued) <= priority)
+    : queue.findIndex((queued) => priorityOf(queued) < priority);
+  queue.splice(index < 0 ? queue.length : index, 0, job);
+}
+
+function startJob(entry: PoolWorker, job: RenderJob) {
+  entry.job = job;
+  job.options.onProgress?.(job.progress);
+  entry.worker.postMessage(job.message);
+
+  const timeout = job.options.timeout ?? DEFAULT_RENDER_TIMEOUT;
+  job.timer = setTimeout(() => {
+    finishJob(job, { success: false, error: `Render timed out after ${Math.round(timeout / 1000)}s` });
+    replaceWorker(entry, 'OpenSCAD was restarted after a render timed out');
+  }, timeout);
+}
 
-    worker!.postMessage(message);
+/**
+ * Hand queued renders to idle workers, start more workers while the pool
+ * has room, and let high priority renders stop normal ones otherwise
+ */
+function dispatchJobs() {
+  while (queue.length > 0) {
+    const idle = pool.find((entry) => entry.isReady && !entry.job);
+    if (idle) {
+      startJob(idle, queue.shift()!);
+      continue;
+    }
 
-    // Timeout after 5 minutes
-    setTimeout(() => {
-      if (pendingRequests.has(id)) {
-        pendingRequests.delete(id);
-        resolve({ success: false, error: 'Render timed out' });
+    const starting = pool.filter((entry) => !entry.isReady).length;
+    if (pool.length < getPoolSize()) {
+      if (queue.length > starting) {
+        spawnWorker();
+        continue;
       }
-    }, 5 * 60 * 1000);
+      return;
+    }
+
+    const next = queue[0];
+    const preemptable = pool.find((entry) => entry.job && isPreemptable(entry.job, next));
+    if (!preemptable || starting > 0) return;
+
+    // The stopped render goes back to the front of its queue and starts over
+    const stopped = preemptable.job!;
+    clearTimeout(stopped.timer);
+    stopped.progress = RENDER_STARTED;
+    stopped.preempted = true;
+    preemptable.job = null;
+    enqueue(stopped, true);
+    replaceWorker(preemptable);
+    return;
+  }
+}
+
+function finishJob(job: RenderJob, result: OpenSCADResult) {
+  clearTimeout(job.timer);
+  const running = pool.find((entry) => entry.job === job);
+  if (running) {
+    running.job = null;
+  } else {
+    const index = queue.indexOf(job);
+    if (index >= 0) queue.splice(index, 1);
+  }
+  job.resolve(result);
+}
+
+function cancelJob(job: RenderJob) {
+  const running = pool.find((entry) => entry.job === job);
+  if (!running && !queue.includes(job)) return;
+
+  finishJob(job, cancelledResult());
+  // A running render can only be stopped by ending its worker
+  if (running) {
+    replaceWorker(running);
+  }
+}
+
+/**
+ * Replace a worker with a fresh one. Queued renders carry on; only the
+ * render it was running is lost. Restarts with a reason (anything but a
+ * cancel or preemption) are reported to the user.
+ */
+function replaceWorker(entry: PoolWorker, reason?: string) {
+  removeWorker(entry);
+
+  if (reason) {
+    statusCallback?.(reason);
+    restartListeners.forEach((listener) => listener(reason));
+  }
+
+  // Start the replacement right away so the next render doesn't wait for it
+  spawnWorker().ready.then(dispatchJobs, () => {});
+}
+
+// Warn (in development) when the shipped devices.scad table drifts from the catalog
+let hasCheckedDeviceTable = false;
+
+async function checkDeviceTableOnce(): Promise<void> {
+  if (hasCheckedDeviceTable || !import.meta.env.DEV) return;
+  hasCheckedDeviceTable = true;
+  const mismatches = checkScadDeviceTable(await fetchDevicesScadSource(), DEVICES);
+  if (mismatches.length > 0) {
+    console.warn(
+      '[OpenSCAD] components/devices.scad disagrees with src/data/devices.ts:\n' +
+        mismatches.map((m) => `  ${m.message}`).join('\n')
+    );
+  }
+}
+
+// devices.scad with the table generated from the current catalog
+async function getLibraryFiles(): Promise<Record<string, string>> {
+  try {
+    await checkDeviceTableOnce();
+    return { 'components/devices.scad': await generateDevicesScad(getAllDevices()) };
+  } catch (e) {
+    console.warn('[OpenSCAD] Rendering with the shipped device table:', e);
+    return {};
+  }
+}
+
+// Render SCAD code to STL, or load the result of an identical earlier render
+export async function renderScad(invocation: OpenSCADInvocation, options: RenderOptions = {}): Promise<OpenSCADResult> {
+  if (options.signal?.aborted) return cancelledResult();
+
+  // The cache doesn't need the worker, so hits skip loading OpenSCAD entirely
+  const files = { ...(await getLibraryFiles()), ...invocation.files };
+  const fullInvocation = { ...invocation, files };
+  const cacheKey = await getRenderCacheKey(fullInvocation).catch((e) => {
+    console.warn('[OpenSCAD] Render cache unavailable:', e);
+    return null;
   });
+  const cached = cacheKey ? await readCachedRender(cacheKey).catch(() => null) : null;
+  if (options.signal?.aborted) return cancelledResult();
+  if (cached) {
+    options.onProgress?.({ stage: 'Loaded from cache', percent: 100 });
+    return { success: true, output: cached.stl, stdout: cached.stdout, stderr: cached.stderr, log: cached.log, renderTime: 0, cached: true };
+  }
+
+  await initializeWorker();
+  if (options.signal?.aborted) return cancelledResult();
+
+  const result = await new Promise<OpenSCADResult>((resolve) => {
+    const job: RenderJob = {
+      message: { type: 'invoke', id: generateId(), payload: fullInvocation },
+      resolve,
+      options,
+      progress: RENDER_STARTED,
+    };
+    options.signal?.addEventListener('abort', () => cancelJob(job), { once: true });
+
+    enqueue(job);
+    dispatchJobs();
+  });
+
+  if (cacheKey && result.success && result.output) {
+    writeCachedRender(cacheKey, { stl: result.output, stdout: result.stdout ?? '', stderr: result.stderr ?? '', log: result.log })
+      .catch((e) => console.warn('[OpenSCAD] Failed to cache render:', e));
+  }
+  return result;
 }
 
-// Check if the worker is ready
+// Check if a worker is ready
 export function isWorkerReady(): boolean {
-  return isInitialized;
+  return pool.some((entry) => entry.isReady);
 }
 
-// Terminate the worker
+// Terminate every worker, failing any queued renders
 export function terminateWorker() {
-  if (worker) {
-    worker.terminate();
-    worker = null;
-    isInitialized = false;
-    initPromise = null;
-    pendingRequests.clear();
-  }
+  [...queue].forEach((job) => finishJob(job, cancelledResult()));
+  [...pool].forEach((entry) => {
+    if (entry.job) finishJob(entry.job, cancelledResult());
+    removeWorker(entry);
+  });
 }
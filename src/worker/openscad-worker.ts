@@ -7,6 +7,7 @@ interface OpenSCADInvocation {
   outputFormat: 'stl' | 'off';
   variables?: Record<string, unknown>;
   features?: string[];
+  files?: Record<string, string>;
 }
 
 interface OpenSCADResult {
@@ -15,6 +16,7 @@ interface OpenSCADResult {
   error?: string;
   stdout?: string;
   stderr?: string;
+  log?: OpenSCADOutputLine[];
   renderTime?: number;
 }
 
@@ -24,10 +26,15 @@ interface WorkerMessage {
   payload?: OpenSCADInvocation;
 }
 
+interface OpenSCADOutputLine {
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
 interface WorkerResponse {
-  type: 'ready' | 'progress' | 'result' | 'error';
+  type: 'ready' | 'progress' | 'output' | 'result' | 'error';
   id?: string;
-  payload?: OpenSCADResult | string;
+  payload?: OpenSCADResult | OpenSCADOutputLine | string;
 }
 
 declare function importScripts(...urls: string[]): void;
@@ -59,18 +66,36 @@ let openscadInstance: {
     mount: (fs: unknown, opts: unknown, path: string) => void;
     unlink: (path: string) => void;
     stat: (path: string) => { isDirectory: () => boolean };
+    symlink: (target: string, path: string) => void;
   };
+  PATH?: unknown;
+  ERRNO_CODES?: unknown;
   callMain: (args: string[]) => number;
 } | null = null;
 
 let isReady = false;
 let rackScadFS: unknown = null;
+let currentRenderId: string | null = null; // Render whose output is captured and forwarded to the main thread
+let renderLog: OpenSCADOutputLine[] = []; // Both streams of the current render, in print order
 
 // Send a message to the main thread
 function postResponse(response: WorkerResponse) {
   self.postMessage(response);
 }
 
+// Capture a line of render output and forward it (the main thread derives progress from it)
+function captureOutput(stream: OpenSCADOutputLine['stream'], text: string) {
+  if (currentRenderId) {
+    renderLog.push({ stream, text });
+    postResponse({ type: 'output', id: currentRenderId, payload: { stream, text } });
+  }
+}
+
+// First ERROR line of the render, which says more than the exit code
+function firstErrorLine(): string | undefined {
+  return renderLog.map((line) => line.text).find((text) => /^ERROR:/.test(text.trim()));
+}
+
 // Initialize BrowserFS and load libraries
 async function initializeFilesystem(): Promise<void> {
   return new Promise((resolve, reject) => {
@@ -95,7 +120,14 @@ async function initializeFilesystem(): Promise<void> {
   });
 }
 
-// Load the rack-scad library ZIP
+// BrowserFS's node-style fs module, as far as the worker uses it
+interface BrowserFSModule {
+  mkdirSync: (path: string) => void;
+  writeFileSync: (path: string, data: string) => void;
+  getRootFS: () => { mount?: (path: string, fs: unknown) => void } | null;
+}
+
+// Load the rack-scad library ZIP and mount it
 async function loadRackScadLibrary(): Promise<void> {
   const response = await fetch('/rack-scad.zip');
   if (!response.ok) {
@@ -108,20 +140,92 @@ async function loadRackScadLibrary(): Promise<void> {
   const bufferModule = BrowserFS.BFSRequire('buffer') as { Buffer: { from: (data: ArrayBuffer) => ArrayBuffer } };
   const zipData = bufferModule.Buffer.from(arrayBuffer);
 
-  return new Promise((resolve, reject) => {
-    BrowserFS.FileSystem.ZipFS.Create({ zipData }, (e, zipfs) => {
-      if (e || !zipfs) {
+  const zipfs = await new Promise<unknown>((resolve, reject) => {
+    BrowserFS.FileSystem.ZipFS.Create({ zipData }, (e, fs) => {
+      if (e || !fs) {
         reject(e || new Error('Failed to create ZipFS'));
         return;
       }
+      resolve(fs);
+    });
+  });
+
+  // Writable overlay so generated files (e.g. the device table) can replace library files
+  const memfs = await new Promise<unknown>((resolve, reject) => {
+    BrowserFS.FileSystem.InMemory.Create({}, (e, fs) => {
+      if (e || !fs) {
+        reject(e || new Error('Failed to create InMemory FS'));
+        return;
+      }
+      resolve(fs);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    BrowserFS.FileSystem.OverlayFS.Create({ readable: zipfs, writable: memfs }, (e, overlayfs) => {
+      if (e || !overlayfs) {
+        reject(e || new Error('Failed to create OverlayFS'));
+        return;
+      }
+
+      rackScadFS = overlayfs;
+
+      // Mount the library at /libraries in BrowserFS
+      // The zip contains components/ folder, so files will be at /libraries/components/
+      const fs = BrowserFS.BFSRequire('fs') as BrowserFSModule;
+      try {
+        fs.mkdirSync('/libraries');
+      } catch {
+        // Directory may already exist
+      }
+
+      const rootFS = fs.getRootFS();
+      if (rootFS && rootFS.mount) {
+        rootFS.mount('/libraries', overlayfs);
+      } else {
+        console.warn('[OpenSCAD Worker] Could not mount rack-scad library - no mount method');
+      }
 
-      rackScadFS = zipfs;
-      console.log('[OpenSCAD Worker] Loaded rack-scad library', rackScadFS ? 'successfully' : 'failed');
       resolve();
     });
   });
 }
 
+// Mount the BrowserFS library into OpenSCAD's Emscripten filesystem
+function mountRackScadLibrary() {
+  if (!openscadInstance || !rackScadFS) return;
+  const FS = openscadInstance.FS;
+  try {
+    try {
+      FS.mkdir('/libraries');
+    } catch {
+      // May exist
+    }
+    const BFS = new BrowserFS.EmscriptenFS(
+      FS,
+      openscadInstance.PATH || { join: (...args: string[]) => args.join('/'), join2: (a: string, b: string) => `${a}/${b}` },
+      openscadInstance.ERRNO_CODES || {}
+    );
+    FS.mount(BFS, { root: '/libraries' }, '/libraries');
+
+    // Symlinks so components/ and ../rack_mounts/ includes resolve
+    for (const dir of ['components', 'rack_mounts']) {
+      try {
+        FS.symlink(`/libraries/${dir}`, `/${dir}`);
+      } catch {
+        try {
+          FS.mkdir(`/${dir}`);
+        } catch {
+          // May exist
+        }
+        FS.mount(BFS, { root: `/libraries/${dir}` }, `/${dir}`);
+      }
+    }
+  } catch (e) {
+    console.error('[OpenSCAD Worker] Failed to mount rack-scad library:', e);
+  }
+}
+
 // Initialize OpenSCAD WASM
 async function initializeOpenSCAD(): Promise<void> {
   // Dynamic import of OpenSCAD WASM module
@@ -139,9 +243,11 @@ async function initializeOpenSCAD(): Promise<void> {
     const moduleConfig = {
       noInitialRun: true,
       print: (text: string) => {
+        captureOutput('stdout', text);
         console.log('[OpenSCAD]', text);
       },
       printErr: (text: string) => {
+        captureOutput('stderr', text);
         console.error('[OpenSCAD]', text);
       },
       locateFile: (path: string) => {
@@ -152,6 +258,7 @@ async function initializeOpenSCAD(): Promise<void> {
       },
       onRuntimeInitialized: () => {
         openscadInstance = moduleConfig as unknown as typeof openscadInstance;
+        mountRackScadLibrary();
         resolve();
       },
     };
@@ -164,22 +271,37 @@ async function initializeOpenSCAD(): Promise<void> {
   });
 }
 
+// Write generated library files, keyed by path relative to the library root
+function writeLibraryFiles(files: Record<string, string>) {
+  const fs = BrowserFS.BFSRequire('fs') as BrowserFSModule;
+  for (const [path, content] of Object.entries(files)) {
+    fs.writeFileSync(`/libraries/${path}`, content);
+  }
+}
+
 // Perform a render
 async function render(
-  _id: string,
+  id: string,
   scadCode: string,
   outputFormat: 'stl' | 'off',
-  variables?: Record<string, unknown>
+  variables?: Record<string, unknown>,
+  files?: Record<string, string>
 ): Promise<OpenSCADResult> {
   if (!openscadInstance) {
     return { success: false, error: 'OpenSCAD not initialized' };
   }
 
   const startTime = Date.now();
-  let stdout = '';
-  let stderr = '';
+  renderLog = [];
+  const streamText = (stream: OpenSCADOutputLine['stream']) =>
+    renderLog.filter((line) => line.stream === stream).map((line) => line.text).join('\n');
+  const capturedOutput = () => ({ log: renderLog, stdout: streamText('stdout'), stderr: streamText('stderr') });
 
   try {
+    if (files) {
+      writeLibraryFiles(files);
+    }
+
     const FS = openscadInstance.FS;
 
     // Write the input SCAD file
@@ -214,14 +336,14 @@ async function render(
     ];
 
     // Run OpenSCAD
+    currentRenderId = id;
     const result = openscadInstance.callMain(args);
 
     if (result !== 0) {
       return {
         success: false,
-        error: `OpenSCAD exited with code ${result}`,
-        stdout,
-        stderr,
+        error: firstErrorLine() || `OpenSCAD exited with code ${result}`,
+        ...capturedOutput(),
         renderTime: Date.now() - startTime,
       };
     }
@@ -240,18 +362,18 @@ async function render(
     return {
       success: true,
       output: outputData.buffer as ArrayBuffer,
-      stdout,
-      stderr,
+      ...capturedOutput(),
       renderTime: Date.now() - startTime,
     };
   } catch (e) {
     return {
       success: false,
-      error: e instanceof Error ? e.message : String(e),
-      stdout,
-      stderr,
+      error: firstErrorLine() || (e instanceof Error ? e.message : String(e)),
+      ...capturedOutput(),
       renderTime: Date.now() - startTime,
     };
+  } finally {
+    currentRenderId = null;
   }
 }
 
@@ -309,14 +431,16 @@ self.onmessage = async (event: MessageEvent<WorkerMessage>) => {
         id,
         payload.scadCode,
         payload.outputFormat,
-        payload.variables
+        payload.variables,
+        payload.files
       );
 
       postResponse({ type: 'result', id, payload: result });
       break;
 
     case 'cancel':
-      // TODO: Implement cancellation
+      // callMain runs synchronously, so no message gets through while a render
+      // runs. The runner cancels by terminating this worker and starting another.
       break;
   }
 };
@@ -0,0 +1,27 @@
+// Render progress from OpenSCAD's console output
+//
+// OpenSCAD reports stages rather than percentages, so each known stage line
+// maps to a fixed share of a typical render.
+
+export interface RenderProgress {
+  stage: string;
+  percent: number;
+}
+
+const RENDER_STAGES: { pattern: RegExp; stage: string; percent: number }[] = [
+  { pattern: /^Parsing design/, stage: 'Parsing design', percent: 10 },
+  { pattern: /^Compiling design/, stage: 'Building CSG tree', percent: 25 },
+  { pattern: /^Rendering Polygon Mesh/, stage: 'Rendering geometry', percent: 40 },
+  { pattern: /^(Geometries in cache|Geometry cache size|Total rendering time)/, stage: 'Finishing geometry', percent: 85 },
+  { pattern: /^(Top level object|\s*Status:)/, stage: 'Exporting', percent: 95 },
+];
+
+export const RENDER_STARTED: RenderProgress = { stage: 'Starting OpenSCAD', percent: 5 };
+
+/**
+ * Progress reached by an output line, or null for lines that don't mark a stage
+ */
+export function parseRenderProgress(line: string): RenderProgress | null {
+  const match = RENDER_STAGES.find(({ pattern }) => pattern.test(line));
+  return match ? { stage: match.stage, percent: match.percent } : null;
+}
@@ -9,6 +9,9 @@ export interface OpenSCADInvocation {
   variables?: Record<string, unknown>;
   // Features to enable
   features?: string[];
+  // Library files to write before rendering, keyed by path relative to the
+  // library root (e.g. 'components/devices.scad')
+  files?: Record<string, string>;
 }
 
 export interface OpenSCADResult {
@@ -21,8 +24,20 @@ export interface OpenSCADResult {
   stdout?: string;
   // Stderr from OpenSCAD
   stderr?: string;
+  // Lines of both streams in the order OpenSCAD printed them
+  log?: OpenSCADOutputLine[];
   // Render time in ms
   renderTime?: number;
+  // Set when the render was cancelled before it finished
+  cancelled?: boolean;
+  // Set when the STL came from the render cache instead of OpenSCAD
+  cached?: boolean;
+}
+
+// A line OpenSCAD printed while rendering
+export interface OpenSCADOutputLine {
+  stream: 'stdout' | 'stderr';
+  text: string;
 }
 
 export interface WorkerMessage {
@@ -32,7 +47,7 @@ export interface WorkerMessage {
 }
 
 export interface WorkerResponse {
-  type: 'ready' | 'progress' | 'result' | 'error';
+  type: 'ready' | 'progress' | 'output' | 'result' | 'error';
   id?: string;
-  payload?: OpenSCADResult | string;
+  payload?: OpenSCADResult | OpenSCADOutputLine | string;
 }